@@ -0,0 +1,31 @@
+import { auth } from "@/lib/auth";
+import { getReplaySession } from "@/lib/fixtures";
+import { getRun, getRunOwnerKey, parseLastEventId, streamRun } from "@/lib/run-store";
+import { SSE_HEADERS } from "@/lib/stream-protocol";
+
+// Reattach to an analysis run, replaying events after Last-Event-ID
+export async function GET(req: Request, { params }: { params: Promise<{ runId: string }> }) {
+  const session = (await auth()) ?? getReplaySession();
+
+  if (!session?.accessToken) {
+    return new Response(JSON.stringify({ error: "Not authenticated" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { runId } = await params;
+  const ownerKey = getRunOwnerKey(session);
+  const run = ownerKey ? getRun(runId, ownerKey) : null;
+  if (!run) {
+    return new Response(JSON.stringify({ error: "Analysis run not found or expired" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const lastEventId = parseLastEventId(req.headers.get("Last-Event-ID"));
+  return new Response(streamRun(run, lastEventId), {
+    headers: { ...SSE_HEADERS, "X-Analysis-Run-Id": run.id },
+  });
+}
@@ -0,0 +1,47 @@
+import { verifyWebhookSignature, getWebhookTrigger } from "@/lib/github-webhooks";
+import { getLaunchableSyncQueue } from "@/lib/launchable-sync";
+
+function json(status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// GitHub push webhooks: re-analyze the branch in the background.
+// Jobs run in this process after the 202 is sent and queued jobs only live in
+// memory, so this route needs a long-lived Node server (`next start`); on
+// serverless hosts the process can be frozen after the response and jobs are lost.
+export async function POST(req: Request) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  const queue = getLaunchableSyncQueue();
+  if (!secret || !queue) {
+    return json(503, { error: "Webhooks are not configured" });
+  }
+
+  // The signature covers the exact bytes GitHub sent
+  const body = await req.text();
+  if (!verifyWebhookSignature(secret, body, req.headers.get("X-Hub-Signature-256"))) {
+    return json(401, { error: "Invalid signature" });
+  }
+
+  const event = req.headers.get("X-GitHub-Event");
+  if (event === "ping") {
+    return json(200, { ok: true });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return json(400, { error: "Payload is not JSON" });
+  }
+
+  const trigger = getWebhookTrigger(event, payload);
+  if (!trigger) {
+    return json(202, { queued: false, reason: `Ignored ${event ?? "unknown"} event` });
+  }
+
+  const { job, coalesced } = queue.enqueue(trigger);
+  return json(202, { queued: true, jobId: job.id, coalesced });
+}
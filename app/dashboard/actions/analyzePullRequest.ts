@@ -0,0 +1,71 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { runWithFixtures, getFixtureName, getReplaySession } from "@/lib/fixtures";
+import { runPullRequestAnalysis } from "@/lib/pr-analysis";
+import { getRunOwnerKey } from "@/lib/run-store";
+import type { PullRequestInfo } from "@/lib/github";
+import type { PullRequestComputeImpact, RepoMeta } from "@/types/agentSchemas";
+
+export interface PullRequestAnalysisResult {
+  success: boolean;
+  pullRequest?: PullRequestInfo;
+  impact?: PullRequestComputeImpact;
+  /** Markdown posted (or to be posted) on the PR */
+  comment?: string;
+  commentUrl?: string;
+  /** History records of the base and head analyses (the same record when the PR changed no relevant files) */
+  baseRunId?: string;
+  headRunId?: string;
+  error?: string;
+}
+
+/**
+ * Server Action: analyze a pull request's base and head commits and comment
+ * the compute impact on the PR
+ */
+export async function analyzePullRequest(
+  repoMeta: RepoMeta,
+  pullNumber: number,
+  postComment: boolean = true
+): Promise<PullRequestAnalysisResult> {
+  const session = (await auth()) ?? getReplaySession();
+  const accessToken = session?.accessToken;
+  const userKey = session && accessToken ? getRunOwnerKey(session) : null;
+
+  if (!accessToken || !userKey) {
+    return { success: false, error: "Not authenticated. Please sign in with GitHub." };
+  }
+  if (!Number.isInteger(pullNumber) || pullNumber <= 0) {
+    return { success: false, error: "Enter a valid pull request number." };
+  }
+
+  try {
+    // Records or replays agent, GitHub and Brev responses when BREV_DOCTOR_FIXTURES is set
+    const analysis = await runWithFixtures(getFixtureName(repoMeta), () =>
+      runPullRequestAnalysis({
+        accessToken,
+        userKey,
+        owner: repoMeta.owner,
+        repo: repoMeta.repo,
+        pullNumber,
+        postComment,
+      })
+    );
+
+    return {
+      success: true,
+      pullRequest: analysis.pullRequest,
+      impact: analysis.impact,
+      comment: analysis.comment,
+      commentUrl: analysis.commentUrl ?? undefined,
+      baseRunId: analysis.base.runId,
+      headRunId: analysis.head.runId,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to analyze pull request",
+    };
+  }
+}
@@ -0,0 +1,32 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { loadGpuCatalog } from "@/lib/catalog-sync";
+import type { GpuCatalogSnapshot } from "@/types/agentSchemas";
+
+export interface GpuCatalogResult {
+  success: boolean;
+  snapshot?: GpuCatalogSnapshot;
+  error?: string;
+}
+
+/**
+ * Server Action: GPU catalog with prices and availability for this account.
+ * Pass `forceRefresh` to query the Brev CLI even when the cache is fresh.
+ */
+export async function getGpuCatalogSnapshot(forceRefresh: boolean = false): Promise<GpuCatalogResult> {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return { success: false, error: "Not authenticated. Please sign in with GitHub." };
+  }
+
+  try {
+    return { success: true, snapshot: await loadGpuCatalog({ forceRefresh }) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to load GPU catalog",
+    };
+  }
+}
@@ -1,12 +1,15 @@
 "use server";
 
 import { auth } from "@/lib/auth";
-import { scoutRepo } from "@/lib/scout";
-import { analyzeComputeNeeds } from "@/lib/specialist";
-import { getBrevInventory, getGpuByName, getGpuCatalogDescription, attemptGpuProvisioning } from "@/lib/brev-api";
-import { findBestInstance, generateRecommendationSummary, selectGpuInstance, decideGpuRetry, brokerOutputToInstance } from "@/lib/broker";
-import { createPR, getRepoTree, getMultipleFileContents } from "@/lib/github";
-import type { RepoMeta, MatchResult, SpecialistOutput, BrevInstance, AgentStep, BrokerOutput } from "@/types/agentSchemas";
+import { createPR, getRepoTree, isRepoPrivate, type CreatePRResult } from "@/lib/github";
+import { runWithFixtures, getFixtureName, getReplaySession } from "@/lib/fixtures";
+import { runAnalysisPipeline, runProvisioning, applyStepEvent, readRepoConfig, type PipelineEvent } from "@/lib/orchestrator";
+import { getRunOwnerKey } from "@/lib/run-store";
+import { estimateJobCost, formatJobCostTable } from "@/lib/cost-estimator";
+import { buildLaunchableFiles, describeLaunchableChanges, launchableFileChanged } from "@/lib/launchable";
+import { loadSetupScriptContext } from "@/lib/setup-script";
+import { analyzeSetupCommands, getUnacknowledgedCommands } from "@/lib/command-safety";
+import type { RepoMeta, MatchResult, SpecialistOutput, BrevInstance, AgentStep, BrokerOutput, LaunchableConstraints, LaunchableOptions } from "@/types/agentSchemas";
 
 export interface AnalysisResult {
   success: boolean;
@@ -23,6 +26,10 @@ export interface AnalysisResult {
 export interface LaunchableResult {
   success: boolean;
   prUrl?: string;
+  /** Whether a new setup PR was opened or the open one was updated */
+  prStatus?: CreatePRResult["status"];
+  /** Recommendation changes pushed to an existing setup PR */
+  changelog?: string[];
   recommendation?: string;
   match?: MatchResult;
   needs?: SpecialistOutput;
@@ -52,10 +59,24 @@ export async function analyzeRepository(
   userFeedback?: string, 
   previousNeeds?: SpecialistOutput, 
   feedbackHistory?: string[]
+): Promise<AnalysisResult> {
+  // Records or replays agent, GitHub and Brev responses when BREV_DOCTOR_FIXTURES is set
+  return runWithFixtures(getFixtureName(repoMeta), () =>
+    runAnalysis(repoMeta, userFeedback, previousNeeds, feedbackHistory)
+  );
+}
+
+async function runAnalysis(
+  repoMeta: RepoMeta,
+  userFeedback?: string,
+  previousNeeds?: SpecialistOutput,
+  feedbackHistory?: string[]
 ): Promise<AnalysisResult> {
   const agentSteps: AgentStep[] = [
     { id: "auth", name: "Authenticating with GitHub", status: "pending" },
     { id: "scan", name: "Scanning repository structure", status: "pending" },
+    { id: "cache", name: "Checking analysis cache", status: "pending" },
+    { id: "signals", name: "Extracting static repo signals", status: "pending" },
     { id: "scout", name: "Scout AI selecting key files", status: "pending" },
     { id: "fetch", name: "Fetching file contents", status: "pending" },
     { id: "analyze", name: "Specialist analyzing compute needs", status: "pending" },
@@ -69,12 +90,16 @@ export async function analyzeRepository(
     }
   };
 
+  // Partial agent output is only streamed by the SSE route
+  const onEvent = (event: PipelineEvent) => applyStepEvent(agentSteps, event);
+
   try {
     // Step 1: Get session
     updateStep("auth", { status: "running", startTime: Date.now() });
-    const session = await auth();
+    const session = (await auth()) ?? getReplaySession();
     
-    if (!session?.accessToken) {
+    const userKey = session?.accessToken ? getRunOwnerKey(session) : null;
+    if (!session?.accessToken || !userKey) {
       updateStep("auth", { 
         status: "error", 
         endTime: Date.now(),
@@ -88,141 +113,10 @@ export async function analyzeRepository(
     }
     updateStep("auth", { status: "complete", endTime: Date.now() });
 
-    // Step 2: Get repo file tree
-    updateStep("scan", { status: "running", startTime: Date.now() });
-    const fileTree = await getRepoTree(
-      session.accessToken,
-      repoMeta.owner,
-      repoMeta.repo,
-      repoMeta.branch || "main"
+    const { match, needs, brokerOutput, recommendation } = await runAnalysisPipeline(
+      { accessToken: session.accessToken, userKey, repoMeta, userFeedback, previousNeeds },
+      onEvent
     );
-    
-    if (fileTree.length === 0) {
-      updateStep("scan", { 
-        status: "error", 
-        endTime: Date.now(),
-        data: { error: "Repository appears empty or inaccessible" }
-      });
-      return {
-        success: false,
-        error: "Repository appears to be empty or inaccessible.",
-        agentSteps,
-      };
-    }
-    
-    updateStep("scan", { 
-      status: "complete", 
-      endTime: Date.now(),
-      data: { 
-        totalFiles: fileTree.length,
-        fileTree: fileTree,
-      }
-    });
-
-    // Step 3: Scout selects relevant files
-    updateStep("scout", { status: "running", startTime: Date.now() });
-    const scoutResult = await scoutRepo(fileTree);
-    
-    updateStep("scout", { 
-      status: "complete", 
-      endTime: Date.now(),
-      data: {
-        scoutReasoning: scoutResult.reasoning,
-        selectedFiles: scoutResult.selected_paths,
-      }
-    });
-
-    // Step 4: Fetch selected file contents
-    updateStep("fetch", { status: "running", startTime: Date.now() });
-    const fileContents = await getMultipleFileContents(
-      session.accessToken,
-      repoMeta.owner,
-      repoMeta.repo,
-      scoutResult.selected_paths,
-      repoMeta.branch || "main"
-    );
-    
-    updateStep("fetch", { 
-      status: "complete", 
-      endTime: Date.now(),
-      data: {
-        fileContents: fileContents,
-      }
-    });
-
-    // Step 5: Specialist analyzes compute needs
-    updateStep("analyze", { status: "running", startTime: Date.now() });
-    const needs = await analyzeComputeNeeds(fileContents, userFeedback, previousNeeds);
-    
-    updateStep("analyze", { 
-      status: "complete", 
-      endTime: Date.now(),
-      data: {
-        computeAnalysis: {
-          estimatedVram: needs.estimated_vram_gb,
-          architecture: needs.recommended_gpu_architecture,
-          multiGpu: needs.requires_multi_gpu,
-          setupCommands: needs.setup_commands,
-          complexity: needs.project_complexity,
-          complexityReasoning: needs.complexity_reasoning,
-          cpuCores: needs.recommended_cpu_cores,
-          systemRam: needs.recommended_system_ram_gb,
-          diskSpace: needs.estimated_disk_space_gb,
-        }
-      }
-    });
-
-    // Step 6: Broker selects optimal GPU using full catalog knowledge
-    updateStep("match", { status: "running", startTime: Date.now() });
-    
-    // Use LLM-based selection with the complete GPU catalog
-    const brokerOutput = await selectGpuInstance(needs);
-    
-    // Convert to BrevInstance for compatibility
-    const recommendedInstance = getGpuByName(brokerOutput.recommended_gpu);
-    const alternativeInstance = brokerOutput.alternative_gpu 
-      ? getGpuByName(brokerOutput.alternative_gpu) 
-      : null;
-
-    const best = recommendedInstance ? {
-      ...recommendedInstance,
-      count: brokerOutput.gpu_count,
-    } : null;
-
-    const second_best = alternativeInstance ? {
-      ...alternativeInstance,
-      count: brokerOutput.gpu_count,
-    } : null;
-    
-    const match: MatchResult = { best, second_best };
-    
-    // Generate recommendation summary
-    let recommendation = brokerOutput.thinking;
-    if (best) {
-      recommendation += `\n\n**Selected GPU: ${best.name}${best.count > 1 ? ` × ${best.count}` : ''}**\n`;
-      recommendation += `• VRAM: ${best.vram}GB${best.count > 1 ? ` × ${best.count} = ${best.vram * best.count}GB total` : ''}\n`;
-      recommendation += `• Architecture: ${best.arch}\n`;
-      recommendation += `• Price: $${best.price.toFixed(2)}/hour\n`;
-      recommendation += `• Confidence: ${brokerOutput.match_confidence}\n`;
-      if (brokerOutput.cost_optimization_notes) {
-        recommendation += `\n**Cost Notes:** ${brokerOutput.cost_optimization_notes}`;
-      }
-      if (second_best) {
-        recommendation += `\n\n**Alternative (if out of stock):** ${second_best.name} (${second_best.vram}GB)`;
-      }
-    }
-    
-    updateStep("match", { 
-      status: "complete", 
-      endTime: Date.now(),
-      data: {
-        inventoryChecked: getBrevInventory().length,
-        matchReasoning: recommendation,
-        brokerThinking: brokerOutput.thinking,
-        matchConfidence: brokerOutput.match_confidence,
-        costNotes: brokerOutput.cost_optimization_notes,
-      }
-    });
 
     if (!match.best) {
       return {
@@ -261,75 +155,57 @@ export async function analyzeRepository(
 // Step 2: Attempt to provision the GPU (with retry logic)
 export async function provisionGpu(
   needs: SpecialistOutput,
-  brokerOutput: BrokerOutput
+  brokerOutput: BrokerOutput,
+  repoMeta?: RepoMeta
 ): Promise<ProvisioningResult> {
-  const MAX_RETRIES = 3;
-  const attempts: ProvisioningResult["attempts"] = [];
-  
-  let currentGpu = brokerOutput.recommended_gpu;
-  let currentVram = brokerOutput.recommended_vram;
-  let currentCount = brokerOutput.gpu_count;
-  
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    const result = await attemptGpuProvisioning(currentGpu, currentCount);
-    
-    attempts.push({
-      gpu: currentGpu,
-      vram: currentVram,
-      gpuCount: currentCount,
-      success: result.success,
-      error: result.error,
-    });
-    
-    if (result.success) {
+  // Retry decisions carry the Specialist's reading of the repo, so an unknown
+  // repository is treated as private
+  let privateRepo = true;
+  let constraints: LaunchableConstraints | null = null;
+  if (repoMeta) {
+    const session = (await auth()) ?? getReplaySession();
+    if (!session?.accessToken) {
+      return { success: false, error: "Not authenticated. Please sign in with GitHub.", attempts: [] };
+    }
+
+    try {
+      const { owner, repo } = repoMeta;
+      const branch = repoMeta.branch || "main";
+      privateRepo = await isRepoPrivate(session.accessToken, owner, repo);
+      // Retries and fallbacks stay within the repository's constraints
+      const fileTree = await getRepoTree(session.accessToken, owner, repo, branch);
+      constraints = (await readRepoConfig(session.accessToken, repoMeta, branch, fileTree)).constraints;
+    } catch (error) {
       return {
-        success: true,
-        workspaceName: result.workspaceName,
-        gpu: currentGpu,
-        vram: currentVram,
-        gpuCount: currentCount,
-        attempts,
+        success: false,
+        error: error instanceof Error ? error.message : "Could not read the repository configuration",
+        attempts: [],
       };
     }
-    
-    // Only retry on out of stock errors
-    if (result.errorType !== "out_of_stock" || attempt >= MAX_RETRIES - 1) {
-      break;
-    }
-    
-    // Ask the agent to decide what GPU to try next
-    const retryDecision = await decideGpuRetry(
-      needs,
-      attempts.map(a => ({
-        gpu: a.gpu,
-        vram: a.vram,
-        gpuCount: a.gpuCount,
-        error: a.error || "Unknown error",
-      }))
-    );
-    
-    if (!retryDecision.should_retry || !retryDecision.next_gpu) {
-      break;
-    }
-    
-    // Update for next attempt
-    currentGpu = retryDecision.next_gpu;
-    currentVram = retryDecision.next_vram || currentVram;
-    currentCount = retryDecision.next_gpu_count || currentCount;
   }
-  
-  return {
-    success: false,
-    attempts,
-    error: `Failed to provision GPU after ${attempts.length} attempts`,
-  };
+
+  const outcome = await runProvisioning(
+    needs,
+    {
+      name: brokerOutput.recommended_gpu,
+      vram: brokerOutput.recommended_vram,
+      count: brokerOutput.gpu_count,
+    },
+    { repoMeta, privateRepo, constraints }
+  );
+
+  return outcome.success
+    ? outcome
+    : { ...outcome, error: `Failed to provision GPU after ${outcome.attempts.length} attempts` };
 }
 
 // Step 3: Create PR after user confirms the recommendation
 export async function confirmAndCreatePR(
   repoMeta: RepoMeta,
   needs: SpecialistOutput,
-  selectedInstance: BrevInstance
+  selectedInstance: BrevInstance,
+  acknowledgedCommands: string[] = [],
+  options: LaunchableOptions = {}
 ): Promise<LaunchableResult> {
   const agentSteps: AgentStep[] = [
     { id: "pr", name: "Creating pull request", status: "pending" },
@@ -338,10 +214,23 @@ export async function confirmAndCreatePR(
   try {
     agentSteps[0].status = "running";
     agentSteps[0].startTime = Date.now();
-    
+
+    // Risky setup commands are only committed once the user has reviewed them
+    const unacknowledged = getUnacknowledgedCommands(analyzeSetupCommands(needs.setup_commands), acknowledgedCommands);
+    if (unacknowledged.length > 0) {
+      agentSteps[0].status = "error";
+      agentSteps[0].endTime = Date.now();
+      return {
+        success: false,
+        error: `Review the flagged setup commands before creating the PR: ${unacknowledged.map((c) => `\`${c}\``).join(", ")}`,
+        agentSteps,
+      };
+    }
+
     const session = await auth();
-    
-    if (!session?.accessToken) {
+    const userKey = session?.accessToken ? getRunOwnerKey(session) : null;
+
+    if (!session?.accessToken || !userKey) {
       agentSteps[0].status = "error";
       agentSteps[0].endTime = Date.now();
       return {
@@ -351,18 +240,26 @@ export async function confirmAndCreatePR(
       };
     }
 
-    const setupScript = generateSetupScript(needs);
-    const brevYaml = generateBrevYaml(selectedInstance, needs);
+    // The setup script still works without repo details, just less tailored
+    const context = await loadSetupScriptContext(session.accessToken, userKey, repoMeta).catch((error) => {
+      console.warn("Could not load repository details for the setup script:", error);
+      return undefined;
+    });
+
+    // An existing launchable is updated in place rather than rewritten, keeping the user's constraints
+    const branch = repoMeta.branch || "main";
+    const fileTree = context?.fileTree ?? await getRepoTree(session.accessToken, repoMeta.owner, repoMeta.repo, branch);
+    const repoConfig = await readRepoConfig(session.accessToken, repoMeta, branch, fileTree);
 
-    const prUrl = await createPR({
+    const pr = await createPR({
       accessToken: session.accessToken,
       owner: repoMeta.owner,
       repo: repoMeta.repo,
       baseBranch: repoMeta.branch || "main",
-      files: [
-        { path: ".brev/setup.sh", content: setupScript },
-        { path: "brev-launchable.yaml", content: brevYaml },
-      ],
+      files: buildLaunchableFiles(needs, selectedInstance, context, options, repoConfig.launchable),
+      details: `### Estimated Job Cost\n${formatJobCostTable([estimateJobCost(needs, selectedInstance)])}`,
+      fileChanged: launchableFileChanged,
+      describeChanges: describeLaunchableChanges,
     });
     
     agentSteps[0].status = "complete";
@@ -370,7 +267,9 @@ export async function confirmAndCreatePR(
 
     return {
       success: true,
-      prUrl,
+      prUrl: pr.url,
+      prStatus: pr.status,
+      changelog: pr.changelog,
       needs,
       agentSteps,
     };
@@ -410,50 +309,3 @@ export async function createLaunchable(repoMeta: RepoMeta): Promise<LaunchableRe
     agentSteps: [...analysis.agentSteps, ...prResult.agentSteps],
   };
 }
-
-function generateSetupScript(needs: SpecialistOutput): string {
-  const commands = [
-    "#!/bin/bash",
-    "set -e",
-    "",
-    "# Brev Doctor Auto-Generated Setup Script",
-    `# Generated: ${new Date().toISOString()}`,
-    "",
-    "echo '🚀 Setting up Brev environment...'",
-    "",
-    ...needs.setup_commands.map((cmd) => cmd),
-    "",
-    "echo '✅ Setup complete!'",
-  ];
-
-  return commands.join("\n");
-}
-
-function generateBrevYaml(
-  instance: BrevInstance,
-  needs: SpecialistOutput
-): string {
-  return `# Brev.dev Launchable Configuration
-# Generated by Brev Doctor
-
-name: brev-launchable
-version: "1.0"
-
-compute:
-  gpu: ${instance.name}
-  gpuCount: ${instance.count}
-  vram: ${instance.vram}GB
-  architecture: ${instance.arch}
-  
-requirements:
-  estimatedVram: ${needs.estimated_vram_gb}GB
-  cpuCores: ${needs.recommended_cpu_cores}
-  systemRam: ${needs.recommended_system_ram_gb}GB
-  diskSpace: ${needs.estimated_disk_space_gb}GB
-
-setup:
-  script: .brev/setup.sh
-
-# Launch this environment at https://brev.dev
-`;
-}
@@ -0,0 +1,105 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { getReplaySession } from "@/lib/fixtures";
+import { getHistoryStore, type HistoryFilter } from "@/lib/history-store";
+import { getRunOwnerKey } from "@/lib/run-store";
+import { compareAnalyses } from "@/lib/analysis-diff";
+import type { AnalysisComparison, AnalysisRecord, AnalysisRecordSummary } from "@/types/agentSchemas";
+
+export interface AnalysisHistoryResult {
+  success: boolean;
+  runs?: AnalysisRecordSummary[];
+  error?: string;
+}
+
+export interface AnalysisRecordResult {
+  success: boolean;
+  record?: AnalysisRecord;
+  error?: string;
+}
+
+export interface AnalysisComparisonResult {
+  success: boolean;
+  comparison?: AnalysisComparison;
+  error?: string;
+}
+
+/**
+ * Server Action: the signed-in user's past analyses, newest first
+ */
+export async function listAnalysisHistory(filter?: HistoryFilter): Promise<AnalysisHistoryResult> {
+  const session = (await auth()) ?? getReplaySession();
+
+  const ownerKey = session?.accessToken ? getRunOwnerKey(session) : null;
+  if (!ownerKey) {
+    return { success: false, error: "Not authenticated. Please sign in with GitHub." };
+  }
+
+  try {
+    const store = getHistoryStore();
+    if (!store) {
+      return { success: false, error: "Analysis history is turned off (BREV_DOCTOR_HISTORY=off)." };
+    }
+    return { success: true, runs: await store.list(ownerKey, filter) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to load analysis history",
+    };
+  }
+}
+
+/**
+ * Server Action: one saved analysis with its agent steps
+ */
+export async function getAnalysisRecord(id: string): Promise<AnalysisRecordResult> {
+  const session = (await auth()) ?? getReplaySession();
+
+  const ownerKey = session?.accessToken ? getRunOwnerKey(session) : null;
+  if (!ownerKey) {
+    return { success: false, error: "Not authenticated. Please sign in with GitHub." };
+  }
+
+  try {
+    const record = await getHistoryStore()?.get(ownerKey, id);
+    return record ? { success: true, record } : { success: false, error: "Analysis not found." };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to load analysis",
+    };
+  }
+}
+
+/**
+ * Server Action: what changed between two saved analyses of the same repository
+ */
+export async function compareAnalysisRecords(firstId: string, secondId: string): Promise<AnalysisComparisonResult> {
+  const session = (await auth()) ?? getReplaySession();
+
+  const ownerKey = session?.accessToken ? getRunOwnerKey(session) : null;
+  if (!ownerKey) {
+    return { success: false, error: "Not authenticated. Please sign in with GitHub." };
+  }
+
+  try {
+    const store = getHistoryStore();
+    const [first, second] = await Promise.all([store?.get(ownerKey, firstId), store?.get(ownerKey, secondId)]);
+    if (!first || !second) {
+      return { success: false, error: "Analysis not found." };
+    }
+    if (
+      first.repoMeta.owner.toLowerCase() !== second.repoMeta.owner.toLowerCase() ||
+      first.repoMeta.repo.toLowerCase() !== second.repoMeta.repo.toLowerCase()
+    ) {
+      return { success: false, error: "Only analyses of the same repository can be compared." };
+    }
+    return { success: true, comparison: compareAnalyses(first, second) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to compare analyses",
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { AnalysisHistory } from "@/components/AnalysisHistory";
+
+export default function HistoryPage() {
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-100">
+      <main className="max-w-6xl mx-auto px-6 py-16">
+        <AnalysisHistory />
+      </main>
+    </div>
+  );
+}
@@ -3,8 +3,13 @@
 import { useState, useEffect, useRef } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import type { AgentStep } from "@/types/agentSchemas";
+import type { AgentStep, VramBreakdown, ModelSpec, WorkloadType, JobCostEstimate } from "@/types/agentSchemas";
 import { GpuProvisioningVisual } from "./GpuProvisioningVisual";
+import { formatRepoSignals, hasRepoSignals } from "@/lib/repo-signals";
+import { WORKLOAD_SIZING_RULES } from "@/lib/workloads";
+import { formatJobCost } from "@/lib/cost-estimator";
+import { formatGpuSpecs, getGpuByName } from "@/lib/gpu-catalog";
+import { diffLaunchables } from "@/lib/launchable-config";
 import type { GpuProvisioningAttempt } from "@/hooks/useAnalysisStream";
 
 interface AgentInsightsProps {
@@ -20,6 +25,7 @@ interface AgentInsightsProps {
     specialistCommands?: string[];
     specialistComplexity?: string | null;
     specialistComplexityReasoning?: string | null;
+    specialistWorkloadType?: string | null;
     specialistCpuCores?: number | null;
     specialistSystemRam?: number | null;
     specialistDiskSpace?: number | null;
@@ -31,6 +37,7 @@ interface AgentInsightsProps {
     brokerAlternativeInstance?: string | null;
     brokerConfidence?: string | null;
     brokerCostNotes?: string | null;
+    brokerCostEstimates?: JobCostEstimate[] | null;
     brokerStatus?: "idle" | "starting" | "streaming" | "complete";
     brokerUpdateCount?: number;
     // GPU Provisioning streaming
@@ -143,6 +150,16 @@ export function AgentInsights({ steps, streamingData, className = "" }: AgentIns
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
         </svg>
       ),
+      cache: (
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+        </svg>
+      ),
+      signals: (
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+        </svg>
+      ),
       scout: (
         <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -269,11 +286,13 @@ export function AgentInsights({ steps, streamingData, className = "" }: AgentIns
                 {/* Quick summary */}
                 {step.status === "complete" && step.data && (
                   <p className="text-xs text-zinc-500 mt-1 truncate">
-                    {step.id === "scan" && step.data.totalFiles && `Found ${step.data.totalFiles} files`}
+                    {step.id === "scan" && step.data.totalFiles && `Found ${step.data.totalFiles} files${step.data.constraints ? " • Repository constraints applied" : ""}`}
+                    {step.id === "cache" && step.data.cache && `Cache ${step.data.cache.result}: ${step.data.cache.reason}`}
+                    {step.id === "signals" && step.data.repoSignals && (hasRepoSignals(step.data.repoSignals) ? `Parsed ${step.data.repoSignals.analyzedFiles.length} manifest files` : "No hard signals found")}
                     {step.id === "scout" && step.data.selectedFiles && `Selected ${step.data.selectedFiles.length} key files`}
-                    {step.id === "fetch" && step.data.fileContents && `Loaded ${Object.keys(step.data.fileContents).length} files`}
-                    {step.id === "analyze" && step.data.computeAnalysis && `${step.data.computeAnalysis.estimatedVram}GB VRAM • ${step.data.computeAnalysis.complexity} complexity`}
-                    {step.id === "match" && step.data.matchConfidence && `${step.data.matchConfidence} confidence match`}
+                    {step.id === "fetch" && step.data.fileContents && `Loaded ${Object.keys(step.data.fileContents).length} files${step.data.modelSpecs?.length ? ` • ${step.data.modelSpecs.length} models resolved` : ""}`}
+                    {step.id === "analyze" && step.data.computeAnalysis && `${step.data.computeAnalysis.workloadType ? `${WORKLOAD_SIZING_RULES[step.data.computeAnalysis.workloadType].label} • ` : ""}${step.data.computeAnalysis.estimatedVram}GB VRAM • ${step.data.computeAnalysis.complexity} complexity`}
+                    {step.id === "match" && step.data.matchConfidence && `${step.data.matchConfidence} confidence match${step.data.constraintViolations ? ` • ${step.data.constraintsUnsatisfiable ? "Breaks" : "Adjusted for"} repository constraints` : ""}`}
                   </p>
                 )}
               </div>
@@ -398,6 +417,16 @@ function StreamingStepContent({
           </div>
         </div>
 
+        {/* Workload Badge */}
+        {streamingData.specialistWorkloadType && streamingData.specialistWorkloadType in WORKLOAD_SIZING_RULES && (
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-zinc-500">Workload:</span>
+            <span className="text-xs font-bold px-2 py-0.5 rounded-full bg-zinc-700 text-zinc-200">
+              {WORKLOAD_SIZING_RULES[streamingData.specialistWorkloadType as WorkloadType].label}
+            </span>
+          </div>
+        )}
+
         {/* Complexity Badge */}
         {streamingData.specialistComplexity && (
           <div className="flex items-center gap-3">
@@ -520,6 +549,7 @@ function StreamingStepContent({
             alternative={streamingData.brokerAlternativeInstance || undefined}
             confidence={streamingData.brokerConfidence || undefined}
             costNotes={streamingData.brokerCostNotes || undefined}
+            costEstimates={streamingData.brokerCostEstimates || undefined}
             isSelecting={!streamingData.brokerConfidence}
           />
         )}
@@ -586,6 +616,83 @@ function StepDetails({ step }: { step: AgentStep }) {
         </div>
       )}
 
+      {/* Launchable already in the repository */}
+      {(data.currentLaunchable || data.currentLaunchableError) && (
+        <div>
+          <h4 className="text-xs font-medium text-zinc-400 uppercase tracking-wide mb-2">Current Configuration</h4>
+          <div className="bg-zinc-900/50 border border-zinc-700 rounded-lg p-4 text-sm">
+            {data.currentLaunchable ? (
+              <table className="w-full font-mono text-xs">
+                <tbody>
+                  {diffLaunchables(null, data.currentLaunchable).map(({ key, after }) => (
+                    <tr key={key}>
+                      <td className="py-0.5 pr-4 text-zinc-500">{key}</td>
+                      <td className="py-0.5 text-zinc-300">{after}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-amber-400">brev-launchable.yaml could not be read: {data.currentLaunchableError}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* User constraints the Broker must honor */}
+      {data.constraints && (
+        <div>
+          <h4 className="text-xs font-medium text-zinc-400 uppercase tracking-wide mb-2">User Constraints</h4>
+          <div className="bg-zinc-900/50 border border-zinc-700 rounded-lg p-4 text-sm space-y-2">
+            <ul className="text-zinc-300 space-y-0.5">
+              {data.constraints.maxHourlyBudget !== undefined && (
+                <li>Max hourly budget: ${data.constraints.maxHourlyBudget.toFixed(2)}/hr</li>
+              )}
+              {data.constraints.allowedGpus && <li>Allowed GPUs: {data.constraints.allowedGpus.join(", ")}</li>}
+              {data.constraints.bannedArchitectures && (
+                <li>Banned architectures: {data.constraints.bannedArchitectures.join(", ")}</li>
+              )}
+              {data.constraints.requireMultiGpu && <li>Multi-GPU required</li>}
+            </ul>
+            {data.constraintSources && (
+              <p className="text-xs text-zinc-500">From {data.constraintSources.join(" and ")}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Analysis cache */}
+      {data.cache && (
+        <div>
+          <h4 className="text-xs font-medium text-zinc-400 uppercase tracking-wide mb-2">Analysis Cache</h4>
+          <div className="bg-zinc-900/50 border border-zinc-700 rounded-lg p-4 text-sm text-zinc-300 space-y-2">
+            <p>
+              <span className={data.cache.result === "hit" ? "text-emerald-400" : data.cache.result === "partial" ? "text-amber-400" : "text-zinc-400"}>
+                {data.cache.result === "hit" ? "Hit" : data.cache.result === "partial" ? "Partial hit" : "Miss"}
+              </span>
+              {" — "}{data.cache.reason}
+            </p>
+            {data.cache.changedFiles && data.cache.changedFiles.length > 0 && (
+              <ul className="font-mono text-xs text-zinc-400">
+                {data.cache.changedFiles.map((file) => (
+                  <li key={file}>{file}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Static repo signals */}
+      {data.repoSignals && (
+        <div>
+          <h4 className="text-xs font-medium text-zinc-400 uppercase tracking-wide mb-2">Static Signals</h4>
+          <div className="bg-zinc-900/50 border border-zinc-700 rounded-lg p-4">
+            <MarkdownContent content={formatRepoSignals(data.repoSignals)} />
+          </div>
+        </div>
+      )}
+
       {/* Scout reasoning */}
       {data.scoutReasoning && (
         <div>
@@ -634,6 +741,18 @@ function StepDetails({ step }: { step: AgentStep }) {
         </div>
       )}
 
+      {/* Resolved model specs */}
+      {data.modelSpecs && data.modelSpecs.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-zinc-400 uppercase tracking-wide mb-2">Resolved Models</h4>
+          <div className="space-y-2">
+            {data.modelSpecs.map((spec) => (
+              <ModelSpecCard key={spec.modelId} spec={spec} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Specialist Thinking (full) */}
       {data.specialistThinkingStream && (
         <div>
@@ -659,6 +778,21 @@ function StepDetails({ step }: { step: AgentStep }) {
             Specialist Analysis
           </h4>
           
+          {/* Workload Classification */}
+          {data.computeAnalysis.workloadType && (
+             <div className="mb-3 bg-zinc-900/50 border border-zinc-700 rounded-lg p-3">
+               <div className="flex items-center justify-between mb-2">
+                 <span className="text-xs text-zinc-400 font-medium uppercase">Workload Type</span>
+                 <span className="text-xs font-bold px-2 py-0.5 rounded-full bg-zinc-800 text-zinc-300">
+                   {WORKLOAD_SIZING_RULES[data.computeAnalysis.workloadType].label}
+                 </span>
+               </div>
+               <p className="text-xs text-zinc-300 leading-relaxed">
+                 {WORKLOAD_SIZING_RULES[data.computeAnalysis.workloadType].guidance}
+               </p>
+             </div>
+          )}
+
           {/* Complexity Assessment */}
           {data.computeAnalysis.complexity && (
              <div className="mb-3 bg-zinc-900/50 border border-zinc-700 rounded-lg p-3">
@@ -702,7 +836,11 @@ function StepDetails({ step }: { step: AgentStep }) {
               <p className="text-lg font-semibold text-zinc-200">{data.computeAnalysis.diskSpace || "?"} GB</p>
             </div>
           </div>
-          
+
+          {data.computeAnalysis.vramBreakdown && (
+            <VramBreakdownTable breakdown={data.computeAnalysis.vramBreakdown} />
+          )}
+
           {data.computeAnalysis.setupCommands.length > 0 && (
             <div className="mt-3 bg-zinc-950 rounded-lg p-3">
               <p className="text-xs text-zinc-500 mb-2">Generated Setup Commands</p>
@@ -733,6 +871,31 @@ function StepDetails({ step }: { step: AgentStep }) {
         </div>
       )}
 
+      {/* Broker picks that broke the repository's constraints */}
+      {data.constraintViolations && data.constraintViolations.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-zinc-400 uppercase tracking-wide mb-2">Constraint Violations</h4>
+          <div className={`rounded-lg p-4 text-sm space-y-2 border ${
+            data.constraintsUnsatisfiable ? "bg-red-500/10 border-red-500/30" : "bg-amber-500/10 border-amber-500/30"
+          }`}>
+            <ul className="space-y-1">
+              {data.constraintViolations.map((violation, i) => (
+                <li key={i} className="text-zinc-300">
+                  <span className="font-mono text-zinc-200">{violation.gpu}</span>
+                  <span className="text-zinc-500"> · {violation.constraint} · </span>
+                  {violation.message}
+                </li>
+              ))}
+            </ul>
+            <p className={data.constraintsUnsatisfiable ? "text-red-400" : "text-amber-400"}>
+              {data.constraintsUnsatisfiable
+                ? "No catalog configuration fits these requirements within the constraints, so the Broker's pick was kept."
+                : "Replaced with configurations that fit the requirements within the constraints."}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Match confidence and cost notes */}
       {(data.matchConfidence || data.costNotes) && (
         <div className="grid grid-cols-2 gap-3">
@@ -756,6 +919,22 @@ function StepDetails({ step }: { step: AgentStep }) {
         </div>
       )}
 
+      {/* Job cost estimates */}
+      {data.costEstimates && data.costEstimates.length > 0 && (
+        <JobCostTable estimates={data.costEstimates} />
+      )}
+
+      {/* Catalog freshness */}
+      {data.catalogSync && (
+        <p className={`text-xs ${data.catalogSync.stale ? "text-amber-400/80" : "text-zinc-500"}`}>
+          {data.catalogSync.source === "static"
+            ? "Prices from the bundled catalog"
+            : `Prices synced from Brev CLI at ${new Date(data.catalogSync.fetchedAt ?? "").toLocaleString()}`}
+          {data.catalogSync.stale && " (stale)"}
+          {data.catalogSync.error && ` • Last refresh failed: ${data.catalogSync.error}`}
+        </p>
+      )}
+
       {/* Legacy match reasoning (fallback) */}
       {data.matchReasoning && !data.brokerThinking && (
         <div>
@@ -781,6 +960,99 @@ function StepDetails({ step }: { step: AgentStep }) {
   );
 }
 
+function JobCostTable({ estimates }: { estimates: JobCostEstimate[] }) {
+  const assumptions = [...new Set(estimates.flatMap((e) => e.assumptions))];
+
+  return (
+    <div className="bg-zinc-950 rounded-lg p-3">
+      <p className="text-xs text-zinc-500 mb-2">Estimated Job Cost</p>
+      <div className="space-y-1 text-xs">
+        {estimates.map((estimate) => (
+          <div key={`${estimate.gpu}-${estimate.gpuCount}`} className="flex justify-between">
+            <span className="text-zinc-400">
+              {estimate.gpu}{estimate.gpuCount > 1 ? ` × ${estimate.gpuCount}` : ""}
+              <span className="text-zinc-600 ml-2">${estimate.hourlyCost.toFixed(2)}/hr</span>
+            </span>
+            <span className="text-zinc-200 font-mono">{formatJobCost(estimate)}</span>
+          </div>
+        ))}
+      </div>
+      {assumptions.length > 0 && (
+        <p className="mt-2 text-xs text-zinc-500 italic">{assumptions.join(" • ")}</p>
+      )}
+    </div>
+  );
+}
+
+function ModelSpecCard({ spec }: { spec: ModelSpec }) {
+  const facts: Array<[string, string]> = [
+    ["Parameters", `${(spec.parameterCount / 1e9).toFixed(2)}B`],
+    ["Hidden size", String(spec.hiddenSize)],
+    ["Layers", String(spec.numLayers)],
+    ["Heads", `${spec.numAttentionHeads} (${spec.numKeyValueHeads} KV)`],
+    ["Dtype", spec.defaultDtype],
+    ["Context", String(spec.contextLength)],
+  ];
+
+  return (
+    <div className="bg-zinc-950 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-mono text-zinc-200 truncate">{spec.modelId}</span>
+        <span className="text-xs text-zinc-500 shrink-0 ml-2">
+          {spec.source}{spec.registryVersion ? ` v${spec.registryVersion}` : ""}
+        </span>
+      </div>
+      <div className="grid grid-cols-3 gap-x-4 gap-y-1 text-xs">
+        {facts.map(([label, value]) => (
+          <div key={label} className="flex justify-between">
+            <span className="text-zinc-500">{label}</span>
+            <span className="text-zinc-300 font-mono">{value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function VramBreakdownTable({ breakdown }: { breakdown: VramBreakdown }) {
+  const rows: Array<[string, number]> = [
+    ["Model weights", breakdown.weightsGb],
+    ["Gradients", breakdown.gradientsGb],
+    ["Optimizer states", breakdown.optimizerStatesGb],
+    ["Activations", breakdown.activationsGb],
+    ["KV cache", breakdown.kvCacheGb],
+    ["Framework overhead", breakdown.frameworkOverheadGb],
+    ["Buffer", breakdown.bufferGb],
+  ];
+
+  return (
+    <div className="mt-3 bg-zinc-950 rounded-lg p-3">
+      <p className="text-xs text-zinc-500 mb-2">VRAM Breakdown (deterministic estimator)</p>
+      <div className="space-y-1 text-xs">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between">
+            <span className="text-zinc-500">{label}</span>
+            <span className="text-zinc-300 font-mono">{value}GB</span>
+          </div>
+        ))}
+        <div className="flex justify-between pt-1 mt-1 border-t border-zinc-800">
+          <span className="text-zinc-300 font-medium">Per GPU</span>
+          <span className="text-zinc-100 font-mono font-semibold">
+            {breakdown.perGpuGb}GB{breakdown.numGpus > 1 ? ` × ${breakdown.numGpus} = ${breakdown.totalGb}GB` : ""}
+          </span>
+        </div>
+      </div>
+      {breakdown.notes.length > 0 && (
+        <ul className="mt-2 space-y-0.5">
+          {breakdown.notes.map((note, i) => (
+            <li key={i} className="text-xs text-zinc-500 italic">{note}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 function FileIcon({ filename }: { filename: string }) {
   const ext = filename.split(".").pop()?.toLowerCase();
   
@@ -807,7 +1079,7 @@ function FileIcon({ filename }: { filename: string }) {
   );
 }
 
-function FilePreview({ filename, content }: { filename: string; content: string }) {
+export function FilePreview({ filename, content }: { filename: string; content: string }) {
   const [expanded, setExpanded] = useState(false);
   const preview = content.slice(0, 500);
   const hasMore = content.length > 500;
@@ -836,42 +1108,43 @@ function FilePreview({ filename, content }: { filename: string; content: string
   );
 }
 
-// GPU tier visuals
-const GPU_TIER_VISUALS: Record<string, { tier: string; color: string; gradient: string; icon: string }> = {
+// GPU visuals (tier and specs come from the catalog)
+const GPU_TIER_VISUALS: Record<string, { color: string; gradient: string; icon: string }> = {
   // Blackwell
-  B300: { tier: "Ultra", color: "violet", gradient: "from-violet-500 to-purple-600", icon: "⚡" },
-  B200: { tier: "Ultra", color: "violet", gradient: "from-violet-500 to-purple-600", icon: "⚡" },
+  B300: { color: "violet", gradient: "from-violet-500 to-purple-600", icon: "⚡" },
+  B200: { color: "violet", gradient: "from-violet-500 to-purple-600", icon: "⚡" },
   // Hopper
-  H200: { tier: "Elite", color: "emerald", gradient: "from-emerald-400 to-teal-500", icon: "🔥" },
-  H100: { tier: "Elite", color: "emerald", gradient: "from-emerald-400 to-teal-500", icon: "🔥" },
+  H200: { color: "emerald", gradient: "from-emerald-400 to-teal-500", icon: "🔥" },
+  H100: { color: "emerald", gradient: "from-emerald-400 to-teal-500", icon: "🔥" },
   // Ampere High
-  A100: { tier: "Pro", color: "blue", gradient: "from-blue-400 to-cyan-500", icon: "💎" },
-  "A100-40GB": { tier: "Pro", color: "blue", gradient: "from-blue-400 to-cyan-500", icon: "💎" },
-  A40: { tier: "Pro", color: "blue", gradient: "from-blue-400 to-indigo-500", icon: "⚙️" },
+  A100: { color: "blue", gradient: "from-blue-400 to-cyan-500", icon: "💎" },
+  "A100-40GB": { color: "blue", gradient: "from-blue-400 to-cyan-500", icon: "💎" },
+  A40: { color: "blue", gradient: "from-blue-400 to-indigo-500", icon: "⚙️" },
   // Ada
-  L40s: { tier: "Advanced", color: "amber", gradient: "from-amber-400 to-orange-500", icon: "✨" },
-  L40: { tier: "Advanced", color: "amber", gradient: "from-amber-400 to-orange-500", icon: "✨" },
-  L4: { tier: "Standard", color: "green", gradient: "from-green-400 to-emerald-500", icon: "🚀" },
+  L40s: { color: "amber", gradient: "from-amber-400 to-orange-500", icon: "✨" },
+  L40: { color: "amber", gradient: "from-amber-400 to-orange-500", icon: "✨" },
+  L4: { color: "green", gradient: "from-green-400 to-emerald-500", icon: "🚀" },
   // Ampere Standard
-  A10: { tier: "Standard", color: "sky", gradient: "from-sky-400 to-blue-500", icon: "🎯" },
-  A10G: { tier: "Standard", color: "sky", gradient: "from-sky-400 to-blue-500", icon: "🎯" },
-  A6000: { tier: "Advanced", color: "indigo", gradient: "from-indigo-400 to-purple-500", icon: "🔧" },
-  A5000: { tier: "Standard", color: "indigo", gradient: "from-indigo-400 to-violet-500", icon: "🔧" },
-  A4000: { tier: "Entry", color: "slate", gradient: "from-slate-400 to-zinc-500", icon: "📦" },
-  A16: { tier: "Entry", color: "slate", gradient: "from-slate-400 to-zinc-500", icon: "📦" },
+  A10: { color: "sky", gradient: "from-sky-400 to-blue-500", icon: "🎯" },
+  A10G: { color: "sky", gradient: "from-sky-400 to-blue-500", icon: "🎯" },
+  A6000: { color: "indigo", gradient: "from-indigo-400 to-purple-500", icon: "🔧" },
+  A5000: { color: "indigo", gradient: "from-indigo-400 to-violet-500", icon: "🔧" },
+  A4000: { color: "slate", gradient: "from-slate-400 to-zinc-500", icon: "📦" },
+  A16: { color: "slate", gradient: "from-slate-400 to-zinc-500", icon: "📦" },
   // Others
-  T4: { tier: "Budget", color: "zinc", gradient: "from-zinc-400 to-slate-500", icon: "💰" },
-  V100: { tier: "Legacy", color: "rose", gradient: "from-rose-400 to-pink-500", icon: "🏛️" },
-  P4: { tier: "Budget", color: "zinc", gradient: "from-zinc-500 to-gray-600", icon: "💡" },
-  M60: { tier: "Legacy", color: "zinc", gradient: "from-zinc-500 to-gray-600", icon: "📜" },
+  T4: { color: "zinc", gradient: "from-zinc-400 to-slate-500", icon: "💰" },
+  V100: { color: "rose", gradient: "from-rose-400 to-pink-500", icon: "🏛️" },
+  P4: { color: "zinc", gradient: "from-zinc-500 to-gray-600", icon: "💡" },
+  M60: { color: "zinc", gradient: "from-zinc-500 to-gray-600", icon: "📜" },
   // RTX Ada
-  "RTX Pro 6000": { tier: "Pro", color: "lime", gradient: "from-lime-400 to-green-500", icon: "🎨" },
-  "RTX 6000 Ada": { tier: "Pro", color: "lime", gradient: "from-lime-400 to-green-500", icon: "🎨" },
-  "RTX 4000 Ada": { tier: "Standard", color: "teal", gradient: "from-teal-400 to-cyan-500", icon: "🎨" },
+  "RTX Pro 6000": { color: "lime", gradient: "from-lime-400 to-green-500", icon: "🎨" },
+  "RTX 6000 Ada": { color: "lime", gradient: "from-lime-400 to-green-500", icon: "🎨" },
+  "RTX 4000 Ada": { color: "teal", gradient: "from-teal-400 to-cyan-500", icon: "🎨" },
 };
 
 function getGpuVisual(gpuName: string) {
-  return GPU_TIER_VISUALS[gpuName] || { tier: "Unknown", color: "zinc", gradient: "from-zinc-400 to-zinc-500", icon: "🔲" };
+  const visual = GPU_TIER_VISUALS[gpuName] || { color: "zinc", gradient: "from-zinc-400 to-zinc-500", icon: "🔲" };
+  return { ...visual, tier: getGpuByName(gpuName)?.tier ?? "Unknown" };
 }
 
 function GpuSelectionCard({
@@ -881,6 +1154,7 @@ function GpuSelectionCard({
   alternative,
   confidence,
   costNotes,
+  costEstimates,
   isSelecting = false,
 }: {
   gpu: string;
@@ -889,10 +1163,12 @@ function GpuSelectionCard({
   alternative?: string;
   confidence?: string;
   costNotes?: string;
+  costEstimates?: JobCostEstimate[];
   isSelecting?: boolean;
 }) {
   const visual = getGpuVisual(gpu);
   const altVisual = alternative ? getGpuVisual(alternative) : null;
+  const spec = getGpuByName(gpu);
 
   return (
     <div className="space-y-3">
@@ -926,6 +1202,11 @@ function GpuSelectionCard({
                   {vram ? `${vram}GB VRAM` : "Loading specs..."}
                   {gpuCount > 1 && vram && ` (${vram * gpuCount}GB total)`}
                 </p>
+                {spec && (
+                  <p className="text-xs text-zinc-500 mt-0.5">
+                    {formatGpuSpecs(spec)} • CC {spec.computeCapability}
+                  </p>
+                )}
               </div>
             </div>
             
@@ -989,6 +1270,11 @@ function GpuSelectionCard({
         </div>
       )}
 
+      {/* Job cost estimates */}
+      {costEstimates && costEstimates.length > 0 && (
+        <JobCostTable estimates={costEstimates} />
+      )}
+
       <style jsx>{`
         @keyframes slide {
           0% { transform: translateX(-100%); }
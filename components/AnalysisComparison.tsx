@@ -0,0 +1,144 @@
+"use client";
+
+import { FilePreview } from "./AgentInsights";
+import type { AnalysisComparison as Comparison, AnalysisFieldDelta, AnalysisRecordSummary } from "@/types/agentSchemas";
+
+interface AnalysisComparisonProps {
+  comparison: Comparison;
+  onBack: () => void;
+}
+
+const FILE_STATUS_STYLES: Record<string, string> = {
+  added: "bg-emerald-500/10 text-emerald-400 border-emerald-500/30",
+  removed: "bg-red-500/10 text-red-400 border-red-500/30",
+  modified: "bg-amber-500/10 text-amber-400 border-amber-500/30",
+};
+
+function formatValue(value: AnalysisFieldDelta["before"]): string {
+  if (value === null) return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+function formatDelta({ delta }: AnalysisFieldDelta): string | null {
+  if (delta === undefined || delta === 0) return null;
+  return `${delta > 0 ? "+" : ""}${delta}`;
+}
+
+function RunLabel({ run, label }: { run: AnalysisRecordSummary; label: string }) {
+  return (
+    <div className="p-3 rounded-lg bg-zinc-900/60 border border-zinc-800">
+      <p className="text-xs text-zinc-500 uppercase tracking-wide">{label}</p>
+      <p className="font-mono text-sm text-zinc-200">
+        {run.branch}{run.commitSha ? ` @ ${run.commitSha.slice(0, 7)}` : ""}
+      </p>
+      <p className="text-xs text-zinc-500">{new Date(run.createdAt).toLocaleString()}</p>
+    </div>
+  );
+}
+
+export function AnalysisComparison({ comparison, onBack }: AnalysisComparisonProps) {
+  const { base, head, fields, files, unchangedFiles } = comparison;
+  const compareUrl = base.commitSha && head.commitSha && base.commitSha !== head.commitSha
+    ? `https://github.com/${head.owner}/${head.repo}/compare/${base.commitSha}...${head.commitSha}`
+    : null;
+
+  return (
+    <div className="w-full space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-zinc-100">Compare Analyses</h2>
+          <p className="text-sm text-zinc-500 font-mono">{head.owner}/{head.repo}</p>
+        </div>
+        <button
+          onClick={onBack}
+          className="px-4 py-2 rounded-lg border border-zinc-700 text-sm text-zinc-300 hover:bg-zinc-800 transition-colors"
+        >
+          Back to history
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <RunLabel run={base} label="Before" />
+        <RunLabel run={head} label="After" />
+      </div>
+
+      {/* Recommendation deltas */}
+      <div className="rounded-xl border border-zinc-800 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-zinc-900/80 text-zinc-400 text-left">
+            <tr>
+              <th className="px-4 py-3 font-medium">Field</th>
+              <th className="px-4 py-3 font-medium">Before</th>
+              <th className="px-4 py-3 font-medium">After</th>
+              <th className="px-4 py-3 font-medium text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-800">
+            {fields.map((delta) => (
+              <tr key={delta.field} className={delta.changed ? "bg-amber-500/5" : ""}>
+                <td className="px-4 py-3 text-zinc-400">{delta.label}</td>
+                <td className="px-4 py-3 text-zinc-300">{formatValue(delta.before)}</td>
+                <td className={`px-4 py-3 ${delta.changed ? "text-amber-300 font-medium" : "text-zinc-300"}`}>
+                  {formatValue(delta.after)}
+                </td>
+                <td className="px-4 py-3 text-right font-mono text-zinc-400">
+                  {formatDelta(delta) ?? (delta.changed ? "changed" : "")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Input files */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-medium text-zinc-400 uppercase tracking-wide">
+            Changed Input Files ({files.length})
+          </h3>
+          {compareUrl && (
+            <a
+              href={compareUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-emerald-400 hover:text-emerald-300"
+            >
+              Full diff on GitHub →
+            </a>
+          )}
+        </div>
+        {files.length === 0 && (
+          <p className="text-sm text-zinc-500">The Specialist read the same file contents in both analyses.</p>
+        )}
+        {files.map((file) => (
+          <div key={file.path} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className={`px-2 py-0.5 rounded border text-xs ${FILE_STATUS_STYLES[file.status]}`}>
+                {file.status}
+              </span>
+              <span className="font-mono text-xs text-zinc-300">{file.path}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {file.before !== undefined ? (
+                <FilePreview filename={file.path} content={file.before} />
+              ) : (
+                <div className="px-3 py-2 rounded-lg bg-zinc-950 text-xs text-zinc-600">Not read</div>
+              )}
+              {file.after !== undefined ? (
+                <FilePreview filename={file.path} content={file.after} />
+              ) : (
+                <div className="px-3 py-2 rounded-lg bg-zinc-950 text-xs text-zinc-600">Not read</div>
+              )}
+            </div>
+          </div>
+        ))}
+        {unchangedFiles.length > 0 && (
+          <p className="text-xs text-zinc-500">
+            Unchanged: <span className="font-mono">{unchangedFiles.join(", ")}</span>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
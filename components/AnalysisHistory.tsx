@@ -0,0 +1,197 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { AgentInsights } from "./AgentInsights";
+import { AnalysisComparison } from "./AnalysisComparison";
+import { listAnalysisHistory, getAnalysisRecord, compareAnalysisRecords } from "@/app/dashboard/actions/history";
+import type { AnalysisComparison as Comparison, AnalysisRecord, AnalysisRecordSummary } from "@/types/agentSchemas";
+
+const CONFIDENCE_STYLES: Record<string, string> = {
+  High: "text-emerald-400",
+  Medium: "text-amber-400",
+  Low: "text-red-400",
+};
+
+function formatCost(value: number | null, suffix = ""): string {
+  return value === null ? "—" : `$${value.toFixed(2)}${suffix}`;
+}
+
+function formatRepo(run: Pick<AnalysisRecordSummary, "owner" | "repo" | "branch" | "commitSha">): string {
+  return `${run.owner}/${run.repo}@${run.branch}${run.commitSha ? ` (${run.commitSha.slice(0, 7)})` : ""}`;
+}
+
+export function AnalysisHistory() {
+  const [runs, setRuns] = useState<AnalysisRecordSummary[] | null>(null);
+  const [selected, setSelected] = useState<AnalysisRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  // Up to two runs picked for comparison, oldest pick first
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+
+  useEffect(() => {
+    listAnalysisHistory().then((result) => {
+      setRuns(result.runs ?? []);
+      if (result.error) setError(result.error);
+    });
+  }, []);
+
+  const openRun = async (id: string) => {
+    setLoadingId(id);
+    const result = await getAnalysisRecord(id);
+    setLoadingId(null);
+    if (result.record) {
+      setSelected(result.record);
+      setError(null);
+    } else {
+      setError(result.error ?? "Failed to load analysis");
+    }
+  };
+
+  const toggleCompare = (run: AnalysisRecordSummary) => {
+    setCompareIds((ids) => {
+      if (ids.includes(run.id)) return ids.filter((id) => id !== run.id);
+      // Keep picks within one repository
+      const picked = runs?.find((r) => r.id === ids[0]);
+      const sameRepo = !picked || (picked.owner === run.owner && picked.repo === run.repo);
+      return sameRepo ? [...ids, run.id].slice(-2) : [run.id];
+    });
+  };
+
+  const compareRuns = async () => {
+    const [first, second] = compareIds;
+    setLoadingId(first);
+    const result = await compareAnalysisRecords(first, second);
+    setLoadingId(null);
+    if (result.comparison) {
+      setComparison(result.comparison);
+      setError(null);
+    } else {
+      setError(result.error ?? "Failed to compare analyses");
+    }
+  };
+
+  if (comparison) {
+    return <AnalysisComparison comparison={comparison} onBack={() => setComparison(null)} />;
+  }
+
+  if (selected) {
+    const summary = {
+      owner: selected.repoMeta.owner,
+      repo: selected.repoMeta.repo,
+      branch: selected.repoMeta.branch || "main",
+      commitSha: selected.commitSha,
+    };
+    return (
+      <div className="w-full space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-zinc-100">{formatRepo(summary)}</h2>
+            <p className="text-sm text-zinc-500">
+              Analyzed {new Date(selected.createdAt).toLocaleString()}
+              {selected.userFeedback && ` · with feedback: "${selected.userFeedback}"`}
+            </p>
+          </div>
+          <button
+            onClick={() => setSelected(null)}
+            className="px-4 py-2 rounded-lg border border-zinc-700 text-sm text-zinc-300 hover:bg-zinc-800 transition-colors"
+          >
+            Back to history
+          </button>
+        </div>
+        {selected.error && (
+          <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-400">
+            {selected.error}
+          </div>
+        )}
+        <AgentInsights steps={selected.agentSteps} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-zinc-100">Analysis History</h2>
+          <p className="text-sm text-zinc-500">Every analysis you have run, newest first. Pick two runs of a repository to compare them.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={compareRuns}
+            disabled={compareIds.length !== 2 || loadingId !== null}
+            className="px-4 py-2 rounded-lg bg-emerald-500/10 border border-emerald-500/30 text-sm text-emerald-400 hover:bg-emerald-500/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Compare{compareIds.length > 0 ? ` (${compareIds.length}/2)` : ""}
+          </button>
+          <Link
+            href="/dashboard"
+            className="px-4 py-2 rounded-lg border border-zinc-700 text-sm text-zinc-300 hover:bg-zinc-800 transition-colors"
+          >
+            New analysis
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-400">{error}</div>
+      )}
+
+      {runs === null ? (
+        <div className="flex justify-center py-16">
+          <div className="w-10 h-10 rounded-full border-2 border-emerald-500 border-t-transparent animate-spin" />
+        </div>
+      ) : runs.length === 0 ? (
+        <p className="py-16 text-center text-zinc-500">No analyses yet.</p>
+      ) : (
+        <div className="rounded-xl border border-zinc-800 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-900/80 text-zinc-400 text-left">
+              <tr>
+                <th className="pl-4 py-3 w-8" aria-label="Compare" />
+                <th className="px-4 py-3 font-medium">Repository</th>
+                <th className="px-4 py-3 font-medium">Date</th>
+                <th className="px-4 py-3 font-medium">Recommended GPU</th>
+                <th className="px-4 py-3 font-medium">Confidence</th>
+                <th className="px-4 py-3 font-medium text-right">Hourly</th>
+                <th className="px-4 py-3 font-medium text-right">Est. Job Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800">
+              {runs.map((run) => (
+                <tr
+                  key={run.id}
+                  onClick={() => openRun(run.id)}
+                  className={`cursor-pointer hover:bg-zinc-900/60 transition-colors ${loadingId === run.id ? "opacity-60" : ""}`}
+                >
+                  <td className="pl-4 py-3" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(run.id)}
+                      onChange={() => toggleCompare(run)}
+                      aria-label="Select for comparison"
+                      className="accent-emerald-500"
+                    />
+                  </td>
+                  <td className="px-4 py-3 font-mono text-zinc-200">{formatRepo(run)}</td>
+                  <td className="px-4 py-3 text-zinc-400">{new Date(run.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-3 text-zinc-200">
+                    {run.recommendedGpu
+                      ? `${run.recommendedGpu}${run.gpuCount && run.gpuCount > 1 ? ` × ${run.gpuCount}` : ""}`
+                      : <span className="text-red-400">{run.error ? "Failed" : "No match"}</span>}
+                  </td>
+                  <td className={`px-4 py-3 ${CONFIDENCE_STYLES[run.confidence ?? ""] ?? "text-zinc-500"}`}>
+                    {run.confidence ?? "—"}
+                  </td>
+                  <td className="px-4 py-3 text-right text-zinc-300">{formatCost(run.hourlyCost, "/hr")}</td>
+                  <td className="px-4 py-3 text-right text-zinc-300">{formatCost(run.totalCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,23 +1,59 @@
 "use client";
 
+import { useState } from "react";
 import type { AnalysisResult } from "@/app/dashboard/actions/createLaunchable";
+import { analyzeSetupCommands, getUnacknowledgedCommands } from "@/lib/command-safety";
+import { buildLaunchableConfig, diffLaunchables } from "@/lib/launchable-config";
+import type {
+  BrevInstance,
+  CommandFinding,
+  GpuScenario,
+  GpuScenarioKind,
+  LaunchableConfig,
+  LaunchableOptions,
+} from "@/types/agentSchemas";
 
 interface ConfirmationCardProps {
   analysis: AnalysisResult;
-  onConfirm: () => void;
+  /** brev-launchable.yaml already in the repository, if any */
+  currentLaunchable?: LaunchableConfig;
+  /** `acknowledgedCommands` are the blocked setup commands the user reviewed */
+  onConfirm: (instance: BrevInstance, acknowledgedCommands: string[], options: LaunchableOptions) => void;
   onDeny: () => void;
   onReject: () => void;
   isCreatingPR: boolean;
 }
 
-export function ConfirmationCard({ analysis, onConfirm, onDeny, onReject, isCreatingPR }: ConfirmationCardProps) {
+export function ConfirmationCard({
+  analysis,
+  currentLaunchable,
+  onConfirm,
+  onDeny,
+  onReject,
+  isCreatingPR,
+}: ConfirmationCardProps) {
   const { match, needs, recommendation } = analysis;
-  const instance = match?.best;
+  const scenarios = match?.scenarios ?? [];
+  const [selectedKind, setSelectedKind] = useState<GpuScenarioKind>("recommended");
+  const selectedScenario = scenarios.find((s) => s.kind === selectedKind);
+  const instance = selectedScenario?.instance ?? match?.best;
+  const [acknowledged, setAcknowledged] = useState<string[]>([]);
+  const [options, setOptions] = useState<LaunchableOptions>({});
 
   if (!instance || !needs) {
     return null;
   }
 
+  const launchableChanges = currentLaunchable
+    ? diffLaunchables(currentLaunchable, buildLaunchableConfig(instance, needs, currentLaunchable.constraints))
+    : null;
+  const findings = analyzeSetupCommands(needs.setup_commands);
+  const unacknowledged = getUnacknowledgedCommands(findings, acknowledged);
+  const toggleAcknowledged = (command: string) =>
+    setAcknowledged((current) =>
+      current.includes(command) ? current.filter((c) => c !== command) : [...current, command]
+    );
+
   return (
     <div className="w-full max-w-2xl">
       <div className="rounded-2xl p-8 backdrop-blur-sm bg-zinc-900/50 border border-zinc-800">
@@ -34,12 +70,32 @@ export function ConfirmationCard({ analysis, onConfirm, onDeny, onReject, isCrea
           </div>
         </div>
 
-        {/* Recommended Instance Card */}
+        {/* Scenario Picker */}
+        {scenarios.length > 1 && (
+          <div className="mb-6">
+            <h4 className="text-sm font-medium text-zinc-300 mb-3">Choose a Scenario</h4>
+            <div className="grid grid-cols-3 gap-3">
+              {scenarios.map((scenario) => (
+                <ScenarioOption
+                  key={scenario.kind}
+                  scenario={scenario}
+                  selected={scenario.kind === selectedScenario?.kind}
+                  disabled={isCreatingPR}
+                  onSelect={() => setSelectedKind(scenario.kind)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Selected Instance Card */}
         <div className="mb-6 p-5 rounded-xl bg-zinc-900/80 border border-zinc-700">
           <div className="flex items-center justify-between mb-4">
-            <h4 className="text-lg font-semibold text-zinc-200">Recommended Instance</h4>
+            <h4 className="text-lg font-semibold text-zinc-200">
+              {selectedScenario && selectedScenario.kind !== "recommended" ? "Selected Instance" : "Recommended Instance"}
+            </h4>
             <span className="px-3 py-1 rounded-full bg-zinc-800 text-zinc-400 text-sm font-medium">
-              Best Match
+              {selectedScenario?.label ?? "Best Match"}
             </span>
           </div>
           
@@ -60,9 +116,14 @@ export function ConfirmationCard({ analysis, onConfirm, onDeny, onReject, isCrea
             </div>
             <div className="p-3 rounded-lg bg-zinc-800/50">
               <p className="text-zinc-500 text-xs uppercase tracking-wide mb-1">Price</p>
-              <p className="text-zinc-100 font-semibold text-lg">${instance.price.toFixed(2)}/hr</p>
+              <p className="text-zinc-100 font-semibold text-lg">
+                ${(instance.price * instance.count).toFixed(2)}/hr
+              </p>
             </div>
           </div>
+          {selectedScenario && (
+            <p className="text-sm text-zinc-400 leading-relaxed">{selectedScenario.rationale}</p>
+          )}
         </div>
 
         {/* Your Requirements */}
@@ -84,6 +145,73 @@ export function ConfirmationCard({ analysis, onConfirm, onDeny, onReject, isCrea
           </div>
         </div>
 
+        {/* Changes to the committed launchable */}
+        {launchableChanges && (
+          <div className="mb-6 p-5 rounded-xl bg-zinc-900/50 border border-zinc-700/50">
+            <h4 className="text-sm font-medium text-zinc-300 mb-3">Changes to brev-launchable.yaml</h4>
+            {launchableChanges.length === 0 ? (
+              <p className="text-sm text-emerald-400">Matches your current configuration</p>
+            ) : (
+              <table className="w-full font-mono text-xs">
+                <tbody>
+                  {launchableChanges.map(({ key, before, after }) => (
+                    <tr key={key}>
+                      <td className="py-0.5 pr-4 text-zinc-500">{key}</td>
+                      <td className="py-0.5 pr-2 text-red-300 line-through">{before ?? "—"}</td>
+                      <td className="py-0.5 text-emerald-300">{after ?? "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {/* Setup Commands */}
+        {needs.setup_commands.length > 0 && (
+          <div className="mb-6 p-5 rounded-xl bg-zinc-900/50 border border-zinc-700/50">
+            <h4 className="text-sm font-medium text-zinc-300 mb-3">Setup Commands</h4>
+            <ul className="space-y-3">
+              {needs.setup_commands.map((command, index) => (
+                <SetupCommand
+                  key={`${index}-${command}`}
+                  command={command}
+                  findings={findings.filter((finding) => finding.command === command)}
+                  acknowledged={acknowledged.includes(command)}
+                  disabled={isCreatingPR}
+                  onToggle={() => toggleAcknowledged(command)}
+                />
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Extra Files */}
+        <div className="mb-6 p-5 rounded-xl bg-zinc-900/50 border border-zinc-700/50">
+          <h4 className="text-sm font-medium text-zinc-300 mb-1">Also Generate</h4>
+          <p className="text-xs text-zinc-500 mb-3">Run the same environment locally or on other clouds</p>
+          <div className="space-y-2 text-sm">
+            <label className="flex items-center gap-2 text-zinc-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!options.dockerfile}
+                disabled={isCreatingPR}
+                onChange={(e) => setOptions((current) => ({ ...current, dockerfile: e.target.checked }))}
+              />
+              Dockerfile <code className="text-xs text-zinc-500">.brev/Dockerfile</code>
+            </label>
+            <label className="flex items-center gap-2 text-zinc-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!options.devcontainer}
+                disabled={isCreatingPR}
+                onChange={(e) => setOptions((current) => ({ ...current, devcontainer: e.target.checked }))}
+              />
+              Dev Container <code className="text-xs text-zinc-500">.devcontainer/devcontainer.json</code>
+            </label>
+          </div>
+        </div>
+
         {/* Alternative Option */}
         {match?.second_best && (
           <div className="mb-6 p-4 rounded-lg bg-zinc-900/30 border border-zinc-700/30">
@@ -97,8 +225,8 @@ export function ConfirmationCard({ analysis, onConfirm, onDeny, onReject, isCrea
         {/* Action Buttons */}
         <div className="flex flex-col gap-3">
           <button
-            onClick={onConfirm}
-            disabled={isCreatingPR}
+            onClick={() => onConfirm(instance, acknowledged, options)}
+            disabled={isCreatingPR || unacknowledged.length > 0}
             className="w-full px-6 py-3 rounded-lg bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 disabled:from-zinc-700 disabled:to-zinc-700 text-white font-medium transition-all duration-300 shadow-lg shadow-emerald-500/25 hover:shadow-emerald-500/40 disabled:shadow-none disabled:cursor-not-allowed"
           >
             {isCreatingPR ? (
@@ -129,6 +257,11 @@ export function ConfirmationCard({ analysis, onConfirm, onDeny, onReject, isCrea
               </span>
             )}
           </button>
+          {unacknowledged.length > 0 && (
+            <p className="text-center text-xs text-red-400">
+              Review the {unacknowledged.length === 1 ? "flagged setup command" : `${unacknowledged.length} flagged setup commands`} above to continue
+            </p>
+          )}
           <div className="flex gap-3">
             <button
               onClick={onReject}
@@ -156,3 +289,85 @@ export function ConfirmationCard({ analysis, onConfirm, onDeny, onReject, isCrea
   );
 }
 
+function SetupCommand({
+  command,
+  findings,
+  acknowledged,
+  disabled,
+  onToggle,
+}: {
+  command: string;
+  findings: CommandFinding[];
+  acknowledged: boolean;
+  disabled: boolean;
+  onToggle: () => void;
+}) {
+  const blocked = findings.some((finding) => finding.severity === "block");
+
+  return (
+    <li>
+      <code
+        className={`block px-3 py-2 rounded-lg text-xs font-mono break-all ${
+          blocked
+            ? "bg-red-500/10 border border-red-500/30 text-red-200"
+            : findings.length > 0
+            ? "bg-amber-500/10 border border-amber-500/30 text-amber-200"
+            : "bg-zinc-800/50 text-zinc-300"
+        }`}
+      >
+        {command}
+      </code>
+      {findings.map((finding, index) => (
+        <p
+          key={index}
+          className={`mt-1 text-xs ${finding.severity === "block" ? "text-red-400" : "text-amber-400"}`}
+        >
+          ⚠️ {finding.message}
+        </p>
+      ))}
+      {blocked && (
+        <label className="mt-2 flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+          <input type="checkbox" checked={acknowledged} disabled={disabled} onChange={onToggle} />
+          I reviewed this command and want it in the setup script
+        </label>
+      )}
+    </li>
+  );
+}
+
+function ScenarioOption({
+  scenario,
+  selected,
+  disabled,
+  onSelect,
+}: {
+  scenario: GpuScenario;
+  selected: boolean;
+  disabled: boolean;
+  onSelect: () => void;
+}) {
+  const { instance } = scenario;
+
+  return (
+    <button
+      onClick={onSelect}
+      disabled={disabled}
+      className={`text-left p-3 rounded-lg border transition-colors disabled:cursor-not-allowed ${
+        selected
+          ? "bg-emerald-500/10 border-emerald-500/50"
+          : "bg-zinc-800/50 border-zinc-700/50 hover:border-zinc-600"
+      }`}
+    >
+      <p className={`text-xs uppercase tracking-wide mb-2 ${selected ? "text-emerald-400" : "text-zinc-500"}`}>
+        {scenario.label}
+      </p>
+      <p className="text-zinc-100 font-semibold">
+        {instance.name}{instance.count > 1 ? ` × ${instance.count}` : ""}
+      </p>
+      <p className="text-zinc-400 text-sm">${scenario.hourlyCost.toFixed(2)}/hr</p>
+      <p className="text-zinc-500 text-xs mt-1">
+        {instance.vram * instance.count}GB • {scenario.headroomPercent >= 0 ? "+" : ""}{scenario.headroomPercent}% headroom
+      </p>
+    </button>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
+import Link from "next/link";
 import { SignInButton } from "./SignInButton";
 import { AboutCreators } from "./AboutCreators";
 import { RepoSelector } from "./RepoSelector";
@@ -10,11 +11,13 @@ import { AgentInsights } from "./AgentInsights";
 import { ConfirmationCard } from "./ConfirmationCard";
 import { ResultCard } from "./ResultCard";
 import { FeedbackChat } from "./FeedbackChat";
-import { useAnalysisStream } from "@/hooks/useAnalysisStream";
+import { PullRequestImpactCard } from "./PullRequestImpactCard";
+import { useAnalysisStream, getActiveAnalysisRun } from "@/hooks/useAnalysisStream";
 import { confirmAndCreatePR, type LaunchableResult, type AnalysisResult } from "@/app/dashboard/actions/createLaunchable";
-import type { RepoMeta } from "@/types/agentSchemas";
+import { analyzePullRequest, type PullRequestAnalysisResult } from "@/app/dashboard/actions/analyzePullRequest";
+import type { RepoMeta, BrevInstance, LaunchableOptions } from "@/types/agentSchemas";
 
-type DashboardState = "idle" | "repo_selected" | "analyzing" | "confirming" | "feedback" | "reanalyzing" | "creating_pr" | "complete";
+type DashboardState = "idle" | "repo_selected" | "analyzing" | "analyzing_pr" | "pr_complete" | "confirming" | "feedback" | "reanalyzing" | "creating_pr" | "complete";
 
 interface FeedbackMessage {
   role: "user" | "assistant";
@@ -27,10 +30,19 @@ export function Dashboard() {
   const [repoMeta, setRepoMeta] = useState<RepoMeta | null>(null);
   const [selectedRepoDescription, setSelectedRepoDescription] = useState<string | undefined>(undefined);
   const [prResult, setPrResult] = useState<LaunchableResult | null>(null);
+  const [pullRequestResult, setPullRequestResult] = useState<PullRequestAnalysisResult | null>(null);
+  const [pullRequestNumber, setPullRequestNumber] = useState<number | null>(null);
   const [feedbackMessages, setFeedbackMessages] = useState<FeedbackMessage[]>([]);
   const [isProcessingFeedback, setIsProcessingFeedback] = useState(false);
   
-  const { state: streamState, startAnalysis, reset: resetStream } = useAnalysisStream();
+  const { state: streamState, startAnalysis, resumeAnalysis, reset: resetStream } = useAnalysisStream();
+
+  // Reattach to an analysis that was still running when the page reloaded
+  useEffect(() => {
+    if (status !== "authenticated") return;
+    const activeRun = getActiveAnalysisRun();
+    if (activeRun) resumeAnalysis(activeRun);
+  }, [status, resumeAnalysis]);
 
   const handleRepoSelect = (repo: RepoMeta, description?: string) => {
     setRepoMeta(repo);
@@ -44,6 +56,20 @@ export function Dashboard() {
     await startAnalysis(repoMeta);
   };
 
+  const handleAnalyzePullRequest = async (pullNumber: number) => {
+    if (!repoMeta) return;
+    setPullRequestNumber(pullNumber);
+    setDashboardState("analyzing_pr");
+    setPullRequestResult(await analyzePullRequest(repoMeta, pullNumber));
+    setDashboardState("pr_complete");
+  };
+
+  // A reattached run picks up where the analyzing view left off
+  if (dashboardState === "idle" && streamState.isStreaming && streamState.repoMeta) {
+    setRepoMeta(streamState.repoMeta);
+    setDashboardState("analyzing");
+  }
+
   // Watch for stream completion
   const isAnalysisComplete = !streamState.isStreaming && streamState.result !== null;
   
@@ -71,15 +97,21 @@ export function Dashboard() {
     setDashboardState("feedback");
   }
 
-  const handleConfirmPR = async () => {
-    if (!streamState.result?.match?.best || !streamState.result?.needs || !repoMeta) return;
+  const handleConfirmPR = async (
+    selectedInstance: BrevInstance,
+    acknowledgedCommands: string[],
+    options: LaunchableOptions
+  ) => {
+    if (!streamState.result?.needs || !repoMeta) return;
 
     setDashboardState("creating_pr");
 
     const result = await confirmAndCreatePR(
       repoMeta,
       streamState.result.needs,
-      streamState.result.match.best
+      selectedInstance,
+      acknowledgedCommands,
+      options
     );
     
     setPrResult({
@@ -108,6 +140,8 @@ export function Dashboard() {
   const handleReset = () => {
     setDashboardState("idle");
     setPrResult(null);
+    setPullRequestResult(null);
+    setPullRequestNumber(null);
     setRepoMeta(null);
     setSelectedRepoDescription(undefined);
     setFeedbackMessages([]);
@@ -155,6 +189,9 @@ export function Dashboard() {
     setFeedbackMessages([]);
   };
 
+  // Launchable already committed, read during the scan step
+  const currentLaunchable = streamState.agentSteps.find((step) => step.id === "scan")?.data?.currentLaunchable;
+
   // Build analysis result for ConfirmationCard
   const analysisForConfirmation: AnalysisResult | null = streamState.result ? {
     success: streamState.result.success,
@@ -198,7 +235,16 @@ export function Dashboard() {
               <p className="text-xs text-zinc-500">AI-Powered GPU Provisioning</p>
             </div>
           </div>
-          {session ? <SignInButton /> : <AboutCreators />}
+          {session ? (
+            <div className="flex items-center gap-4">
+              <Link href="/dashboard/history" className="text-sm text-zinc-400 hover:text-emerald-400 transition-colors">
+                History
+              </Link>
+              <SignInButton />
+            </div>
+          ) : (
+            <AboutCreators />
+          )}
         </div>
       </header>
 
@@ -284,6 +330,7 @@ export function Dashboard() {
                     repoDescription={selectedRepoDescription}
                     onConfirm={handleConfirmAnalysis}
                     onCancel={handleCancelAnalysis}
+                    onAnalyzePullRequest={handleAnalyzePullRequest}
                   />
                 </div>
               </div>
@@ -310,6 +357,7 @@ export function Dashboard() {
                       specialistCommands: streamState.specialistCommands,
                       specialistComplexity: streamState.specialistComplexity,
                       specialistComplexityReasoning: streamState.specialistComplexityReasoning,
+                      specialistWorkloadType: streamState.specialistWorkloadType,
                       specialistCpuCores: streamState.specialistCpuCores,
                       specialistSystemRam: streamState.specialistSystemRam,
                       specialistDiskSpace: streamState.specialistDiskSpace,
@@ -320,6 +368,7 @@ export function Dashboard() {
                       brokerAlternativeInstance: streamState.brokerAlternativeInstance,
                       brokerConfidence: streamState.brokerConfidence,
                       brokerCostNotes: streamState.brokerCostNotes,
+                      brokerCostEstimates: streamState.brokerCostEstimates,
                       brokerStatus: streamState.brokerStatus,
                       brokerUpdateCount: streamState.brokerUpdateCount,
                       isProvisioning: streamState.isProvisioning,
@@ -341,6 +390,22 @@ export function Dashboard() {
               </div>
             )}
 
+            {dashboardState === "analyzing_pr" && (
+              <div className="flex flex-col items-center text-center">
+                <div className="w-12 h-12 mb-6 rounded-full border-2 border-emerald-500 border-t-transparent animate-spin" />
+                <h2 className="text-2xl font-bold text-zinc-100 mb-2">
+                  Analyzing {repoMeta?.owner}/{repoMeta?.repo}#{pullRequestNumber}
+                </h2>
+                <p className="text-zinc-500">Comparing GPU requirements of the PR&apos;s base and head</p>
+              </div>
+            )}
+
+            {dashboardState === "pr_complete" && pullRequestResult && (
+              <div className="flex justify-center w-full">
+                <PullRequestImpactCard result={pullRequestResult} onReset={handleReset} />
+              </div>
+            )}
+
             {dashboardState === "confirming" && analysisForConfirmation && (
               <div className="w-full">
                 <div className="text-center mb-8">
@@ -355,6 +420,7 @@ export function Dashboard() {
                   <AgentInsights steps={streamState.agentSteps} />
                   <ConfirmationCard 
                     analysis={analysisForConfirmation} 
+                    currentLaunchable={currentLaunchable}
                     onConfirm={handleConfirmPR} 
                     onDeny={handleDenyPR}
                     onReject={handleRejectAndFeedback}
@@ -405,6 +471,7 @@ export function Dashboard() {
                       specialistCommands: streamState.specialistCommands,
                       specialistComplexity: streamState.specialistComplexity,
                       specialistComplexityReasoning: streamState.specialistComplexityReasoning,
+                      specialistWorkloadType: streamState.specialistWorkloadType,
                       specialistCpuCores: streamState.specialistCpuCores,
                       specialistSystemRam: streamState.specialistSystemRam,
                       specialistDiskSpace: streamState.specialistDiskSpace,
@@ -415,6 +482,7 @@ export function Dashboard() {
                       brokerAlternativeInstance: streamState.brokerAlternativeInstance,
                       brokerConfidence: streamState.brokerConfidence,
                       brokerCostNotes: streamState.brokerCostNotes,
+                      brokerCostEstimates: streamState.brokerCostEstimates,
                       brokerStatus: streamState.brokerStatus,
                       brokerUpdateCount: streamState.brokerUpdateCount,
                       isProvisioning: streamState.isProvisioning,
@@ -441,6 +509,7 @@ export function Dashboard() {
                   <AgentInsights steps={streamState.agentSteps} />
                   <ConfirmationCard 
                     analysis={analysisForConfirmation} 
+                    currentLaunchable={currentLaunchable}
                     onConfirm={handleConfirmPR} 
                     onDeny={handleDenyPR}
                     onReject={handleRejectAndFeedback}
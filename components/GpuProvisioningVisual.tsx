@@ -1,6 +1,9 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import type { GpuTier, GpuCatalogSnapshot } from "@/types/agentSchemas";
+import { getGpuByName, getGpusByTier } from "@/lib/gpu-catalog";
+import { getGpuCatalogSnapshot } from "@/app/dashboard/actions/catalog";
 
 interface GpuProvisioningAttempt {
   gpu: string;
@@ -34,42 +37,64 @@ interface GpuProvisioningVisualProps {
   };
 }
 
-// GPU catalog with visual metadata
-const GPU_VISUALS: Record<string, { tier: string; color: string; icon: string }> = {
+// Tier card styles for the catalog preview
+const TIER_STYLES: Record<GpuTier, { color: string; border: string }> = {
+  Ultra: { color: "from-violet-500/20 to-purple-500/20", border: "border-violet-500/30" },
+  Elite: { color: "from-emerald-500/20 to-teal-500/20", border: "border-emerald-500/30" },
+  Pro: { color: "from-blue-500/20 to-cyan-500/20", border: "border-blue-500/30" },
+  Advanced: { color: "from-amber-500/20 to-orange-500/20", border: "border-amber-500/30" },
+  Standard: { color: "from-green-500/20 to-emerald-500/20", border: "border-green-500/30" },
+  Entry: { color: "from-slate-500/20 to-zinc-500/20", border: "border-slate-500/30" },
+  Budget: { color: "from-zinc-500/20 to-slate-500/20", border: "border-zinc-500/30" },
+  Legacy: { color: "from-rose-500/20 to-pink-500/20", border: "border-rose-500/30" },
+};
+
+// GPU visual metadata (tier comes from the catalog)
+const GPU_VISUALS: Record<string, { color: string; icon: string }> = {
   // Blackwell
-  B300: { tier: "Ultra", color: "from-violet-500 to-purple-600", icon: "⚡" },
-  B200: { tier: "Ultra", color: "from-violet-500 to-purple-600", icon: "⚡" },
+  B300: { color: "from-violet-500 to-purple-600", icon: "⚡" },
+  B200: { color: "from-violet-500 to-purple-600", icon: "⚡" },
   // Hopper
-  H200: { tier: "Elite", color: "from-emerald-400 to-teal-500", icon: "🔥" },
-  H100: { tier: "Elite", color: "from-emerald-400 to-teal-500", icon: "🔥" },
+  H200: { color: "from-emerald-400 to-teal-500", icon: "🔥" },
+  H100: { color: "from-emerald-400 to-teal-500", icon: "🔥" },
   // Ampere High
-  A100: { tier: "Pro", color: "from-blue-400 to-cyan-500", icon: "💎" },
-  "A100-40GB": { tier: "Pro", color: "from-blue-400 to-cyan-500", icon: "💎" },
-  A40: { tier: "Pro", color: "from-blue-400 to-indigo-500", icon: "⚙️" },
+  A100: { color: "from-blue-400 to-cyan-500", icon: "💎" },
+  "A100-40GB": { color: "from-blue-400 to-cyan-500", icon: "💎" },
+  A40: { color: "from-blue-400 to-indigo-500", icon: "⚙️" },
   // Ada
-  L40s: { tier: "Advanced", color: "from-amber-400 to-orange-500", icon: "✨" },
-  L40: { tier: "Advanced", color: "from-amber-400 to-orange-500", icon: "✨" },
-  L4: { tier: "Standard", color: "from-green-400 to-emerald-500", icon: "🚀" },
+  L40s: { color: "from-amber-400 to-orange-500", icon: "✨" },
+  L40: { color: "from-amber-400 to-orange-500", icon: "✨" },
+  L4: { color: "from-green-400 to-emerald-500", icon: "🚀" },
   // Ampere Standard
-  A10: { tier: "Standard", color: "from-sky-400 to-blue-500", icon: "🎯" },
-  A10G: { tier: "Standard", color: "from-sky-400 to-blue-500", icon: "🎯" },
-  A6000: { tier: "Advanced", color: "from-indigo-400 to-purple-500", icon: "🔧" },
-  A5000: { tier: "Standard", color: "from-indigo-400 to-violet-500", icon: "🔧" },
-  A4000: { tier: "Entry", color: "from-slate-400 to-zinc-500", icon: "📦" },
-  A16: { tier: "Entry", color: "from-slate-400 to-zinc-500", icon: "📦" },
+  A10: { color: "from-sky-400 to-blue-500", icon: "🎯" },
+  A10G: { color: "from-sky-400 to-blue-500", icon: "🎯" },
+  A6000: { color: "from-indigo-400 to-purple-500", icon: "🔧" },
+  A5000: { color: "from-indigo-400 to-violet-500", icon: "🔧" },
+  A4000: { color: "from-slate-400 to-zinc-500", icon: "📦" },
+  A16: { color: "from-slate-400 to-zinc-500", icon: "📦" },
   // Others
-  T4: { tier: "Budget", color: "from-zinc-400 to-slate-500", icon: "💰" },
-  V100: { tier: "Legacy", color: "from-rose-400 to-pink-500", icon: "🏛️" },
-  P4: { tier: "Budget", color: "from-zinc-500 to-gray-600", icon: "💡" },
-  M60: { tier: "Legacy", color: "from-zinc-500 to-gray-600", icon: "📜" },
+  T4: { color: "from-zinc-400 to-slate-500", icon: "💰" },
+  V100: { color: "from-rose-400 to-pink-500", icon: "🏛️" },
+  P4: { color: "from-zinc-500 to-gray-600", icon: "💡" },
+  M60: { color: "from-zinc-500 to-gray-600", icon: "📜" },
   // RTX Ada
-  "RTX Pro 6000": { tier: "Pro", color: "from-lime-400 to-green-500", icon: "🎨" },
-  "RTX 6000 Ada": { tier: "Pro", color: "from-lime-400 to-green-500", icon: "🎨" },
-  "RTX 4000 Ada": { tier: "Standard", color: "from-teal-400 to-cyan-500", icon: "🎨" },
+  "RTX Pro 6000": { color: "from-lime-400 to-green-500", icon: "🎨" },
+  "RTX 6000 Ada": { color: "from-lime-400 to-green-500", icon: "🎨" },
+  "RTX 4000 Ada": { color: "from-teal-400 to-cyan-500", icon: "🎨" },
 };
 
 function getGpuVisual(gpuName: string) {
-  return GPU_VISUALS[gpuName] || { tier: "Unknown", color: "from-zinc-400 to-zinc-500", icon: "🔲" };
+  const visual = GPU_VISUALS[gpuName] || { color: "from-zinc-400 to-zinc-500", icon: "🔲" };
+  return { ...visual, tier: getGpuByName(gpuName)?.tier ?? "Unknown" };
+}
+
+function formatSyncStatus(snapshot: GpuCatalogSnapshot | null): string {
+  if (!snapshot || snapshot.source === "static" || !snapshot.fetchedAt) {
+    return "Bundled catalog prices (live sync unavailable)";
+  }
+  const minutes = Math.round((Date.now() - new Date(snapshot.fetchedAt).getTime()) / 60000);
+  const age = minutes < 60 ? `${minutes}m` : minutes < 48 * 60 ? `${Math.round(minutes / 60)}h` : `${Math.round(minutes / 1440)}d`;
+  return `Synced from Brev CLI ${age} ago${snapshot.stale ? " (stale)" : ""}`;
 }
 
 export function GpuProvisioningVisual({
@@ -80,6 +105,37 @@ export function GpuProvisioningVisual({
   finalResult,
 }: GpuProvisioningVisualProps) {
   const [pulsePhase, setPulsePhase] = useState(0);
+  const [catalogSnapshot, setCatalogSnapshot] = useState<GpuCatalogSnapshot | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  const syncCatalog = (forceRefresh: boolean) => {
+    setIsSyncing(true);
+    getGpuCatalogSnapshot(forceRefresh)
+      .then((result) => {
+        if (result.snapshot) setCatalogSnapshot(result.snapshot);
+        setSyncError(result.success ? null : result.error ?? "Could not sync the GPU catalog");
+      })
+      .catch((error) => setSyncError(error instanceof Error ? error.message : "Could not sync the GPU catalog"))
+      .finally(() => setIsSyncing(false));
+  };
+
+  // Load synced prices and availability for the catalog preview
+  useEffect(() => {
+    let cancelled = false;
+    getGpuCatalogSnapshot()
+      .then((result) => {
+        if (cancelled) return;
+        if (result.snapshot) setCatalogSnapshot(result.snapshot);
+        if (!result.success) setSyncError(result.error ?? "Could not load the GPU catalog");
+      })
+      .catch((error) => {
+        if (!cancelled) setSyncError(error instanceof Error ? error.message : "Could not load the GPU catalog");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   // Animate pulse for provisioning state
   useEffect(() => {
@@ -322,26 +378,51 @@ export function GpuProvisioningVisual({
       {/* GPU Catalog Preview (when not provisioning) */}
       {!isProvisioning && attempts.length === 0 && !finalResult && (
         <div className="space-y-3">
-          <h4 className="text-xs font-medium text-zinc-400 uppercase tracking-wide">
-            Available GPU Tiers
-          </h4>
-          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-            {[
-              { tier: "Ultra", gpus: ["B300", "B200"], color: "from-violet-500/20 to-purple-500/20", border: "border-violet-500/30" },
-              { tier: "Elite", gpus: ["H200", "H100"], color: "from-emerald-500/20 to-teal-500/20", border: "border-emerald-500/30" },
-              { tier: "Pro", gpus: ["A100", "A40"], color: "from-blue-500/20 to-cyan-500/20", border: "border-blue-500/30" },
-              { tier: "Advanced", gpus: ["L40s", "A6000"], color: "from-amber-500/20 to-orange-500/20", border: "border-amber-500/30" },
-              { tier: "Standard", gpus: ["L4", "A10G"], color: "from-green-500/20 to-emerald-500/20", border: "border-green-500/30" },
-              { tier: "Budget", gpus: ["T4", "P4"], color: "from-zinc-500/20 to-slate-500/20", border: "border-zinc-500/30" },
-            ].map((category) => (
-              <div
-                key={category.tier}
-                className={`p-3 rounded-xl bg-gradient-to-br ${category.color} border ${category.border}`}
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="text-xs font-medium text-zinc-400 uppercase tracking-wide">
+              Available GPU Tiers
+            </h4>
+            <div className="flex items-center gap-2">
+              <span
+                title={syncError ?? undefined}
+                className={`text-xs ${catalogSnapshot && !catalogSnapshot.stale && !syncError ? "text-zinc-500" : "text-amber-400/80"}`}
               >
-                <h5 className="text-xs font-bold text-zinc-200 mb-1">{category.tier}</h5>
-                <p className="text-xs text-zinc-400">{category.gpus.join(", ")}</p>
-              </div>
-            ))}
+                {syncError ? `Sync failed: ${syncError}` : formatSyncStatus(catalogSnapshot)}
+              </span>
+              <button
+                onClick={() => syncCatalog(true)}
+                disabled={isSyncing}
+                className="text-xs text-zinc-400 hover:text-zinc-200 disabled:opacity-50"
+              >
+                {isSyncing ? "Syncing..." : "Refresh"}
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {getGpusByTier(catalogSnapshot?.catalog).map((category) => {
+              const priced = category.gpus.filter((gpu) => gpu.price > 0 && gpu.available !== false);
+              const fromPrice = priced.length > 0 ? Math.min(...priced.map((gpu) => gpu.price)) : null;
+              return (
+                <div
+                  key={category.tier}
+                  className={`p-3 rounded-xl bg-gradient-to-br ${TIER_STYLES[category.tier].color} border ${TIER_STYLES[category.tier].border}`}
+                >
+                  <div className="flex items-baseline justify-between mb-1">
+                    <h5 className="text-xs font-bold text-zinc-200">{category.tier}</h5>
+                    {fromPrice !== null && (
+                      <span className="text-xs text-zinc-400">from ${fromPrice.toFixed(2)}/hr</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-zinc-400">
+                    {category.gpus.map((gpu, i) => (
+                      <span key={gpu.name} className={gpu.available === false ? "line-through text-zinc-600" : undefined}>
+                        {i > 0 && ", "}{gpu.name}
+                      </span>
+                    ))}
+                  </p>
+                </div>
+              );
+            })}
           </div>
         </div>
       )}
@@ -0,0 +1,79 @@
+"use client";
+
+import Link from "next/link";
+import type { PullRequestAnalysisResult } from "@/app/dashboard/actions/analyzePullRequest";
+
+interface PullRequestImpactCardProps {
+  result: PullRequestAnalysisResult;
+  onReset: () => void;
+}
+
+export function PullRequestImpactCard({ result, onReset }: PullRequestImpactCardProps) {
+  const { pullRequest, impact } = result;
+  const changed = impact?.changesRequirements ?? false;
+
+  return (
+    <div className="w-full max-w-2xl">
+      <div
+        className={`rounded-2xl p-8 backdrop-blur-sm ${
+          !result.success
+            ? "bg-gradient-to-br from-red-500/10 to-orange-500/10 border border-red-500/30"
+            : changed
+            ? "bg-gradient-to-br from-amber-500/10 to-orange-500/10 border border-amber-500/30"
+            : "bg-gradient-to-br from-emerald-500/10 to-teal-500/10 border border-emerald-500/30"
+        }`}
+      >
+        {result.success && pullRequest && impact ? (
+          <>
+            <div className="mb-6">
+              <h3 className="text-xl font-semibold text-zinc-100">
+                #{pullRequest.number} {pullRequest.title}
+              </h3>
+              <p className="text-zinc-400 text-sm font-mono">
+                {pullRequest.baseRef} ← {pullRequest.headRef}
+              </p>
+            </div>
+
+            <div className="mb-6 p-4 rounded-lg bg-zinc-900/50 border border-zinc-700/50">
+              <h4 className="text-sm font-medium text-zinc-300 mb-2">
+                {changed ? "This PR changes GPU requirements" : "No change in GPU requirements"}
+              </h4>
+              <p className={`text-sm ${changed ? "text-amber-300" : "text-emerald-300"}`}>{impact.headline}</p>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              {result.commentUrl && (
+                <a
+                  href={result.commentUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="px-6 py-3 rounded-lg bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 text-white font-medium transition-all duration-300"
+                >
+                  View PR comment
+                </a>
+              )}
+              <Link
+                href="/dashboard/history"
+                className="px-6 py-3 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-300 font-medium transition-colors"
+              >
+                Compare in history
+              </Link>
+            </div>
+          </>
+        ) : (
+          <div>
+            <h3 className="text-xl font-semibold text-zinc-100">Pull request analysis failed</h3>
+            <p className="text-red-400 text-sm">{result.error}</p>
+          </div>
+        )}
+
+        <button
+          onClick={onReset}
+          className="mt-6 w-full px-6 py-3 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-300 font-medium transition-colors"
+        >
+          Analyze Another Repository
+        </button>
+      </div>
+    </div>
+  );
+}
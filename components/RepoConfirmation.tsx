@@ -1,11 +1,15 @@
 "use client";
 
+import { useState } from "react";
+
 interface RepoConfirmationProps {
   repoName: string;
   repoOwner: string;
   repoDescription?: string;
   onConfirm: () => void;
   onCancel: () => void;
+  /** Analyze a pull request's compute impact instead of the branch head */
+  onAnalyzePullRequest?: (pullNumber: number) => void;
 }
 
 export function RepoConfirmation({ 
@@ -13,8 +17,12 @@ export function RepoConfirmation({
   repoOwner, 
   repoDescription, 
   onConfirm, 
-  onCancel 
+  onCancel,
+  onAnalyzePullRequest,
 }: RepoConfirmationProps) {
+  const [pullNumber, setPullNumber] = useState("");
+  const parsedPullNumber = parseInt(pullNumber, 10);
+
   return (
     <div className="w-full max-w-2xl">
       <div className="rounded-2xl p-8 bg-zinc-900/50 border border-zinc-800">
@@ -103,6 +111,35 @@ export function RepoConfirmation({
             Cancel
           </button>
         </div>
+
+        {/* Pull request mode */}
+        {onAnalyzePullRequest && (
+          <div className="mt-6 pt-6 border-t border-zinc-800">
+            <p className="text-sm text-zinc-400 mb-3">
+              Or check how a pull request changes GPU requirements. Brev Doctor analyzes its base and head and comments the result on the PR.
+            </p>
+            <div className="flex gap-3">
+              <div className="flex items-center flex-1 rounded-lg bg-zinc-900 border border-zinc-700 focus-within:border-emerald-500/50">
+                <span className="pl-4 text-zinc-500">#</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={pullNumber}
+                  onChange={(e) => setPullNumber(e.target.value)}
+                  placeholder="Pull request number"
+                  className="flex-1 px-2 py-3 bg-transparent text-zinc-100 placeholder-zinc-500 focus:outline-none"
+                />
+              </div>
+              <button
+                onClick={() => onAnalyzePullRequest(parsedPullNumber)}
+                disabled={!(parsedPullNumber > 0)}
+                className="px-6 py-3 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-200 font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Analyze PR
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -26,7 +26,13 @@ export function ResultCard({ result, onReset }: ResultCardProps) {
                 </svg>
               </div>
               <div>
-                <h3 className="text-xl font-semibold text-zinc-100">Pull Request Created!</h3>
+                <h3 className="text-xl font-semibold text-zinc-100">
+                  {result.prStatus === "updated"
+                    ? "Pull Request Updated!"
+                    : result.prStatus === "unchanged"
+                    ? "Pull Request Already Up to Date"
+                    : "Pull Request Created!"}
+                </h3>
                 <p className="text-zinc-400 text-sm">Your Brev configuration is ready</p>
               </div>
             </div>
@@ -40,6 +46,17 @@ export function ResultCard({ result, onReset }: ResultCardProps) {
               </div>
             )}
 
+            {result.changelog && result.changelog.length > 0 && (
+              <div className="mb-6 p-4 rounded-lg bg-zinc-900/50 border border-zinc-700/50">
+                <h4 className="text-sm font-medium text-zinc-300 mb-2">Changes Pushed</h4>
+                <ul className="text-sm text-zinc-400 font-mono space-y-1">
+                  {result.changelog.map((line) => (
+                    <li key={line}>{line.replace(/`/g, "")}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <a
               href={result.prUrl}
               target="_blank"
@@ -1,7 +1,8 @@
 "use client";
 
-import { useState, useCallback } from "react";
-import type { RepoMeta, AgentStep, MatchResult, SpecialistOutput } from "@/types/agentSchemas";
+import { useState, useCallback, useRef } from "react";
+import { decodeStreamFrame } from "@/lib/stream-protocol";
+import type { RepoMeta, AgentStep, SpecialistOutput, JobCostEstimate, AnalysisStreamEvent, AnalysisStreamMessage, StreamEventOf } from "@/types/agentSchemas";
 
 export interface GpuProvisioningAttempt {
   gpu: string;
@@ -25,6 +26,7 @@ export interface StreamingAnalysisState {
   specialistCommands: string[];
   specialistComplexity: string | null;
   specialistComplexityReasoning: string | null;
+  specialistWorkloadType: string | null;
   specialistCpuCores: number | null;
   specialistSystemRam: number | null;
   specialistDiskSpace: number | null;
@@ -36,6 +38,7 @@ export interface StreamingAnalysisState {
   brokerAlternativeInstance: string | null;
   brokerConfidence: string | null;
   brokerCostNotes: string | null;
+  brokerCostEstimates: JobCostEstimate[] | null;
   brokerStatus: "idle" | "starting" | "streaming" | "complete";
   brokerUpdateCount: number;
   // GPU Provisioning streaming
@@ -61,18 +64,21 @@ export interface StreamingAnalysisState {
     gpuCount?: number;
   } | null;
   // Final result
-  result: {
-    success: boolean;
-    match?: MatchResult;
-    needs?: SpecialistOutput;
-    recommendation?: string;
-  } | null;
+  result: StreamEventOf<"complete">["result"] | null;
   error: string | null;
+  /** Repository being analyzed */
+  repoMeta: RepoMeta | null;
+  /** Server-side run, used to reattach after a reload or dropped connection */
+  runId: string | null;
+  /** ID of the last stream event received */
+  lastEventId: number | null;
 }
 
 const initialSteps: AgentStep[] = [
   { id: "auth", name: "Authenticating with GitHub", status: "running", startTime: Date.now() },
   { id: "scan", name: "Scanning repository structure", status: "pending" },
+  { id: "cache", name: "Checking analysis cache", status: "pending" },
+  { id: "signals", name: "Extracting static repo signals", status: "pending" },
   { id: "scout", name: "Scout AI selecting key files", status: "pending" },
   { id: "fetch", name: "Fetching file contents", status: "pending" },
   { id: "analyze", name: "Specialist analyzing compute needs", status: "pending" },
@@ -92,6 +98,7 @@ const initialState: StreamingAnalysisState = {
   specialistCommands: [],
   specialistComplexity: null,
   specialistComplexityReasoning: null,
+  specialistWorkloadType: null,
   specialistCpuCores: null,
   specialistSystemRam: null,
   specialistDiskSpace: null,
@@ -103,6 +110,7 @@ const initialState: StreamingAnalysisState = {
   brokerAlternativeInstance: null,
   brokerConfidence: null,
   brokerCostNotes: null,
+  brokerCostEstimates: null,
   brokerStatus: "idle",
   brokerUpdateCount: 0,
   // GPU Provisioning
@@ -114,16 +122,105 @@ const initialState: StreamingAnalysisState = {
   // Result
   result: null,
   error: null,
+  repoMeta: null,
+  runId: null,
+  lastEventId: null,
 };
 
+const ACTIVE_RUN_STORAGE_KEY = "brev-doctor:active-analysis";
+const MAX_RECONNECTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+
+/** An analysis run this tab started that has not finished yet */
+export interface ActiveAnalysisRun {
+  runId: string;
+  repoMeta: RepoMeta;
+}
+
+/**
+ * The run to reattach to after a reload, if any (per tab)
+ */
+export function getActiveAnalysisRun(): ActiveAnalysisRun | null {
+  try {
+    const stored = sessionStorage.getItem(ACTIVE_RUN_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ActiveAnalysisRun) : null;
+  } catch {
+    return null;
+  }
+}
+
+function setActiveAnalysisRun(run: ActiveAnalysisRun | null) {
+  try {
+    if (run) {
+      sessionStorage.setItem(ACTIVE_RUN_STORAGE_KEY, JSON.stringify(run));
+    } else {
+      sessionStorage.removeItem(ACTIVE_RUN_STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable (private mode): reattaching after a reload is skipped
+  }
+}
+
 export function useAnalysisStream() {
   const [state, setState] = useState<StreamingAnalysisState>(initialState);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Follow a run until a complete/error event, reconnecting with Last-Event-ID when the stream drops
+  const followRun = useCallback(async (runId: string, firstResponse: Response | null, signal: AbortSignal) => {
+    let response = firstResponse;
+    let lastEventId: number | null = null;
+    let reconnects = 0;
+
+    const onMessage = (message: AnalysisStreamMessage) => {
+      if (signal.aborted) return;
+      lastEventId = message.id;
+      reconnects = 0;
+      setState((prev) => ({ ...prev, lastEventId: message.id }));
+      handleStreamEvent(message.event, setState);
+    };
+
+    const onInvalidFrame = (error: string) => {
+      // Surface protocol drift instead of silently dropping updates
+      console.error("Rejected stream frame:", error);
+      setState((prev) => ({ ...prev, error }));
+    };
+
+    while (!signal.aborted) {
+      if (response && await readAnalysisStream(response, onMessage, onInvalidFrame)) {
+        setActiveAnalysisRun(null);
+        return;
+      }
+      if (signal.aborted) return;
+      if (reconnects++ >= MAX_RECONNECTS) {
+        throw new Error("Lost connection to the analysis. Reload the page to reattach.");
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS * (reconnects - 1)));
+      response = await fetch(`/api/analyze/${runId}`, {
+        headers: lastEventId !== null ? { "Last-Event-ID": String(lastEventId) } : {},
+        signal,
+      }).catch(() => null);
+
+      if (response?.status === 404) {
+        setActiveAnalysisRun(null);
+        throw new Error("This analysis run has expired. Please start a new analysis.");
+      }
+      if (response && !response.ok) {
+        response = null;
+      }
+    }
+  }, []);
 
   const startAnalysis = useCallback(async (repoMeta: RepoMeta, userFeedback?: string, previousNeeds?: SpecialistOutput) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     // Reset state and initialize steps
     setState({
       ...initialState,
       isStreaming: true,
+      repoMeta,
       agentSteps: initialSteps.map((s) => ({ ...s })),
     });
 
@@ -132,6 +229,7 @@ export function useAnalysisStream() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ repoMeta, userFeedback, previousNeeds }),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
@@ -144,8 +242,8 @@ export function useAnalysisStream() {
         return;
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
+      const runId = response.headers.get("X-Analysis-Run-Id");
+      if (!runId || !response.body) {
         setState((prev) => ({
           ...prev,
           isStreaming: false,
@@ -154,53 +252,114 @@ export function useAnalysisStream() {
         return;
       }
 
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              handleStreamEvent(data, setState);
-            } catch (e) {
-              console.error("Failed to parse stream data:", e);
-            }
-          }
-        }
+      setActiveAnalysisRun({ runId, repoMeta });
+      setState((prev) => ({ ...prev, runId }));
+      await followRun(runId, response, controller.signal);
+
+      if (!controller.signal.aborted) {
+        setState((prev) => ({ ...prev, isStreaming: false }));
       }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setState((prev) => ({
+        ...prev,
+        isStreaming: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }));
+    }
+  }, [followRun]);
+
+  // Reattach to a run after a reload; all of its events are replayed from the start
+  const resumeAnalysis = useCallback(async ({ runId, repoMeta }: ActiveAnalysisRun) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-      setState((prev) => ({ ...prev, isStreaming: false }));
+    setState({
+      ...initialState,
+      isStreaming: true,
+      runId,
+      repoMeta,
+      agentSteps: initialSteps.map((s) => ({ ...s })),
+    });
+
+    try {
+      await followRun(runId, null, controller.signal);
+      if (!controller.signal.aborted) {
+        setState((prev) => ({ ...prev, isStreaming: false }));
+      }
     } catch (error) {
+      if (controller.signal.aborted) return;
       setState((prev) => ({
         ...prev,
         isStreaming: false,
         error: error instanceof Error ? error.message : "Unknown error",
       }));
     }
-  }, []);
+  }, [followRun]);
 
   const reset = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setActiveAnalysisRun(null);
     setState(initialState);
   }, []);
 
-  return { state, startAnalysis, reset };
+  return { state, startAnalysis, resumeAnalysis, reset };
+}
+
+/**
+ * Read SSE frames until the body ends. Returns true once a complete or error
+ * event arrives, false if the connection dropped first.
+ */
+async function readAnalysisStream(
+  response: Response,
+  onMessage: (message: AnalysisStreamMessage) => void,
+  onInvalidFrame: (error: string) => void
+): Promise<boolean> {
+  const reader = response.body?.getReader();
+  if (!reader) return false;
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const frames = buffer.split("\n\n");
+      buffer = frames.pop() || "";
+
+      for (const frame of frames) {
+        if (!frame.trim()) continue;
+        const parsed = decodeStreamFrame(frame);
+        if (!parsed.success) {
+          onInvalidFrame(parsed.error);
+          continue;
+        }
+        onMessage(parsed.message);
+        if (parsed.message.event.type === "complete" || parsed.message.event.type === "error") {
+          finished = true;
+        }
+      }
+    }
+  } catch {
+    // Network drop or abort; the caller decides whether to reconnect
+  }
+
+  return finished;
 }
 
 function handleStreamEvent(
-  data: Record<string, unknown>,
+  event: AnalysisStreamEvent,
   setState: React.Dispatch<React.SetStateAction<StreamingAnalysisState>>
 ) {
-  switch (data.type) {
-    case "step_update":
-      const stepUpdate = data.step as Partial<AgentStep> & { id: string };
+  switch (event.type) {
+    case "step_update": {
+      const stepUpdate = event.step;
       setState((prev) => ({
         ...prev,
         agentSteps: prev.agentSteps.map((s) =>
@@ -219,43 +378,46 @@ function handleStreamEvent(
         ),
       }));
       break;
+    }
 
     case "scout_stream":
       setState((prev) => ({
         ...prev,
-        scoutReasoning: (data.reasoning as string) || prev.scoutReasoning,
-        scoutSelectedFiles: (data.selectedFiles as string[]) || prev.scoutSelectedFiles,
+        scoutReasoning: event.reasoning || prev.scoutReasoning,
+        scoutSelectedFiles: event.selectedFiles,
       }));
       break;
 
     case "specialist_stream":
       setState((prev) => ({
         ...prev,
-        specialistThinking: (data.thinking as string) ?? prev.specialistThinking,
-        specialistVram: (data.estimatedVram as number) ?? prev.specialistVram,
-        specialistArch: (data.architecture as string) ?? prev.specialistArch,
-        specialistMultiGpu: (data.multiGpu as boolean) ?? prev.specialistMultiGpu,
-        specialistCommands: (data.setupCommands as string[]) ?? prev.specialistCommands,
-        specialistComplexity: (data.complexity as string) ?? prev.specialistComplexity,
-        specialistComplexityReasoning: (data.complexityReasoning as string) ?? prev.specialistComplexityReasoning,
-        specialistCpuCores: (data.cpuCores as number) ?? prev.specialistCpuCores,
-        specialistSystemRam: (data.systemRam as number) ?? prev.specialistSystemRam,
-        specialistDiskSpace: (data.diskSpace as number) ?? prev.specialistDiskSpace,
+        specialistThinking: event.thinking,
+        specialistVram: event.estimatedVram ?? prev.specialistVram,
+        specialistArch: event.architecture ?? prev.specialistArch,
+        specialistMultiGpu: event.multiGpu ?? prev.specialistMultiGpu,
+        specialistCommands: event.setupCommands ?? prev.specialistCommands,
+        specialistComplexity: event.complexity ?? prev.specialistComplexity,
+        specialistComplexityReasoning: event.complexityReasoning ?? prev.specialistComplexityReasoning,
+        specialistWorkloadType: event.workloadType ?? prev.specialistWorkloadType,
+        specialistCpuCores: event.cpuCores ?? prev.specialistCpuCores,
+        specialistSystemRam: event.systemRam ?? prev.specialistSystemRam,
+        specialistDiskSpace: event.diskSpace ?? prev.specialistDiskSpace,
       }));
       break;
 
     case "broker_stream":
       setState((prev) => ({
         ...prev,
-        brokerThinking: (data.thinking as string) ?? prev.brokerThinking,
-        brokerRecommendedInstance: (data.recommendedGpu as string) ?? (data.recommendedInstance as string) ?? prev.brokerRecommendedInstance,
-        brokerRecommendedVram: (data.recommendedVram as number) ?? prev.brokerRecommendedVram,
-        brokerRecommendedCount: (data.gpuCount as number) ?? prev.brokerRecommendedCount,
-        brokerAlternativeInstance: (data.alternativeGpu as string) ?? (data.alternativeInstance as string) ?? prev.brokerAlternativeInstance,
-        brokerConfidence: (data.matchConfidence as string) ?? prev.brokerConfidence,
-        brokerCostNotes: (data.costNotes as string) ?? prev.brokerCostNotes,
-        brokerStatus: (data.status as "idle" | "starting" | "streaming" | "complete") ?? prev.brokerStatus,
-        brokerUpdateCount: (data.updateCount as number) ?? prev.brokerUpdateCount,
+        brokerThinking: event.thinking ?? prev.brokerThinking,
+        brokerRecommendedInstance: event.recommendedGpu ?? prev.brokerRecommendedInstance,
+        brokerRecommendedVram: event.recommendedVram ?? prev.brokerRecommendedVram,
+        brokerRecommendedCount: event.gpuCount ?? prev.brokerRecommendedCount,
+        brokerAlternativeInstance: event.alternativeGpu ?? prev.brokerAlternativeInstance,
+        brokerConfidence: event.matchConfidence ?? prev.brokerConfidence,
+        brokerCostNotes: event.costNotes ?? prev.brokerCostNotes,
+        brokerCostEstimates: event.costEstimates ?? prev.brokerCostEstimates,
+        brokerStatus: event.status ?? prev.brokerStatus,
+        brokerUpdateCount: event.updateCount ?? prev.brokerUpdateCount,
       }));
       break;
 
@@ -264,10 +426,10 @@ function handleStreamEvent(
         ...prev,
         isProvisioning: true,
         provisioningAttempt: {
-          gpu: data.gpu as string,
-          vram: data.vram as number,
-          gpuCount: data.gpuCount as number,
-          attemptNumber: data.attempt as number,
+          gpu: event.gpu,
+          vram: event.vram,
+          gpuCount: event.gpuCount,
+          attemptNumber: event.attempt,
         },
       }));
       break;
@@ -278,15 +440,15 @@ function handleStreamEvent(
         provisioningAttempts: [
           ...prev.provisioningAttempts,
           {
-            gpu: data.gpu as string,
+            gpu: event.gpu,
             vram: prev.provisioningAttempt?.vram || 0,
             gpuCount: prev.provisioningAttempt?.gpuCount || 1,
             success: false,
-            error: data.error as string,
-            errorType: data.errorType as string,
+            error: event.error,
+            errorType: event.errorType,
           },
         ],
-        isProvisioning: data.willRetry as boolean,
+        isProvisioning: event.willRetry,
       }));
       break;
 
@@ -297,18 +459,18 @@ function handleStreamEvent(
         provisioningAttempts: [
           ...prev.provisioningAttempts,
           {
-            gpu: data.gpu as string,
-            vram: data.vram as number,
-            gpuCount: data.gpuCount as number,
+            gpu: event.gpu,
+            vram: event.vram,
+            gpuCount: event.gpuCount,
             success: true,
           },
         ],
         provisioningResult: {
           success: true,
-          workspaceName: data.workspaceName as string,
-          gpu: data.gpu as string,
-          vram: data.vram as number,
-          gpuCount: data.gpuCount as number,
+          workspaceName: event.workspaceName,
+          gpu: event.gpu,
+          vram: event.vram,
+          gpuCount: event.gpuCount,
         },
       }));
       break;
@@ -317,19 +479,18 @@ function handleStreamEvent(
       setState((prev) => ({
         ...prev,
         retryDecision: {
-          thinking: data.thinking as string,
-          shouldRetry: data.shouldRetry as boolean,
-          nextGpu: data.nextGpu as string | undefined,
-          fallbackReason: data.fallbackReason as string | undefined,
+          thinking: event.thinking,
+          shouldRetry: event.shouldRetry,
+          nextGpu: event.nextGpu,
+          fallbackReason: event.fallbackReason,
         },
       }));
       break;
 
     case "complete":
-      const result = data.result as StreamingAnalysisState["result"];
       setState((prev) => ({
         ...prev,
-        result,
+        result: event.result,
         isStreaming: false,
       }));
       break;
@@ -337,10 +498,9 @@ function handleStreamEvent(
     case "error":
       setState((prev) => ({
         ...prev,
-        error: data.error as string,
+        error: event.error,
         isStreaming: false,
       }));
       break;
   }
 }
-
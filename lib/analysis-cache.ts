@@ -0,0 +1,176 @@
+import { getFixtureMode } from "@/lib/fixtures";
+import { selectSignalFiles } from "@/lib/repo-signals";
+import type { RepoTreeEntry } from "@/lib/github";
+import type {
+  AnalysisCacheStatus,
+  ModelSpec,
+  RepoMeta,
+  RepoSignals,
+  ScoutOutput,
+  SpecialistOutput,
+} from "@/types/agentSchemas";
+
+/**
+ * Commit-aware cache of Scout and Specialist results.
+ *
+ * The latest analysis of each branch, and of each analyzed commit, is kept
+ * per user with the git blob SHAs of its relevant files (manifests plus
+ * Scout-selected files). The same commit, or a commit that changed none of
+ * those files and added none, reuses both agents. When relevant files
+ * changed, the Scout selection is kept and only the Specialist re-runs, on
+ * refetched copies of the changed files; when files were added, the Scout
+ * runs again too. Runs with user feedback always re-run the
+ * Specialist and are not cached. A pull request's head is planned against
+ * its base's analysis the same way. Entries live in process memory; set
+ * `BREV_DOCTOR_CACHE=off` to disable. Fixture runs bypass the cache so
+ * recordings stay complete.
+ */
+
+export interface AnalysisCacheEntry {
+  commitSha: string | null;
+  tree: RepoTreeEntry[];
+  /** Blob SHA of every relevant file at the cached commit */
+  fileShas: Record<string, string>;
+  repoSignals: RepoSignals;
+  scoutResult: ScoutOutput;
+  fileContents: Record<string, string>;
+  modelSpecs: ModelSpec[];
+  needs: SpecialistOutput;
+}
+
+export interface AnalysisCachePlan {
+  status: AnalysisCacheStatus;
+  entry: AnalysisCacheEntry | null;
+  /** Relevant files to fetch again (partial hits) */
+  changedFiles: string[];
+  /** Manifests are unchanged, so the cached repo signals still apply */
+  reuseSignals: boolean;
+  /** Files were added since the cached analysis, so the Scout selects again */
+  rerunScout: boolean;
+}
+
+const MAX_ENTRIES = 100;
+
+const entries = new Map<string, AnalysisCacheEntry>();
+
+/** Entries are per user, since another user's token may not reach the same files */
+function cacheKey(userKey: string, { owner, repo, branch }: RepoMeta, commitSha?: string | null): string {
+  return `${userKey}:${`${owner}/${repo}`.toLowerCase()}${commitSha ? `#${commitSha}` : `@${branch || "main"}`}`;
+}
+
+export function isAnalysisCacheEnabled(): boolean {
+  return process.env.BREV_DOCTOR_CACHE !== "off" && getFixtureMode() === "off";
+}
+
+/**
+ * The cached analysis of this commit, or else the latest of this branch
+ */
+export function getCachedAnalysis(userKey: string, repoMeta: RepoMeta, commitSha?: string | null): AnalysisCacheEntry | null {
+  if (!isAnalysisCacheEnabled()) return null;
+  return (commitSha ? entries.get(cacheKey(userKey, repoMeta, commitSha)) : undefined)
+    ?? entries.get(cacheKey(userKey, repoMeta))
+    ?? null;
+}
+
+/**
+ * An analysis with the blob SHAs of the files it read, so a later commit can
+ * be compared against it
+ */
+export function createCacheEntry(entry: Omit<AnalysisCacheEntry, "fileShas">): AnalysisCacheEntry {
+  const shas = new Map(entry.tree.map((file) => [file.path, file.sha]));
+  const relevant = [...selectSignalFiles([...shas.keys()]), ...entry.scoutResult.selected_paths];
+  const fileShas: Record<string, string> = {};
+  for (const path of relevant) {
+    const sha = shas.get(path);
+    if (sha) fileShas[path] = sha;
+  }
+  return { ...entry, fileShas };
+}
+
+export function setCachedAnalysis(
+  userKey: string,
+  repoMeta: RepoMeta,
+  entry: Omit<AnalysisCacheEntry, "fileShas">
+): void {
+  if (!isAnalysisCacheEnabled()) return;
+
+  const stored = createCacheEntry(entry);
+  const keys = [cacheKey(userKey, repoMeta), ...(entry.commitSha ? [cacheKey(userKey, repoMeta, entry.commitSha)] : [])];
+  for (const key of keys) {
+    // Re-insert so the Map stays in least-recently-stored order
+    entries.delete(key);
+    entries.set(key, stored);
+  }
+  for (const oldest of entries.keys()) {
+    if (entries.size <= MAX_ENTRIES) break;
+    entries.delete(oldest);
+  }
+}
+
+/**
+ * Decide how much of a cached analysis the current commit can reuse
+ */
+export function planCachedAnalysis(
+  entry: AnalysisCacheEntry | null,
+  commitSha: string | null,
+  tree: RepoTreeEntry[],
+  hasFeedback: boolean
+): AnalysisCachePlan {
+  if (!entry) {
+    return {
+      status: { result: "miss", reason: isAnalysisCacheEnabled() ? "No cached analysis for this branch" : "Cache disabled" },
+      entry: null,
+      changedFiles: [],
+      reuseSignals: false,
+      rerunScout: false,
+    };
+  }
+
+  const shas = new Map(tree.map((file) => [file.path, file.sha]));
+  const cachedCommitSha = entry.commitSha ?? undefined;
+  const since = cachedCommitSha ? ` since ${cachedCommitSha.slice(0, 7)}` : "";
+
+  const signalFiles = selectSignalFiles([...shas.keys()]);
+
+  // Changed or removed relevant files, plus manifests that did not exist before
+  const changedFiles = [
+    ...Object.keys(entry.fileShas).filter((path) => shas.get(path) !== entry.fileShas[path]),
+    ...signalFiles.filter((path) => !(path in entry.fileShas)),
+  ];
+
+  const cachedSignalFiles = selectSignalFiles(entry.tree.map((file) => file.path));
+  const reuseSignals = signalFiles.length === cachedSignalFiles.length
+    && cachedSignalFiles.every((path) => !changedFiles.includes(path) && shas.has(path));
+
+  if (!entry.scoutResult.selected_paths.some((path) => shas.has(path))) {
+    return {
+      status: { result: "miss", reason: `All Scout-selected files were removed${since}`, cachedCommitSha, changedFiles },
+      entry: null,
+      changedFiles: [],
+      reuseSignals: false,
+      rerunScout: false,
+    };
+  }
+
+  // The cached Scout never saw these, and one may be worth selecting
+  const cachedPaths = new Set(entry.tree.map((file) => file.path));
+  const addedFiles = [...shas.keys()].filter((path) => !cachedPaths.has(path));
+  const rerunScout = addedFiles.length > 0;
+
+  if (changedFiles.length === 0 && !rerunScout && !hasFeedback) {
+    const reason = commitSha && commitSha === entry.commitSha
+      ? "Commit already analyzed"
+      : `No relevant files changed${since}`;
+    return { status: { result: "hit", reason, cachedCommitSha }, entry, changedFiles, reuseSignals, rerunScout };
+  }
+
+  const files = (count: number) => (count === 1 ? "file" : "files");
+  const changes = [
+    changedFiles.length > 0 && `${changedFiles.length} relevant ${files(changedFiles.length)} changed`,
+    rerunScout && `${addedFiles.length} ${files(addedFiles.length)} added`,
+  ].filter(Boolean).join(" and ");
+  const reason = changes
+    ? `${changes}${since}, re-running ${rerunScout ? "the Scout and Specialist" : "the Specialist"}`
+    : "Re-running the Specialist with your feedback";
+  return { status: { result: "partial", reason, cachedCommitSha, changedFiles }, entry, changedFiles, reuseSignals, rerunScout };
+}
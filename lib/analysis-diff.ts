@@ -0,0 +1,92 @@
+import { summarizeAnalysisRecord } from "@/lib/history-store";
+import type {
+  AnalysisComparison,
+  AnalysisFieldDelta,
+  AnalysisFileChange,
+  AnalysisRecord,
+} from "@/types/agentSchemas";
+
+/**
+ * Differences between two saved analyses of the same repository: the
+ * Specialist's estimates, the chosen GPU and its cost, and the input files
+ * the Specialist read (as stored with each run).
+ */
+
+type FieldValue = AnalysisFieldDelta["before"];
+
+function field(
+  name: string,
+  label: string,
+  before: FieldValue | undefined,
+  after: FieldValue | undefined
+): AnalysisFieldDelta {
+  const from = before ?? null;
+  const to = after ?? null;
+  return {
+    field: name,
+    label,
+    before: from,
+    after: to,
+    changed: from !== to,
+    delta: typeof from === "number" && typeof to === "number" ? Math.round((to - from) * 100) / 100 : undefined,
+  };
+}
+
+function gpuLabel(record: AnalysisRecord): string | null {
+  const best = record.match?.best;
+  if (!best) return null;
+  return best.count > 1 ? `${best.name} × ${best.count}` : best.name;
+}
+
+/**
+ * Input files of an analysis: the contents fetched for the Specialist
+ */
+export function getAnalysisInputFiles(record: AnalysisRecord): Record<string, string> {
+  return record.agentSteps.find((step) => step.id === "fetch")?.data?.fileContents ?? {};
+}
+
+/**
+ * Compare two analyses; the older one is the base
+ */
+export function compareAnalyses(first: AnalysisRecord, second: AnalysisRecord): AnalysisComparison {
+  const [base, head] = first.createdAt <= second.createdAt ? [first, second] : [second, first];
+  const baseSummary = summarizeAnalysisRecord(base);
+  const headSummary = summarizeAnalysisRecord(head);
+  const before = base.needs;
+  const after = head.needs;
+
+  const fields = [
+    field("estimated_vram_gb", "Estimated VRAM (GB)", before?.estimated_vram_gb, after?.estimated_vram_gb),
+    field("recommended_gpu_architecture", "Architecture", before?.recommended_gpu_architecture, after?.recommended_gpu_architecture),
+    field("requires_multi_gpu", "Multi-GPU", before?.requires_multi_gpu, after?.requires_multi_gpu),
+    field("workload_type", "Workload", before?.workload_type, after?.workload_type),
+    field("recommended_cpu_cores", "CPU cores", before?.recommended_cpu_cores, after?.recommended_cpu_cores),
+    field("recommended_system_ram_gb", "System RAM (GB)", before?.recommended_system_ram_gb, after?.recommended_system_ram_gb),
+    field("estimated_disk_space_gb", "Disk (GB)", before?.estimated_disk_space_gb, after?.estimated_disk_space_gb),
+    field("gpu", "Chosen GPU", gpuLabel(base), gpuLabel(head)),
+    field("confidence", "Confidence", baseSummary.confidence, headSummary.confidence),
+    field("hourly_cost", "Hourly cost ($)", baseSummary.hourlyCost, headSummary.hourlyCost),
+    field("total_cost", "Est. job cost ($)", baseSummary.totalCost, headSummary.totalCost),
+  ];
+
+  const baseFiles = getAnalysisInputFiles(base);
+  const headFiles = getAnalysisInputFiles(head);
+  const files: AnalysisFileChange[] = [];
+  const unchangedFiles: string[] = [];
+  const paths = [...new Set([...Object.keys(baseFiles), ...Object.keys(headFiles)])].sort();
+  for (const path of paths) {
+    const from = baseFiles[path];
+    const to = headFiles[path];
+    if (from === undefined) {
+      files.push({ path, status: "added", after: to });
+    } else if (to === undefined) {
+      files.push({ path, status: "removed", before: from });
+    } else if (from !== to) {
+      files.push({ path, status: "modified", before: from, after: to });
+    } else {
+      unchangedFiles.push(path);
+    }
+  }
+
+  return { base: baseSummary, head: headSummary, fields, files, unchangedFiles };
+}
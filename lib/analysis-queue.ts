@@ -0,0 +1,68 @@
+import { randomUUID } from "crypto";
+import type { RepoMeta } from "@/types/agentSchemas";
+
+/**
+ * In-process queue of background analyses (webhook re-analysis).
+ *
+ * Jobs run one at a time. A job that is still waiting absorbs later requests
+ * for the same branch, so a burst of pushes analyzes only the newest commit.
+ * The queue is lost on restart.
+ */
+
+export interface AnalysisJob {
+  id: string;
+  repoMeta: RepoMeta;
+  commitSha?: string;
+  reason: string;
+  enqueuedAt: number;
+}
+
+export type AnalysisJobRunner = (job: AnalysisJob) => Promise<void>;
+
+export interface AnalysisQueue {
+  /** Queue a job; `coalesced` is true when it merged into a waiting job */
+  enqueue(request: Omit<AnalysisJob, "id" | "enqueuedAt">): { job: AnalysisJob; coalesced: boolean };
+  /** Waiting jobs (excluding the one running) */
+  pending(): AnalysisJob[];
+}
+
+function branchKey({ owner, repo, branch }: RepoMeta): string {
+  return `${owner}/${repo}@${branch || "main"}`.toLowerCase();
+}
+
+export function createAnalysisQueue(runner: AnalysisJobRunner): AnalysisQueue {
+  const waiting: AnalysisJob[] = [];
+  let running = false;
+
+  const drain = async () => {
+    if (running) return;
+    running = true;
+    while (waiting.length > 0) {
+      const job = waiting.shift()!;
+      try {
+        await runner(job);
+      } catch (error) {
+        console.error(`Background analysis ${job.id} (${job.reason}) failed:`, error);
+      }
+    }
+    running = false;
+  };
+
+  return {
+    enqueue(request) {
+      const existing = waiting.find((job) => branchKey(job.repoMeta) === branchKey(request.repoMeta));
+      if (existing) {
+        Object.assign(existing, { commitSha: request.commitSha, reason: request.reason });
+        return { job: existing, coalesced: true };
+      }
+
+      const job: AnalysisJob = { ...request, id: randomUUID(), enqueuedAt: Date.now() };
+      waiting.push(job);
+      void drain();
+      return { job, coalesced: false };
+    },
+    pending() {
+      return [...waiting];
+    },
+  };
+}
@@ -4,7 +4,8 @@ import { readFile, writeFile } from "fs/promises";
 import { existsSync } from "fs";
 import { homedir } from "os";
 import { join } from "path";
-import type { BrevInstance } from "@/types/agentSchemas";
+import type { BrevInstance, GpuCatalogEntry } from "@/types/agentSchemas";
+import { getGpuCatalog } from "@/lib/gpu-catalog";
 
 const execAsync = promisify(exec);
 
@@ -22,148 +23,23 @@ let tokenCache: {
 const BREV_CREDENTIALS_PATH = join(homedir(), ".brev", "credentials.json");
 
 /**
- * Complete list of GPUs available on Brev.dev
- * 
- * This is the comprehensive list the agent uses to make informed GPU selection decisions.
- * Availability is determined at runtime by attempting to provision via Brev CLI.
- * 
- * Source: Brev.dev platform offerings (December 2024)
- */
-export const BREV_GPU_CATALOG: BrevInstance[] = [
-  // Blackwell Architecture (Latest)
-  { name: "B300", vram: 192, count: 1, arch: "Blackwell", price: 0 },  // Price TBD
-  { name: "B200", vram: 192, count: 1, arch: "Blackwell", price: 0 },  // Price TBD
-  
-  // Hopper Architecture (High-end)
-  { name: "H200", vram: 141, count: 1, arch: "Hopper", price: 4.50 },
-  { name: "H100", vram: 80, count: 1, arch: "Hopper", price: 3.49 },
-  
-  // Ampere Architecture (Workhorses)
-  { name: "A100", vram: 80, count: 1, arch: "Ampere", price: 2.49 },    // A100-80GB
-  { name: "A100-40GB", vram: 40, count: 1, arch: "Ampere", price: 1.89 },
-  { name: "A40", vram: 48, count: 1, arch: "Ampere", price: 1.28 },
-  { name: "A10", vram: 24, count: 1, arch: "Ampere", price: 0.75 },
-  { name: "A10G", vram: 24, count: 1, arch: "Ampere", price: 0.75 },
-  { name: "A16", vram: 16, count: 1, arch: "Ampere", price: 0.50 },
-  
-  // Ada Lovelace Architecture
-  { name: "L40s", vram: 48, count: 1, arch: "Ada", price: 1.50 },
-  { name: "L40", vram: 48, count: 1, arch: "Ada", price: 1.40 },
-  { name: "L4", vram: 24, count: 1, arch: "Ada", price: 0.58 },
-  { name: "RTX Pro 6000", vram: 48, count: 1, arch: "Ada", price: 1.20 },
-  { name: "RTX 6000 Ada", vram: 48, count: 1, arch: "Ada", price: 1.20 },
-  { name: "RTX 4000 Ada", vram: 20, count: 1, arch: "Ada", price: 0.55 },
-  
-  // Professional GPUs (Ampere)
-  { name: "A6000", vram: 48, count: 1, arch: "Ampere", price: 0.80 },
-  { name: "A5000", vram: 24, count: 1, arch: "Ampere", price: 0.50 },
-  { name: "A4000", vram: 16, count: 1, arch: "Ampere", price: 0.35 },
-  
-  // Turing Architecture
-  { name: "T4", vram: 16, count: 1, arch: "Turing", price: 0.35 },
-  
-  // Volta Architecture
-  { name: "V100", vram: 32, count: 1, arch: "Volta", price: 2.50 },
-  
-  // Pascal Architecture
-  { name: "P4", vram: 8, count: 1, arch: "Pascal", price: 0.25 },
-  
-  // Maxwell Architecture
-  { name: "M60", vram: 8, count: 1, arch: "Maxwell", price: 0.30 },
-];
-
-/**
- * GPU information formatted for the agent's decision making
- */
-export function getGpuCatalogDescription(): string {
-  return `## Available GPUs on Brev.dev
-
-The following GPUs are available on Brev. Select based on your VRAM requirements, architecture needs, and budget.
-Note: Actual availability depends on current stock - if a GPU isn't available, try an alternative.
-
-### Blackwell Architecture (Latest Generation)
-- **B300**: 192GB VRAM - Cutting edge, best for massive models
-- **B200**: 192GB VRAM - Latest generation, extreme performance
-
-### Hopper Architecture (High Performance)
-- **H200**: 141GB HBM3e - Best for LLMs, Transformer Engine, FP8
-- **H100**: 80GB HBM3 - Industry standard for large-scale training, Transformer Engine
-
-### Ampere Architecture (Workhorses)
-- **A100**: 80GB HBM2e - Excellent for training, NVLink support
-- **A100-40GB**: 40GB HBM2e - Good balance of performance and cost
-- **A40**: 48GB - Professional GPU, good for inference and training
-- **A10**: 24GB - Good all-rounder for inference and fine-tuning
-- **A10G**: 24GB - AWS-optimized A10 variant
-- **A16**: 16GB - Budget option with Ampere features
-- **A6000**: 48GB - Professional workstation GPU
-- **A5000**: 24GB - Mid-tier professional GPU
-- **A4000**: 16GB - Entry-level professional GPU
-
-### Ada Lovelace Architecture (Latest Consumer/Pro)
-- **L40s**: 48GB - Optimized for inference, video AI
-- **L40**: 48GB - High performance Ada GPU
-- **L4**: 24GB - Best value for inference, supports FP8
-- **RTX Pro 6000**: 48GB - Professional Ada GPU
-- **RTX 6000 Ada**: 48GB - Workstation-class
-- **RTX 4000 Ada**: 20GB - Entry professional Ada
-
-### Turing Architecture
-- **T4**: 16GB - Budget-friendly, good for inference
-
-### Volta Architecture
-- **V100**: 32GB HBM2 - Legacy but still capable for training
-
-### Pascal Architecture
-- **P4**: 8GB - Very budget option, inference only
-
-### Maxwell Architecture
-- **M60**: 8GB - Legacy GPU, basic compute
-
-## Selection Guidelines
-1. **LLM Training (7B+ params)**: H100, H200, A100-80GB, or multi-GPU setup
-2. **LLM Fine-tuning**: A100-40GB, L40s, A40
-3. **LLM Inference**: L4, T4, A10G (cost-effective)
-4. **Computer Vision**: A10G, L4, T4
-5. **Research/Experimentation**: T4, L4 (budget), A10G (balanced)
-
-When recommending, consider:
-- VRAM requirement (model size + optimizer states + activations)
-- Architecture features needed (FP8, Transformer Engine, etc.)
-- Cost efficiency for the workload type`;
-}
-
-/**
- * Get the GPU catalog as structured data
- */
-export function getBrevInventory(): BrevInstance[] {
-  return BREV_GPU_CATALOG;
-}
-
-/**
- * Find GPU by name (case-insensitive)
+ * The GPU catalog lives in lib/gpu-catalog.ts (client-safe); re-exported here
+ * so server code keeps a single Brev entry point.
  */
-export function getGpuByName(name: string): BrevInstance | undefined {
-  return BREV_GPU_CATALOG.find(
-    (gpu) => gpu.name.toLowerCase() === name.toLowerCase()
-  );
-}
+export {
+  BREV_GPU_CATALOG,
+  getGpuCatalog,
+  getGpuCatalogDescription,
+  getGpuByName,
+  getGpusByMinVram,
+  getGpusByArchitecture,
+} from "@/lib/gpu-catalog";
 
 /**
- * Get GPUs that meet minimum VRAM requirement
+ * Get the GPU catalog as structured data (live-synced when available)
  */
-export function getGpusByMinVram(minVram: number): BrevInstance[] {
-  return BREV_GPU_CATALOG.filter((gpu) => gpu.vram >= minVram)
-    .sort((a, b) => a.vram - b.vram);
-}
-
-/**
- * Get GPUs by architecture
- */
-export function getGpusByArchitecture(arch: string): BrevInstance[] {
-  return BREV_GPU_CATALOG.filter(
-    (gpu) => gpu.arch.toLowerCase() === arch.toLowerCase()
-  );
+export function getBrevInventory(): GpuCatalogEntry[] {
+  return getGpuCatalog();
 }
 
 /**
@@ -441,6 +317,22 @@ export async function checkBrevCliInstalled(): Promise<boolean> {
   }
 }
 
+/**
+ * Run a Brev CLI command as the authenticated user and return its stdout.
+ * Throws when no valid token is available or the command fails.
+ */
+export async function runBrevCommand(command: string, timeoutMs: number = 30000): Promise<string> {
+  const brevToken = await getValidBrevToken();
+
+  if (!brevToken) {
+    throw new Error("BREV_TOKEN not found or expired");
+  }
+
+  await execAsync(`brev login --token "${brevToken}" --skip-browser`, { timeout: timeoutMs });
+  const { stdout } = await execAsync(command, { timeout: timeoutMs });
+  return stdout;
+}
+
 /**
  * List current Brev workspaces
  * Automatically handles token refresh if expired.
@@ -1,8 +1,25 @@
-import { generateObject } from "ai";
-import { openai } from "@ai-sdk/openai";
-import type { SpecialistOutput, BrevInstance, MatchResult, BrokerOutput, GpuRetryDecision } from "@/types/agentSchemas";
+import type { DeepPartial } from "ai";
+import { generateAgentObject, streamAgentObject } from "@/lib/llm-provider";
+import type {
+  SpecialistOutput,
+  BrevInstance,
+  GpuCatalogEntry,
+  MatchResult,
+  BrokerOutput,
+  GpuRetryDecision,
+  GpuScenario,
+  ConstraintViolation,
+  LaunchableConstraints,
+} from "@/types/agentSchemas";
 import { BrokerOutputSchema, GpuRetryDecisionSchema } from "@/types/agentSchemas";
-import { getGpuCatalogDescription, getGpuByName, BREV_GPU_CATALOG } from "@/lib/brev-api";
+import { getGpuCatalogDescription, getGpuByName, getGpuCatalog, supportsArchitecture } from "@/lib/gpu-catalog";
+import { estimateSpecialistVram, getPerGpuVram } from "@/lib/specialist";
+import { formatVramBreakdown, type Precision } from "@/lib/vram-estimator";
+import { getPeakTflops, getScalingEfficiency } from "@/lib/cost-estimator";
+import { formatWorkloadSizing, getWorkloadSizingRule } from "@/lib/workloads";
+
+/** GPU counts considered when building scenarios */
+const SCENARIO_GPU_COUNTS = [1, 2, 4, 8];
 
 export interface BrokerResult extends MatchResult {
   brokerOutput: BrokerOutput;
@@ -12,6 +29,74 @@ export interface BrokerContext {
   repoMeta?: { owner: string; repo: string; branch?: string };
   scoutOutput?: { reasoning: string; selected_paths: string[] };
   totalFilesInRepo?: number;
+  /** Restricts the Broker to local models (see lib/llm-provider.ts) */
+  privateRepo?: boolean;
+  /** User constraints from the repository's brev-launchable.yaml */
+  constraints?: LaunchableConstraints | null;
+}
+
+function describeInstance(instance: Pick<BrevInstance, "name" | "count">): string {
+  return `${instance.name}${instance.count > 1 ? ` × ${instance.count}` : ""}`;
+}
+
+/**
+ * Ways an instance breaks the repository's constraints (empty when it complies)
+ */
+export function getConstraintViolations(
+  instance: BrevInstance,
+  constraints?: LaunchableConstraints | null
+): ConstraintViolation[] {
+  if (!constraints) return [];
+  const gpu = describeInstance(instance);
+  const violations: ConstraintViolation[] = [];
+  const { maxHourlyBudget, allowedGpus, bannedArchitectures, requireMultiGpu } = constraints;
+
+  if (maxHourlyBudget !== undefined) {
+    const hourly = instance.price * instance.count;
+    if (instance.price <= 0) {
+      violations.push({ constraint: "maxHourlyBudget", gpu, message: `No known price to check against the $${maxHourlyBudget.toFixed(2)}/hr budget` });
+    } else if (hourly > maxHourlyBudget) {
+      violations.push({ constraint: "maxHourlyBudget", gpu, message: `$${hourly.toFixed(2)}/hr exceeds the $${maxHourlyBudget.toFixed(2)}/hr budget` });
+    }
+  }
+  if (allowedGpus && !allowedGpus.some((name) => name.toLowerCase() === instance.name.toLowerCase())) {
+    violations.push({ constraint: "allowedGpus", gpu, message: `${instance.name} is not one of the allowed GPUs (${allowedGpus.join(", ")})` });
+  }
+  if (bannedArchitectures?.some((arch) => arch.toLowerCase() === instance.arch.toLowerCase())) {
+    violations.push({ constraint: "bannedArchitectures", gpu, message: `${instance.arch} GPUs are banned` });
+  }
+  if (requireMultiGpu && instance.count < 2) {
+    violations.push({ constraint: "requireMultiGpu", gpu, message: "Multi-GPU is required but this is a single GPU" });
+  }
+  return violations;
+}
+
+/**
+ * Catalog GPUs the constraints allow at some GPU count, or the whole catalog
+ * when they allow none (the pick is then reported as a violation)
+ */
+function getAllowedCatalog(constraints?: LaunchableConstraints | null): GpuCatalogEntry[] {
+  const catalog = getGpuCatalog();
+  const allowed = catalog.filter((gpu) =>
+    getConstraintViolations({ ...gpu, count: 2 }, { ...constraints, maxHourlyBudget: undefined }).length === 0
+  );
+  return allowed.length > 0 ? allowed : catalog;
+}
+
+function formatConstraints(constraints?: LaunchableConstraints | null): string {
+  if (!constraints) return "";
+  const rules = [
+    constraints.maxHourlyBudget !== undefined && `- **Max hourly budget**: $${constraints.maxHourlyBudget.toFixed(2)}/hr for all GPUs together (price × gpu_count)`,
+    constraints.allowedGpus && `- **Allowed GPUs**: ${constraints.allowedGpus.join(", ")}`,
+    constraints.bannedArchitectures && `- **Banned architectures**: ${constraints.bannedArchitectures.join(", ")}`,
+    constraints.requireMultiGpu && "- **Multi-GPU required**: gpu_count must be 2 or more",
+  ].filter(Boolean);
+  if (rules.length === 0) return "";
+  return `
+## USER CONSTRAINTS (HARD)
+The repository's brev-launchable.yaml sets these limits. Never recommend a configuration that breaks them, even if it would be safer; if nothing fits, pick the closest compliant option and say so in your reasoning.
+${rules.join("\n")}
+`;
 }
 
 /**
@@ -26,9 +111,11 @@ export interface BrokerContext {
  */
 export async function selectGpuInstance(
   needs: SpecialistOutput,
-  context?: BrokerContext
+  context?: BrokerContext,
+  onPartial?: (partial: DeepPartial<BrokerOutput>) => void
 ): Promise<BrokerOutput> {
-  const gpuCatalog = getGpuCatalogDescription();
+  const gpuCatalog = getGpuCatalogDescription(getAllowedCatalog(context?.constraints));
+  const vramBreakdown = estimateSpecialistVram(needs);
 
   // Build context sections
   let repoContextSection = "";
@@ -56,7 +143,7 @@ ${context.scoutOutput.selected_paths.map(p => `- ${p}`).join('\n')}
         
 ## MISSION
 Select the GPU that guarantees **success** and **stability** for the user's project, while optimizing cost *only if safe to do so*.
-${repoContextSection}${scoutContextSection}
+${repoContextSection}${scoutContextSection}${formatConstraints(context?.constraints)}
 ## SPECIALIST'S COMPUTE ANALYSIS
 The Specialist analyzed the code and determined:
 
@@ -73,6 +160,12 @@ ${needs.thinking}
 - **Recommended System RAM**: ${needs.recommended_system_ram_gb}GB
 - **Estimated Disk Space**: ${needs.estimated_disk_space_gb}GB
 - **Setup Commands**: ${needs.setup_commands.length > 0 ? needs.setup_commands.join(', ') : 'None specified'}
+${vramBreakdown ? `
+**Deterministic VRAM Breakdown** (authoritative - computed from the Specialist's extracted inputs):
+${formatVramBreakdown(vramBreakdown)}
+` : ""}
+## WORKLOAD SIZING
+${formatWorkloadSizing(needs, vramBreakdown !== null)}
 
 ${gpuCatalog}
 
@@ -80,6 +173,7 @@ ${gpuCatalog}
 1. **Safety First**: 
    - If Complexity is "High" or "Enterprise", prefer A100/H100/L40s. Do not recommend consumer-tier cards (T4) for heavy training.
    - If VRAM requirement is borderline (e.g. 22GB req for 24GB card), **upsize** to the next tier (40GB+) to prevent OOM.
+   - The workload sizing rule above overrides generic heuristics: serving and inference are sized to the provisioned VRAM, not upsized for training.
    
 2. **Architecture Matching**:
    - "Hopper" req -> H100 (or H200).
@@ -96,19 +190,19 @@ ${gpuCatalog}
 
 Make your selection based on the complete analysis chain above. Reference specific findings from the Specialist's analysis in your reasoning.`;
 
-  const { object: brokerOutput } = await generateObject({
-    model: openai("gpt-4o"),
-    schema: BrokerOutputSchema,
-    prompt,
-  });
-
-  return brokerOutput;
+  const request = { schema: BrokerOutputSchema, prompt };
+  const modelOptions = { privateRepo: context?.privateRepo };
+  return onPartial
+    ? streamAgentObject("broker", request, onPartial, modelOptions)
+    : generateAgentObject("broker", request, modelOptions);
 }
 
 export interface GpuRetryContext {
   repoMeta?: { owner: string; repo: string; branch?: string };
   scoutReasoning?: string;
   selectedFiles?: string[];
+  privateRepo?: boolean;
+  constraints?: LaunchableConstraints | null;
 }
 
 /**
@@ -120,7 +214,8 @@ export async function decideGpuRetry(
   failedAttempts: Array<{ gpu: string; vram: number; gpuCount: number; error: string }>,
   context?: GpuRetryContext
 ): Promise<GpuRetryDecision> {
-  const gpuCatalog = getGpuCatalogDescription();
+  const gpuCatalog = getGpuCatalogDescription(getAllowedCatalog(context?.constraints));
+  const perGpuVram = getPerGpuVram(needs);
   
   const failedAttemptsStr = failedAttempts
     .map((a, i) => `${i + 1}. ${a.gpu} (${a.vram}GB × ${a.gpuCount}) - Failed: ${a.error}`)
@@ -149,7 +244,7 @@ ${context.selectedFiles?.map(p => `- ${p}`).join('\n') || 'No files listed'}
 
 ## MISSION
 Find a viable alternative GPU that preserves project success. **Do not downgrade capabilities** if the project is complex.
-${repoContextSection}${scoutContextSection}
+${repoContextSection}${scoutContextSection}${formatConstraints(context?.constraints)}
 ## SPECIALIST'S FULL ANALYSIS
 The Specialist thoroughly analyzed this project and determined:
 
@@ -157,7 +252,8 @@ The Specialist thoroughly analyzed this project and determined:
 ${needs.thinking}
 
 **Computed Requirements:**
-- **Required VRAM**: ${needs.estimated_vram_gb}GB
+- **Workload Type**: ${getWorkloadSizingRule(needs.workload_type).label}
+- **Required VRAM**: ${needs.estimated_vram_gb}GB${perGpuVram ? ` (at least ${perGpuVram}GB on each GPU)` : ""}
 - **Architecture**: ${needs.recommended_gpu_architecture}
 - **Complexity**: ${needs.project_complexity}
 - **Complexity Reasoning**: ${needs.complexity_reasoning}
@@ -188,15 +284,97 @@ ${gpuCatalog}
 
 Provide your decision with reasoning, referencing the Specialist's analysis where relevant.`;
 
-  const { object: retryDecision } = await generateObject({
-    model: openai("gpt-4o"),
+  const retryDecision = await generateAgentObject("broker", {
     schema: GpuRetryDecisionSchema,
     prompt,
-  });
-
+    task: "retry",
+  }, { privateRepo: context?.privateRepo });
+
+  const next = retryDecision.should_retry && retryDecision.next_gpu ? getGpuByName(retryDecision.next_gpu) : undefined;
+  const violations = next
+    ? getConstraintViolations({ ...next, count: retryDecision.next_gpu_count || 1 }, context?.constraints)
+    : [];
+  if (violations.length > 0) {
+    return {
+      ...retryDecision,
+      should_retry: false,
+      thinking: `${retryDecision.thinking}\n\nNot retrying: ${violations.map((v) => v.message).join("; ")}.`,
+    };
+  }
   return retryDecision;
 }
 
+/**
+ * Resolve the Broker's picks against the catalog and build the scenarios.
+ * Picks that break the repository's constraints are replaced by the
+ * cheapest compliant configurations that fit; when none fits, the Broker's
+ * pick is kept and the violations are reported.
+ */
+export function brokerOutputToMatch(
+  needs: SpecialistOutput,
+  output: BrokerOutput,
+  constraints?: LaunchableConstraints | null
+): MatchResult {
+  const recommended = getGpuByName(output.recommended_gpu);
+  const alternative = output.alternative_gpu && output.alternative_gpu !== "none"
+    ? getGpuByName(output.alternative_gpu)
+    : null;
+
+  let best: BrevInstance | null = recommended ? { ...recommended, count: output.gpu_count } : null;
+  let second_best: BrevInstance | null = alternative ? { ...alternative, count: output.gpu_count } : null;
+
+  const constraintViolations = [best, second_best].flatMap((instance) =>
+    instance ? getConstraintViolations(instance, constraints) : []
+  );
+  let constraintsUnsatisfiable = false;
+  if (constraintViolations.length > 0) {
+    const configurations = getCatalogConfigurations();
+    if (best && getConstraintViolations(best, constraints).length > 0) {
+      const compliant = findBestInstance(needs, configurations, constraints).best;
+      constraintsUnsatisfiable = !compliant;
+      best = compliant ?? best;
+    }
+    if (second_best && getConstraintViolations(second_best, constraints).length > 0) {
+      // A different GPU, in case the first is out of stock
+      second_best = findBestInstance(needs, configurations.filter((gpu) => gpu.name !== best?.name), constraints).best;
+    }
+  }
+
+  return {
+    best,
+    second_best,
+    scenarios: buildGpuScenarios(needs, best, output, constraints),
+    ...(constraintViolations.length > 0 ? { constraintViolations, constraintsUnsatisfiable } : {}),
+  };
+}
+
+/**
+ * Broker reasoning followed by the selected instance, shown as the recommendation
+ */
+export function formatBrokerRecommendation(output: BrokerOutput, match: MatchResult): string {
+  const { best, second_best } = match;
+  let recommendation = output.thinking;
+  if (!best) return recommendation;
+
+  recommendation += `\n\n**Selected GPU: ${best.name}${best.count > 1 ? ` × ${best.count}` : ''}**\n`;
+  recommendation += `• VRAM: ${best.vram}GB${best.count > 1 ? ` × ${best.count} = ${best.vram * best.count}GB total` : ''}\n`;
+  recommendation += `• Architecture: ${best.arch}\n`;
+  recommendation += `• Price: $${best.price.toFixed(2)}/hour\n`;
+  recommendation += `• Confidence: ${output.match_confidence}\n`;
+  if (output.cost_optimization_notes) {
+    recommendation += `\n**Cost Notes:** ${output.cost_optimization_notes}`;
+  }
+  if (second_best) {
+    recommendation += `\n\n**Alternative (if out of stock):** ${second_best.name} (${second_best.vram}GB)`;
+  }
+  if (match.constraintViolations) {
+    recommendation += match.constraintsUnsatisfiable
+      ? `\n\n**Breaks repository constraints:** ${match.constraintViolations.map((v) => v.message).join("; ")}`
+      : `\n\n**Adjusted for repository constraints:** ${match.constraintViolations.map((v) => `${v.gpu}: ${v.message}`).join("; ")}`;
+  }
+  return recommendation;
+}
+
 /**
  * Convert BrokerOutput to BrevInstance for compatibility with existing code
  */
@@ -212,31 +390,52 @@ export function brokerOutputToInstance(output: BrokerOutput): BrevInstance | nul
 }
 
 /**
- * Legacy function for backwards compatibility - uses rule-based matching
+ * Whether an instance meets the architecture requirement and fits in one node,
+ * judged by the catalog's compute capability and max GPUs per node
+ */
+function isCompatibleInstance(instance: BrevInstance, requiredArch: string): boolean {
+  const spec = getGpuByName(instance.name);
+  if (!spec) return requiredArch === "Any";
+  return supportsArchitecture(spec, requiredArch) && instance.count <= spec.maxGpusPerNode;
+}
+
+/** Priced catalog GPUs at each scenario GPU count they support */
+function getCatalogConfigurations(): BrevInstance[] {
+  return getGpuCatalog()
+    .filter((gpu) => gpu.price > 0 && gpu.available !== false)
+    .flatMap((gpu) => SCENARIO_GPU_COUNTS.filter((count) => count <= gpu.maxGpusPerNode).map((count) => ({ ...gpu, count })));
+}
+
+/**
+ * Rule-based matching: the cheapest priced instance that fits and complies
+ * with the repository's constraints. Also the fallback when the Broker's pick does not.
  */
 export function findBestInstance(
   needs: SpecialistOutput,
-  inventory: BrevInstance[]
+  inventory: BrevInstance[],
+  constraints?: LaunchableConstraints | null
 ): MatchResult {
-  const ARCH_COMPATIBILITY: Record<string, string[]> = {
-    Any: ["Blackwell", "Hopper", "Ada", "Ampere", "Turing", "Volta", "Pascal", "Maxwell"],
-    Ampere: ["Ampere", "Hopper", "Ada", "Blackwell"],
-    Hopper: ["Hopper", "Blackwell"],
-    Ada: ["Ada", "Hopper", "Blackwell"],
-  };
-
   const requiredArch = needs.recommended_gpu_architecture;
-  const compatibleArchs = ARCH_COMPATIBILITY[requiredArch] || ARCH_COMPATIBILITY.Any;
+  const sizing = getWorkloadSizingRule(needs.workload_type);
+  const requiredVram = needs.estimated_vram_gb;
+  const perGpuVram = getPerGpuVram(needs);
 
   const suitable = inventory
     .filter((instance) => {
       const totalVram = instance.vram * instance.count;
-      if (totalVram < needs.estimated_vram_gb) return false;
+      if (totalVram < requiredVram || instance.vram < perGpuVram) return false;
       if (needs.requires_multi_gpu && instance.count < 2) return false;
-      if (!compatibleArchs.includes(instance.arch)) return false;
-      return true;
+      // Single-GPU workloads only go multi-GPU when no single card fits
+      if (sizing.preferSingleGpu && instance.count > 1 && instance.vram >= requiredVram) return false;
+      if (!isCompatibleInstance(instance, requiredArch)) return false;
+      // Synced as out of stock for this account
+      if (getGpuByName(instance.name)?.available === false) return false;
+      // Without a price the GPU would rank as free
+      if (instance.price <= 0) return false;
+      return getConstraintViolations(instance, constraints).length === 0;
     })
     .sort((a, b) => {
+      if (sizing.preferSingleGpu && a.count !== b.count) return a.count - b.count;
       if (a.price !== b.price) return a.price - b.price;
       return a.vram * a.count - b.vram * b.count;
     });
@@ -247,6 +446,122 @@ export function findBestInstance(
   };
 }
 
+/**
+ * Relative throughput of an instance configuration
+ */
+function estimateThroughput(instance: BrevInstance, precision: Precision): number {
+  return (getPeakTflops(instance, precision) ?? 0) * instance.count * getScalingEfficiency(instance.count);
+}
+
+function toScenario(
+  kind: GpuScenario["kind"],
+  instance: BrevInstance,
+  requiredVram: number,
+  rationale: string
+): GpuScenario {
+  const totalVram = instance.vram * instance.count;
+  const headroomGb = totalVram - requiredVram;
+  const labels: Record<GpuScenario["kind"], string> = {
+    cheapest: "Cheapest that fits",
+    recommended: "Recommended",
+    fastest: "Fastest time-to-result",
+  };
+
+  return {
+    kind,
+    label: labels[kind],
+    instance,
+    hourlyCost: Math.round(instance.price * instance.count * 100) / 100,
+    headroomGb: Math.round(headroomGb * 10) / 10,
+    headroomPercent: requiredVram > 0 ? Math.round((headroomGb / requiredVram) * 100) : 100,
+    rationale,
+  };
+}
+
+/**
+ * Build the ranked scenario set shown to the user before provisioning:
+ * the cheapest configuration that fits, the Broker's recommendation and the
+ * fastest configuration for the workload. Configurations are drawn from the
+ * catalog (priced, available GPUs only) at 1, 2, 4 or 8 GPUs, up to each
+ * GPU's max per node.
+ */
+export function buildGpuScenarios(
+  needs: SpecialistOutput,
+  recommended: BrevInstance | null,
+  brokerOutput?: BrokerOutput,
+  constraints?: LaunchableConstraints | null
+): GpuScenario[] {
+  const sizing = getWorkloadSizingRule(needs.workload_type);
+  const requiredVram = needs.estimated_vram_gb;
+  const perGpuVram = getPerGpuVram(needs);
+
+  const candidates: GpuCatalogEntry[] = [];
+  for (const gpu of getGpuCatalog()) {
+    if (gpu.price <= 0 || gpu.available === false || !supportsArchitecture(gpu, needs.recommended_gpu_architecture)) continue;
+    // A card smaller than the per-GPU share fits at no count
+    if (gpu.vram < perGpuVram) continue;
+    for (const count of SCENARIO_GPU_COUNTS.filter((n) => n <= gpu.maxGpusPerNode)) {
+      if (gpu.vram * count < requiredVram) continue;
+      if ((needs.requires_multi_gpu || constraints?.requireMultiGpu) && count < 2) continue;
+      // A larger count of the same GPU would only cost more
+      if (getConstraintViolations({ ...gpu, count }, constraints).length > 0) break;
+      candidates.push({ ...gpu, count });
+      // More GPUs of the same kind only add cost once the job fits
+      break;
+    }
+  }
+
+  const scenarios: GpuScenario[] = [];
+
+  const cheapest = [...candidates].sort((a, b) =>
+    a.price * a.count - b.price * b.count || b.vram * b.count - a.vram * a.count
+  )[0];
+  if (cheapest) {
+    scenarios.push(toScenario(
+      "cheapest",
+      cheapest,
+      requiredVram,
+      `Lowest hourly cost that holds the ${requiredVram}GB sized requirement. Little margin for larger batches or longer sequences.`
+    ));
+  }
+
+  if (recommended) {
+    const confidence = brokerOutput ? ` (${brokerOutput.match_confidence} confidence)` : "";
+    scenarios.push(toScenario(
+      "recommended",
+      recommended,
+      requiredVram,
+      `Broker's pick${confidence}, balancing headroom, architecture and cost.${brokerOutput?.cost_optimization_notes ? ` ${brokerOutput.cost_optimization_notes}` : ""}`
+    ));
+  }
+
+  // Training-style workloads scale out; single-GPU workloads only pick the fastest card
+  const fastestPool = sizing.preferSingleGpu
+    ? candidates
+    : candidates.flatMap((gpu) =>
+        SCENARIO_GPU_COUNTS
+          .filter((count) => count >= gpu.count && count <= gpu.maxGpusPerNode)
+          .map((count) => ({ ...gpu, count }))
+          .filter((instance) => getConstraintViolations(instance, constraints).length === 0)
+      );
+  const precision = needs.memory_inputs.precision;
+  const fastest = [...fastestPool].sort((a, b) =>
+    estimateThroughput(b, precision) - estimateThroughput(a, precision) || a.price * a.count - b.price * b.count
+  )[0];
+  if (fastest) {
+    scenarios.push(toScenario(
+      "fastest",
+      fastest,
+      requiredVram,
+      sizing.preferSingleGpu
+        ? `Fastest single configuration for ${sizing.label.toLowerCase()}; adding GPUs would not shorten the job.`
+        : `Highest aggregate throughput (~${Math.round(estimateThroughput(fastest, precision))} ${precision} TFLOPS) to minimize wall-clock time for ${sizing.label.toLowerCase()}.`
+    ));
+  }
+
+  return scenarios;
+}
+
 export function generateRecommendationSummary(
   needs: SpecialistOutput,
   match: MatchResult
@@ -261,6 +576,7 @@ export function generateRecommendationSummary(
   summary += `- Architecture: ${match.best.arch}\n`;
   summary += `- Price: $${match.best.price.toFixed(2)}/hr\n\n`;
   summary += `**Your Requirements:**\n`;
+  summary += `- Workload: ${getWorkloadSizingRule(needs.workload_type).label}\n`;
   summary += `- Estimated VRAM: ${needs.estimated_vram_gb}GB\n`;
   summary += `- Architecture: ${needs.recommended_gpu_architecture}\n`;
   summary += `- Multi-GPU: ${needs.requires_multi_gpu ? "Yes" : "No"}\n`;
@@ -0,0 +1,127 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadGpuCatalog, mergeCatalog, parseBrevInstanceTypes, type BrevInstanceType } from "@/lib/catalog-sync";
+import { BREV_GPU_CATALOG, setActiveGpuCatalog } from "@/lib/gpu-catalog";
+
+const HOUR = 60 * 60 * 1000;
+
+const dir = mkdtempSync(join(tmpdir(), "catalog-sync-test-"));
+const cachePath = join(dir, "gpu-catalog.json");
+
+const rows: BrevInstanceType[] = [
+  { type: "g5.xlarge", gpu: "A10G", gpuCount: 1, pricePerHour: 1.1, provider: "aws", available: true },
+  { type: "a100-40gb", gpu: "A100", gpuCount: 2, vram: 40, pricePerHour: 2.6, provider: "gcp", available: false },
+];
+
+function writeCache(fetchedAt: Date, instanceTypes: BrevInstanceType[] = rows) {
+  writeFileSync(cachePath, JSON.stringify({ fetchedAt: fetchedAt.toISOString(), instanceTypes }));
+}
+
+/** Fake CLI: records each command and answers with `output`, or fails */
+function fakeRunner(output: string | Error) {
+  const commands: string[] = [];
+  const runner = async (command: string) => {
+    commands.push(command);
+    if (output instanceof Error) throw output;
+    return output;
+  };
+  return { runner, commands };
+}
+
+beforeEach(() => rmSync(cachePath, { force: true }));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+  setActiveGpuCatalog(BREV_GPU_CATALOG);
+});
+
+describe("parseBrevInstanceTypes", () => {
+  test("reads wrapped JSON with aliased keys", () => {
+    const output = JSON.stringify({
+      instance_types: [
+        { instance_type: "g5.xlarge", gpu_name: "A10G", gpu_count: "1", price: "$1.10/hr", cloud: "aws", status: "available" },
+        { name: "n1-t4", gpu: "T4", gpus: 4, price_per_hour: 1.4, is_available: false },
+        { name: "cpu-only", price: 0.2 },
+      ],
+    });
+    expect(parseBrevInstanceTypes(output)).toEqual([
+      { type: "g5.xlarge", gpu: "A10G", gpuCount: 1, vram: undefined, pricePerHour: 1.1, provider: "aws", available: true },
+      { type: "n1-t4", gpu: "T4", gpuCount: 4, vram: undefined, pricePerHour: 1.4, provider: "brev", available: false },
+    ]);
+  });
+
+  test("reads a whitespace-aligned table", () => {
+    const output = [
+      "TYPE          GPU     GPU COUNT  VRAM  PRICE   PROVIDER",
+      "a2-highgpu    A100    8          40    $29.39  gcp",
+      "g6.xlarge     L4      1          24    $0.80   aws",
+    ].join("\n");
+    expect(parseBrevInstanceTypes(output)).toEqual([
+      { type: "a2-highgpu", gpu: "A100", gpuCount: 8, vram: 40, pricePerHour: 29.39, provider: "gcp", available: true },
+      { type: "g6.xlarge", gpu: "L4", gpuCount: 1, vram: 24, pricePerHour: 0.8, provider: "aws", available: true },
+    ]);
+  });
+
+  test("returns nothing for empty output", () => {
+    expect(parseBrevInstanceTypes("  \n")).toEqual([]);
+  });
+});
+
+describe("mergeCatalog", () => {
+  const merged = mergeCatalog(BREV_GPU_CATALOG, rows);
+  const byName = (name: string) => merged.find((gpu) => gpu.name === name)!;
+
+  test("overlays per-GPU prices and availability", () => {
+    expect(byName("A10G")).toMatchObject({ price: 1.1, providerPrices: [{ provider: "aws", price: 1.1 }], available: true });
+    // Matched to the 40GB entry by VRAM, priced per GPU
+    expect(byName("A100-40GB")).toMatchObject({ price: 1.3, available: false });
+  });
+
+  test("keeps GPUs the CLI did not report as they were", () => {
+    const static100 = BREV_GPU_CATALOG.find((gpu) => gpu.name === "A100")!;
+    expect(byName("A100")).toEqual(static100);
+    expect(byName("A100").available).toBeUndefined();
+  });
+});
+
+describe("loadGpuCatalog", () => {
+  test("uses a fresh cache without running the CLI", async () => {
+    writeCache(new Date());
+    const { runner, commands } = fakeRunner(new Error("should not run"));
+
+    const snapshot = await loadGpuCatalog({ runner, cachePath });
+    expect(commands).toEqual([]);
+    expect(snapshot).toMatchObject({ source: "cache", stale: false });
+    expect(snapshot.catalog.find((gpu) => gpu.name === "A10G")?.price).toBe(1.1);
+  });
+
+  test("refreshes a stale cache from the CLI and rewrites it", async () => {
+    writeCache(new Date(Date.now() - 7 * HOUR));
+    const { runner, commands } = fakeRunner(JSON.stringify([{ type: "g6.xlarge", gpu: "L4", price: 0.8 }]));
+
+    const snapshot = await loadGpuCatalog({ runner, cachePath });
+    expect(commands).toHaveLength(1);
+    expect(snapshot).toMatchObject({ source: "live", stale: false });
+    expect(snapshot.catalog.find((gpu) => gpu.name === "L4")?.price).toBe(0.8);
+    expect(JSON.parse(readFileSync(cachePath, "utf-8")).instanceTypes).toHaveLength(1);
+  });
+
+  test("falls back to a stale cache when the CLI fails", async () => {
+    writeCache(new Date(Date.now() - 7 * HOUR));
+    const { runner } = fakeRunner(new Error("brev: command not found"));
+
+    const snapshot = await loadGpuCatalog({ runner, cachePath });
+    expect(snapshot).toMatchObject({ source: "cache", stale: true, error: "brev: command not found" });
+    expect(snapshot.catalog.find((gpu) => gpu.name === "A10G")?.price).toBe(1.1);
+  });
+
+  test("falls back to the static catalog without a cache", async () => {
+    const { runner } = fakeRunner("");
+
+    const snapshot = await loadGpuCatalog({ runner, cachePath });
+    expect(snapshot).toMatchObject({ source: "static", fetchedAt: null, stale: true, error: "Brev CLI returned no instance types" });
+    expect(snapshot.catalog).toBe(BREV_GPU_CATALOG);
+  });
+});
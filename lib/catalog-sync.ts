@@ -0,0 +1,269 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import type { GpuCatalogEntry, GpuCatalogSnapshot } from "@/types/agentSchemas";
+import { BREV_GPU_CATALOG, getLowestPrice, setActiveGpuCatalog } from "@/lib/gpu-catalog";
+import { runBrevCommand } from "@/lib/brev-api";
+import { getFixtureMode, withFixture } from "@/lib/fixtures";
+
+/**
+ * Live GPU catalog sync.
+ *
+ * Refreshes prices and availability from the Brev CLI's instance-type listing,
+ * merges them onto the static catalog (which still supplies the hardware
+ * specs) and caches the parsed rows on disk. When the CLI is missing or fails,
+ * the last cached sync is used, then the static list.
+ */
+
+/** Runs a shell command and resolves with its stdout; swap it out to fake the CLI */
+export type CommandRunner = (command: string) => Promise<string>;
+
+/** One launchable instance type as reported by the Brev CLI */
+export interface BrevInstanceType {
+  type: string;
+  gpu: string;
+  gpuCount: number;
+  /** VRAM per GPU in GB, when reported */
+  vram?: number;
+  /** Hourly price for the whole instance */
+  pricePerHour: number;
+  provider: string;
+  available: boolean;
+}
+
+export interface CatalogSyncOptions {
+  runner?: CommandRunner;
+  cachePath?: string;
+  /** Cached data older than this is refreshed (and reported stale if refresh fails) */
+  maxAgeMs?: number;
+  /** Skip a fresh cache and query the CLI */
+  forceRefresh?: boolean;
+}
+
+interface CatalogCacheFile {
+  fetchedAt: string;
+  instanceTypes: BrevInstanceType[];
+}
+
+const DEFAULT_COMMAND = "brev instance-types --json";
+const DEFAULT_CACHE_PATH = join(tmpdir(), "brev-doctor", "gpu-catalog.json");
+const DEFAULT_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+/** Column / key aliases seen across CLI versions */
+const FIELD_ALIASES: Record<keyof BrevInstanceType, string[]> = {
+  type: ["type", "instance_type", "instancetype", "name"],
+  gpu: ["gpu", "gpu_name", "gpuname", "gpu_type", "gputype"],
+  gpuCount: ["gpu_count", "gpucount", "gpus", "count"],
+  vram: ["vram", "gpu_memory", "gpumemory", "memory_per_gpu", "vram_gb"],
+  pricePerHour: ["price", "price_per_hour", "priceperhour", "cost_per_hour", "hourly_price", "$/hr"],
+  provider: ["provider", "cloud", "cloud_provider", "cloudprovider"],
+  available: ["available", "is_available", "availability", "status"],
+};
+
+function pickField(record: Record<string, unknown>, field: keyof BrevInstanceType): unknown {
+  for (const alias of FIELD_ALIASES[field]) {
+    const value = record[alias];
+    if (value !== undefined && value !== null && value !== "") return value;
+  }
+  return undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return undefined;
+  const parsed = parseFloat(value.replace(/[$,]|\/h(?:ou)?r/gi, ""));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toAvailable(value: unknown): boolean {
+  if (value === undefined) return true;
+  if (typeof value === "boolean") return value;
+  return /^(true|yes|available|in[ _-]?stock)$/i.test(String(value).trim());
+}
+
+function normalizeRecord(record: Record<string, unknown>): BrevInstanceType | null {
+  const lowered = Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key.toLowerCase().replace(/\s+/g, "_"), value])
+  );
+  const gpu = pickField(lowered, "gpu");
+  const price = toNumber(pickField(lowered, "pricePerHour"));
+  if (!gpu || price === undefined) return null;
+
+  return {
+    type: String(pickField(lowered, "type") ?? gpu),
+    gpu: String(gpu),
+    gpuCount: toNumber(pickField(lowered, "gpuCount")) || 1,
+    vram: toNumber(pickField(lowered, "vram")),
+    pricePerHour: price,
+    provider: String(pickField(lowered, "provider") ?? "brev"),
+    available: toAvailable(pickField(lowered, "available")),
+  };
+}
+
+/**
+ * Parse `brev` instance-type output, either JSON (array or wrapped in an
+ * `instance_types` / `items` key) or a whitespace-aligned table with a header row
+ */
+export function parseBrevInstanceTypes(output: string): BrevInstanceType[] {
+  const trimmed = output.trim();
+  if (!trimmed) return [];
+
+  let records: Record<string, unknown>[];
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    const parsed = JSON.parse(trimmed);
+    records = Array.isArray(parsed) ? parsed : parsed.instance_types ?? parsed.instanceTypes ?? parsed.items ?? [];
+  } else {
+    const [header, ...lines] = trimmed.split("\n").filter((line) => line.trim());
+    const columns = header.trim().split(/\s{2,}|\t/);
+    records = lines.map((line) => {
+      const cells = line.trim().split(/\s{2,}|\t/);
+      return Object.fromEntries(columns.map((column, i) => [column, cells[i]]));
+    });
+  }
+
+  return records
+    .map(normalizeRecord)
+    .filter((row): row is BrevInstanceType => row !== null);
+}
+
+function normalizeGpuName(name: string): string {
+  return name.toUpperCase().replace(/NVIDIA|[\s_-]/g, "");
+}
+
+/**
+ * Catalog entry an instance type refers to, e.g. "A100" with 40GB → "A100-40GB"
+ */
+function findCatalogEntry(row: BrevInstanceType, catalog: GpuCatalogEntry[]): GpuCatalogEntry | undefined {
+  const name = normalizeGpuName(row.gpu);
+  const matches = catalog.filter((entry) => {
+    const entryName = normalizeGpuName(entry.name);
+    return entryName === name || entryName === `${name}${row.vram}GB` || name === `${entryName}${entry.vram}GB`;
+  });
+  return matches.find((entry) => entry.vram === row.vram) ?? matches[0];
+}
+
+/**
+ * Overlay synced prices and availability onto the static catalog. GPUs the
+ * CLI did not report keep their static price and unknown availability.
+ */
+export function mergeCatalog(
+  catalog: GpuCatalogEntry[],
+  instanceTypes: BrevInstanceType[]
+): GpuCatalogEntry[] {
+  const rowsByGpu = new Map<string, BrevInstanceType[]>();
+  for (const row of instanceTypes) {
+    const entry = findCatalogEntry(row, catalog);
+    if (!entry) continue;
+    rowsByGpu.set(entry.name, [...(rowsByGpu.get(entry.name) ?? []), row]);
+  }
+
+  return catalog.map((entry) => {
+    const rows = rowsByGpu.get(entry.name);
+    if (!rows) return entry;
+
+    // Lowest per-GPU price each provider offers
+    const byProvider = new Map<string, number>();
+    for (const row of rows) {
+      const perGpu = Math.round((row.pricePerHour / row.gpuCount) * 100) / 100;
+      byProvider.set(row.provider, Math.min(perGpu, byProvider.get(row.provider) ?? Infinity));
+    }
+    const providerPrices = [...byProvider].map(([provider, price]) => ({ provider, price }));
+
+    return {
+      ...entry,
+      providerPrices,
+      price: getLowestPrice(providerPrices),
+      available: rows.some((row) => row.available),
+      maxGpusPerNode: Math.max(entry.maxGpusPerNode, ...rows.map((row) => row.gpuCount)),
+    };
+  });
+}
+
+async function readCache(cachePath: string): Promise<CatalogCacheFile | null> {
+  try {
+    const cache = JSON.parse(await readFile(cachePath, "utf-8")) as CatalogCacheFile;
+    return cache.fetchedAt && Array.isArray(cache.instanceTypes) ? cache : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(cachePath: string, cache: CatalogCacheFile): Promise<void> {
+  try {
+    await mkdir(dirname(cachePath), { recursive: true });
+    await writeFile(cachePath, JSON.stringify(cache, null, 2));
+  } catch (error) {
+    console.error("Failed to write GPU catalog cache:", error);
+  }
+}
+
+function isOlderThan(fetchedAt: string, maxAgeMs: number): boolean {
+  return Date.now() - new Date(fetchedAt).getTime() > maxAgeMs;
+}
+
+function toSnapshot(
+  cache: CatalogCacheFile,
+  source: "live" | "cache",
+  maxAgeMs: number,
+  error?: string
+): GpuCatalogSnapshot {
+  return {
+    catalog: mergeCatalog(BREV_GPU_CATALOG, cache.instanceTypes),
+    source,
+    fetchedAt: cache.fetchedAt,
+    stale: isOlderThan(cache.fetchedAt, maxAgeMs),
+    error,
+  };
+}
+
+/**
+ * Load the GPU catalog, refreshing from the Brev CLI when the cache is missing
+ * or older than `maxAgeMs`. The result also becomes the catalog the agents use.
+ */
+export async function loadGpuCatalog(options: CatalogSyncOptions = {}): Promise<GpuCatalogSnapshot> {
+  const runner = options.runner ?? ((command: string) => runBrevCommand(command));
+  const cachePath = options.cachePath ?? process.env.BREV_CATALOG_CACHE_PATH ?? DEFAULT_CACHE_PATH;
+  const maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  const command = process.env.BREV_INSTANCE_TYPES_COMMAND ?? DEFAULT_COMMAND;
+
+  // Fixture runs must not depend on whatever cache this machine has
+  const useCache = getFixtureMode() === "off";
+  const cache = useCache ? await readCache(cachePath) : null;
+  let snapshot: GpuCatalogSnapshot;
+
+  if (cache && !options.forceRefresh && !isOlderThan(cache.fetchedAt, maxAgeMs)) {
+    snapshot = toSnapshot(cache, "cache", maxAgeMs);
+  } else {
+    try {
+      const output = await withFixture("brev", command, () => runner(command));
+      const instanceTypes = parseBrevInstanceTypes(output);
+      if (instanceTypes.length === 0) {
+        throw new Error("Brev CLI returned no instance types");
+      }
+      const fresh = { fetchedAt: new Date().toISOString(), instanceTypes };
+      if (useCache) await writeCache(cachePath, fresh);
+      snapshot = toSnapshot(fresh, "live", maxAgeMs);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error("GPU catalog sync failed:", errorMessage);
+      snapshot = cache
+        ? toSnapshot(cache, "cache", maxAgeMs, errorMessage)
+        : { catalog: BREV_GPU_CATALOG, source: "static", fetchedAt: null, stale: true, error: errorMessage };
+    }
+  }
+
+  setActiveGpuCatalog(snapshot.catalog);
+  return snapshot;
+}
+
+/**
+ * Snapshot metadata without the catalog itself, for step data and the UI
+ */
+export function getCatalogSyncStatus(snapshot: GpuCatalogSnapshot): Omit<GpuCatalogSnapshot, "catalog"> {
+  return {
+    source: snapshot.source,
+    fetchedAt: snapshot.fetchedAt,
+    stale: snapshot.stale,
+    error: snapshot.error,
+  };
+}
@@ -0,0 +1,274 @@
+import type { CommandFinding } from "@/types/agentSchemas";
+
+/**
+ * Static checks for the Specialist's `setup_commands` before they are
+ * written into `.brev/setup.sh`.
+ *
+ * Commands are split into pipelines and words (quotes respected) and each
+ * stage is matched against rules for piping downloads into a shell,
+ * destructive deletes, world-writable permissions, credential leaks and
+ * typosquatted pip packages. Pure, so the confirmation UI can run it too.
+ */
+
+/** Hosts whose install scripts are commonly piped into a shell */
+const TRUSTED_INSTALL_HOSTS = [
+  "astral.sh",
+  "sh.rustup.rs",
+  "install.python-poetry.org",
+  "get.docker.com",
+  "ollama.com",
+  "pyenv.run",
+];
+
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "python", "python3"]);
+
+/** Paths a recursive delete must never target */
+const PROTECTED_PATHS = new Set([
+  "/", "/*", "~", "~/", "~/*", "$HOME", "${HOME}", "$HOME/", "${HOME}/", ".", "./", "..", "*",
+  "/usr", "/etc", "/var", "/bin", "/boot", "/home", "/root", "/lib", "/opt",
+]);
+
+const SECRET_VARIABLE = /\$\{?([A-Z0-9_]*(TOKEN|SECRET|PASSWORD|PASSWD|API_KEY|ACCESS_KEY|PRIVATE_KEY|CREDENTIALS?)[A-Z0-9_]*)\}?/;
+const CREDENTIAL_FILES = /(~|\$HOME|\$\{HOME\})\/(\.ssh\/|\.aws\/credentials|\.netrc|\.git-credentials|\.cache\/huggingface\/token)/;
+const LITERAL_CREDENTIALS: Array<[RegExp, string]> = [
+  [/\bgh[pousr]_[A-Za-z0-9]{20,}/, "GitHub token"],
+  [/\bhf_[A-Za-z0-9]{20,}/, "Hugging Face token"],
+  [/\bsk-[A-Za-z0-9_-]{20,}/, "API key"],
+  [/\bAKIA[0-9A-Z]{16}\b/, "AWS access key"],
+];
+
+/** Widely used packages that typosquats imitate (PEP 503 normalized) */
+const POPULAR_PACKAGES = [
+  "torch", "torchvision", "torchaudio", "transformers", "accelerate", "datasets", "diffusers", "peft", "trl",
+  "bitsandbytes", "deepspeed", "vllm", "xformers", "flash-attn", "triton", "numpy", "scipy", "pandas",
+  "scikit-learn", "matplotlib", "requests", "tensorflow", "jax", "jaxlib", "sentencepiece", "tokenizers",
+  "safetensors", "huggingface-hub", "einops", "openai", "langchain", "wandb", "tqdm", "pillow", "opencv-python",
+  "fastapi", "uvicorn", "pydantic", "onnxruntime", "ninja", "setuptools", "protobuf", "tiktoken", "timm",
+  "lightning", "pytorch-lightning", "evaluate", "gradio", "sentence-transformers", "urllib3", "boto3",
+];
+
+const PIP_OPTIONS_WITH_VALUE = new Set([
+  "-r", "--requirement", "-c", "--constraint", "-i", "--index-url", "--extra-index-url", "-f", "--find-links",
+  "-t", "--target", "--prefix", "--python", "-e", "--editable",
+]);
+
+/**
+ * Split a command into pipelines (separated by `&&`, `||`, `;`) of stages
+ * (separated by `|`), each a list of words with quotes removed
+ */
+export function parseCommand(command: string): string[][][] {
+  const pipelines: string[][][] = [[[]]];
+  let word = "";
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  const stage = () => pipelines[pipelines.length - 1].at(-1)!;
+  const endWord = () => {
+    if (inWord) stage().push(word);
+    word = "";
+    inWord = false;
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      else word += char;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else if ((char === "&" || char === "|") && command[i + 1] === char) {
+      endWord();
+      pipelines.push([[]]);
+      i++;
+    } else if (char === ";") {
+      endWord();
+      pipelines.push([[]]);
+    } else if (char === "|") {
+      endWord();
+      pipelines[pipelines.length - 1].push([]);
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+  endWord();
+
+  return pipelines.map((pipeline) => pipeline.filter((words) => words.length > 0)).filter((pipeline) => pipeline.length > 0);
+}
+
+/** Drop `sudo` and `VAR=value` prefixes */
+function stripPrefixes(words: string[]): { words: string[]; sudo: boolean } {
+  let index = 0;
+  let sudo = false;
+  while (index < words.length && (words[index] === "sudo" || words[index] === "env" || /^[A-Za-z_]\w*=/.test(words[index]))) {
+    if (words[index] === "sudo") sudo = true;
+    index++;
+  }
+  return { words: words.slice(index), sudo };
+}
+
+function urlHost(words: string[]): string | null {
+  const url = words.find((word) => /^https?:\/\//.test(word));
+  if (!url) return null;
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+function isTrustedHost(host: string | null): boolean {
+  return !!host && TRUSTED_INSTALL_HOSTS.some((trusted) => host === trusted || host.endsWith(`.${trusted}`));
+}
+
+/** PEP 503 normalized name of a requirement such as `Torch[cuda]>=2.1` */
+function packageName(requirement: string): { name: string; pinned: boolean } {
+  const name = requirement.split(/[\[<>=!~;@ ]/)[0].toLowerCase().replace(/[-_.]+/g, "-");
+  return { name, pinned: /==|@/.test(requirement) };
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+/** Popular package a name is one or two edits away from */
+function typosquatTarget(name: string): string | null {
+  if (POPULAR_PACKAGES.includes(name)) return null;
+  const maxDistance = name.length >= 8 ? 2 : 1;
+  return POPULAR_PACKAGES.find((popular) => editDistance(name, popular) <= maxDistance) ?? null;
+}
+
+/** Package arguments of `pip install`, `pip3 install`, `python -m pip install` or `uv pip install` */
+function pipInstallPackages(words: string[]): string[] | null {
+  const start = words.findIndex((word, i) => word === "install" && (words[i - 1] === "pip" || words[i - 1] === "pip3"));
+  if (start === -1 || !/^(pip3?|python3?|uv)$/.test(words[0])) return null;
+
+  const packages: string[] = [];
+  for (let i = start + 1; i < words.length; i++) {
+    if (PIP_OPTIONS_WITH_VALUE.has(words[i])) i++;
+    else if (!words[i].startsWith("-") && !/[/\\]|^\.|\.(whl|tar\.gz|zip)$/.test(words[i])) packages.push(words[i]);
+  }
+  return packages;
+}
+
+function checkStage(command: string, stage: string[], findings: CommandFinding[]) {
+  const { words, sudo } = stripPrefixes(stage);
+  const [program, ...args] = words;
+  const add = (finding: Omit<CommandFinding, "command">) => findings.push({ command, ...finding });
+
+  if (program === "rm") {
+    const flags = args.filter((arg) => arg.startsWith("-")).join("");
+    const recursive = /-[a-zA-Z]*[rR]|--recursive/.test(flags);
+    const target = args.find((arg) => !arg.startsWith("-") && PROTECTED_PATHS.has(arg.replace(/\/+$/, "") || "/"));
+    if (args.includes("--no-preserve-root") || (recursive && target)) {
+      add({
+        rule: "destructive-rm",
+        severity: "block",
+        message: target ? `Recursively deletes ${target}` : "Deletes with --no-preserve-root",
+      });
+    }
+  }
+
+  if (program === "chmod" && args.some((arg) => /^0?777$|^(a|o|ugo)\+[rx]*w/.test(arg))) {
+    const systemPath = args.some((arg) => arg.startsWith("/") && !arg.startsWith("/tmp"));
+    add({
+      rule: "world-writable",
+      severity: sudo || systemPath ? "block" : "warn",
+      message: `Makes files world-writable${sudo ? " as root" : ""}`,
+    });
+  }
+
+  if (program === "echo" || program === "printf" || program === "cat" || program === "printenv" || program === "env" || program === "set") {
+    const secret = words.join(" ").match(SECRET_VARIABLE);
+    if (secret && program !== "cat") {
+      const redirected = words.some((word) => word.startsWith(">"));
+      add({
+        rule: "credential-exposure",
+        severity: "block",
+        message: redirected ? `Writes ${secret[1]} to a file in plain text` : `Prints ${secret[1]} into the setup log`,
+      });
+    } else if (program === "cat" && args.some((arg) => CREDENTIAL_FILES.test(arg))) {
+      add({ rule: "credential-exposure", severity: "block", message: "Prints a credential file into the setup log" });
+    } else if ((program === "printenv" || program === "env" || program === "set") && args.length === 0) {
+      add({ rule: "credential-exposure", severity: "block", message: "Dumps every environment variable, including secrets, into the setup log" });
+    }
+  }
+
+  for (const requirement of pipInstallPackages(words) ?? []) {
+    const { name, pinned } = packageName(requirement);
+    const target = typosquatTarget(name);
+    if (target) {
+      add({
+        rule: "typosquat",
+        severity: "block",
+        message: `Installs "${name}"${pinned ? "" : " (unpinned)"}, which looks like a misspelling of "${target}"`,
+      });
+    }
+  }
+}
+
+/**
+ * Flag risky setup commands. Commands without findings are safe to write as is.
+ */
+export function analyzeSetupCommands(commands: string[]): CommandFinding[] {
+  const findings: CommandFinding[] = [];
+
+  for (const command of commands) {
+    for (const [pattern, label] of LITERAL_CREDENTIALS) {
+      if (pattern.test(command)) {
+        findings.push({ command, rule: "credential-exposure", severity: "block", message: `Contains a hard-coded ${label}` });
+      }
+    }
+
+    // bash <(curl ...) and sh -c "$(curl ...)"
+    const substituted = command.match(/\b(?:ba|z|da)?sh\b[^|;&]*(?:<\(|\$\()\s*(?:curl|wget)\s[^)]*\)/);
+    if (substituted && !isTrustedHost(urlHost(parseCommand(substituted[0]).flat(2)))) {
+      findings.push({ command, rule: "pipe-to-shell", severity: "block", message: "Runs a downloaded script from an unrecognized host" });
+    }
+
+    for (const pipeline of parseCommand(command)) {
+      pipeline.forEach((stage, index) => {
+        checkStage(command, stage, findings);
+
+        const { words } = stripPrefixes(stage);
+        const next = pipeline[index + 1] && stripPrefixes(pipeline[index + 1]).words[0];
+        if ((words[0] === "curl" || words[0] === "wget") && next && SHELLS.has(next)) {
+          const host = urlHost(words);
+          if (!isTrustedHost(host)) {
+            findings.push({
+              command,
+              rule: "pipe-to-shell",
+              severity: "block",
+              message: `Pipes a script from ${host ?? "an unknown host"} straight into ${next}`,
+            });
+          }
+        }
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Blocked commands that are not in `acknowledged`
+ */
+export function getUnacknowledgedCommands(findings: CommandFinding[], acknowledged: string[] = []): string[] {
+  const blocked = findings.filter((finding) => finding.severity === "block").map((finding) => finding.command);
+  return [...new Set(blocked)].filter((command) => !acknowledged.includes(command));
+}
@@ -0,0 +1,202 @@
+import { detectPythonEnvironment, requiredCudaVersion } from "@/lib/setup-script";
+import { analyzeSetupCommands } from "@/lib/command-safety";
+import type { BrevInstance, SetupScriptContext, SpecialistOutput } from "@/types/agentSchemas";
+
+/**
+ * Optional container files for running the recommended environment outside
+ * Brev: a CUDA-base Dockerfile and a dev container that uses it.
+ */
+
+export const DOCKERFILE_PATH = ".brev/Dockerfile";
+export const DEVCONTAINER_PATH = ".devcontainer/devcontainer.json";
+
+/** Oldest CUDA release with full support for each GPU architecture */
+const ARCH_MIN_CUDA: Record<string, string> = {
+  Blackwell: "12.8",
+  Hopper: "12.0",
+  Ada: "11.8",
+};
+const DEFAULT_MIN_CUDA = "11.8";
+
+/** Architectures recent NGC PyTorch releases no longer build for */
+const LEGACY_ARCHS = new Set(["Maxwell", "Pascal"]);
+
+const CUDA_IMAGES = [
+  { cuda: "11.8", image: "nvidia/cuda:11.8.0-cudnn8-devel-ubuntu22.04" },
+  { cuda: "12.1", image: "nvidia/cuda:12.1.1-cudnn8-devel-ubuntu22.04" },
+  { cuda: "12.2", image: "nvidia/cuda:12.2.2-cudnn8-devel-ubuntu22.04" },
+  { cuda: "12.4", image: "nvidia/cuda:12.4.1-cudnn-devel-ubuntu22.04" },
+  { cuda: "12.6", image: "nvidia/cuda:12.6.3-cudnn-devel-ubuntu22.04" },
+  { cuda: "12.8", image: "nvidia/cuda:12.8.1-cudnn-devel-ubuntu22.04" },
+];
+
+/** NGC PyTorch releases and the PyTorch / CUDA versions they ship */
+const NGC_PYTORCH_RELEASES = [
+  { tag: "23.10", torch: "2.1", cuda: "12.2" },
+  { tag: "24.01", torch: "2.2", cuda: "12.3" },
+  { tag: "24.04", torch: "2.3", cuda: "12.4" },
+  { tag: "24.07", torch: "2.4", cuda: "12.5" },
+  { tag: "24.10", torch: "2.5", cuda: "12.6" },
+  { tag: "25.01", torch: "2.6", cuda: "12.8" },
+];
+
+export interface BaseImage {
+  image: string;
+  /** Whether the image ships PyTorch (NGC) or only CUDA */
+  kind: "ngc-pytorch" | "cuda";
+  reason: string;
+}
+
+function compareVersions(a: string, b: string): number {
+  const [aMajor, aMinor = 0] = a.split(".").map(Number);
+  const [bMajor, bMinor = 0] = b.split(".").map(Number);
+  return aMajor - bMajor || aMinor - bMinor;
+}
+
+/**
+ * Pick a base image compatible with the instance architecture, the
+ * repository's CUDA pins and its PyTorch version
+ */
+export function selectBaseImage(instance: BrevInstance, context: SetupScriptContext): BaseImage {
+  const pinned = requiredCudaVersion(context);
+  const archMin = ARCH_MIN_CUDA[instance.arch] ?? DEFAULT_MIN_CUDA;
+  const minCuda = pinned && compareVersions(pinned, archMin) > 0 ? pinned : archMin;
+  const torch = context.repoSignals?.frameworks.find((framework) => framework.name === "torch");
+
+  if (torch && !LEGACY_ARCHS.has(instance.arch)) {
+    // The repository already builds on an NGC container
+    const ngcTag = torch.version?.match(/^NGC (\S+)/)?.[1];
+    if (ngcTag) {
+      return { image: `nvcr.io/nvidia/pytorch:${ngcTag}`, kind: "ngc-pytorch", reason: `NGC ${ngcTag} as used in ${torch.source}` };
+    }
+
+    const torchMinor = torch.version?.match(/^(\d+\.\d+)/)?.[1];
+    const release = [...NGC_PYTORCH_RELEASES]
+      .reverse()
+      .find((r) => compareVersions(r.cuda, minCuda) >= 0 && (!torchMinor || r.torch === torchMinor));
+    if (release) {
+      return {
+        image: `nvcr.io/nvidia/pytorch:${release.tag}-py3`,
+        kind: "ngc-pytorch",
+        reason: `PyTorch ${release.torch} with CUDA ${release.cuda} (${instance.arch} needs CUDA ${archMin}+${pinned ? `, repository pins ${pinned}` : ""})`,
+      };
+    }
+  }
+
+  const cudaImage = CUDA_IMAGES.find((entry) => compareVersions(entry.cuda, minCuda) >= 0) ?? CUDA_IMAGES[CUDA_IMAGES.length - 1];
+  return {
+    image: cudaImage.image,
+    kind: "cuda",
+    reason: `CUDA ${cudaImage.cuda} (${instance.arch} needs CUDA ${archMin}+${pinned ? `, repository pins ${pinned}` : ""})`,
+  };
+}
+
+export function generateDockerfile(
+  needs: SpecialistOutput,
+  instance: BrevInstance,
+  context: SetupScriptContext = { fileTree: [], repoSignals: null }
+): string {
+  const base = selectBaseImage(instance, context);
+  const env = detectPythonEnvironment(context);
+  const lines = [
+    "# Generated by Brev Doctor",
+    `# Target: ${instance.name}${instance.count > 1 ? ` × ${instance.count}` : ""} (${instance.arch})`,
+    `# Base image: ${base.reason}`,
+    `FROM ${base.image}`,
+    "",
+    "ENV DEBIAN_FRONTEND=noninteractive PIP_NO_CACHE_DIR=1",
+    "WORKDIR /workspace",
+  ];
+
+  if (base.kind === "cuda") {
+    lines.push(
+      "",
+      "RUN apt-get update && apt-get install -y --no-install-recommends python3 python3-pip python3-venv git curl \\",
+      "    && rm -rf /var/lib/apt/lists/* \\",
+      "    && ln -sf /usr/bin/python3 /usr/bin/python"
+    );
+  }
+
+  // Dependency manifests first so the install layer survives code changes
+  lines.push("");
+  if (env.manager === "uv") {
+    lines.push(
+      "RUN pip install uv",
+      "COPY pyproject.toml uv.lock ./",
+      "RUN uv sync --frozen --no-install-project",
+      `ENV PATH="/workspace/.venv/bin:$PATH"`
+    );
+  } else {
+    const envFile = env.manifests.find((manifest) => manifest.startsWith("environment."));
+    if (envFile) {
+      lines.push(
+        "RUN curl -fsSL -o /tmp/miniforge.sh \"https://github.com/conda-forge/miniforge/releases/latest/download/Miniforge3-$(uname)-$(uname -m).sh\" \\",
+        "    && bash /tmp/miniforge.sh -b -p /opt/conda && rm /tmp/miniforge.sh",
+        `ENV PATH="/opt/conda/bin:$PATH"`,
+        `COPY ${envFile} ./`,
+        `RUN conda env update -n base -f ${envFile}`
+      );
+    }
+    if (env.manifests.includes("requirements.txt")) {
+      lines.push("COPY requirements.txt ./", "RUN pip install -r requirements.txt");
+    }
+  }
+
+  lines.push("", "COPY . .");
+  if (env.manager === "uv") {
+    lines.push("RUN uv sync --frozen");
+  } else if (env.manifests.some((manifest) => manifest === "pyproject.toml" || manifest === "setup.py")) {
+    lines.push("RUN pip install -e .");
+  }
+
+  // Only plain package installs; the rest of setup.sh needs a GPU to run
+  const findings = analyzeSetupCommands(needs.setup_commands);
+  const installs = needs.setup_commands.filter(
+    (command) =>
+      /^(pip3?|uv pip|python3? -m pip) install\s/.test(command) &&
+      !/\s-r\s|\s-e\s/.test(command) &&
+      !findings.some((finding) => finding.command === command)
+  );
+  if (installs.length > 0) {
+    lines.push(...installs.map((command) => `RUN ${command.replace(/^uv pip install/, "pip install")}`));
+  }
+
+  lines.push("", `CMD ["bash"]`, "");
+  return lines.join("\n");
+}
+
+/**
+ * Dev container with GPU access. Builds the generated Dockerfile when it is
+ * committed too, otherwise starts from the base image and runs setup.sh.
+ */
+export function generateDevcontainer(
+  needs: SpecialistOutput,
+  instance: BrevInstance,
+  context: SetupScriptContext = { fileTree: [], repoSignals: null },
+  withDockerfile: boolean = true
+): string {
+  const shmGb = Math.max(8, Math.floor(needs.recommended_system_ram_gb / 4));
+  const config = {
+    name: `Brev GPU environment (${instance.name}${instance.count > 1 ? ` × ${instance.count}` : ""})`,
+    ...(withDockerfile
+      ? { build: { dockerfile: `../${DOCKERFILE_PATH}`, context: ".." } }
+      : { image: selectBaseImage(instance, context).image }),
+    workspaceFolder: "/workspace",
+    workspaceMount: "source=${localWorkspaceFolder},target=/workspace,type=bind",
+    runArgs: ["--gpus", "all", "--ipc=host", `--shm-size=${shmGb}g`],
+    hostRequirements: {
+      gpu: true,
+      cpus: needs.recommended_cpu_cores,
+      memory: `${needs.recommended_system_ram_gb}gb`,
+      storage: `${needs.estimated_disk_space_gb}gb`,
+    },
+    postCreateCommand: withDockerfile ? "nvidia-smi" : "bash .brev/setup.sh",
+    customizations: {
+      vscode: {
+        extensions: ["ms-python.python", "ms-toolsai.jupyter"],
+      },
+    },
+  };
+
+  return `${JSON.stringify(config, null, 2)}\n`;
+}
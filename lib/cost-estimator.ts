@@ -0,0 +1,212 @@
+/**
+ * Job cost and wall-clock estimator.
+ *
+ * Combines the Specialist's workload (parameter count, tokens or samples,
+ * epochs) with the catalog's per-GPU throughput figures to estimate how long a
+ * job runs and what it costs on each candidate instance. Training uses the
+ * standard 6·N·T FLOPs rule; inference is bounded by either compute (prefill)
+ * or memory bandwidth (decode).
+ */
+
+import type { BrevInstance, JobCostEstimate, SpecialistOutput } from "@/types/agentSchemas";
+import { BYTES_PER_PARAM, type Precision } from "@/lib/vram-estimator";
+
+/** Model FLOPs utilization reached by typical training code */
+const TRAINING_MFU = 0.4;
+
+/** Utilization during prefill / encoder-only inference */
+const INFERENCE_MFU = 0.5;
+
+/** Fraction of peak memory bandwidth reached while decoding */
+const BANDWIDTH_EFFICIENCY = 0.7;
+
+/** Fraction of linear speedup kept each time the GPU count doubles */
+const MULTI_GPU_SCALING = 0.9;
+
+/** Batch assumed for batch inference when the code does not say */
+const DEFAULT_INFERENCE_BATCH = 8;
+
+/** Always-on serving is priced per month */
+const HOURS_PER_MONTH = 730;
+
+type ThroughputKey = keyof NonNullable<BrevInstance["tflops"]>;
+
+/** Catalog throughput column used for each training/inference precision */
+const PRECISION_THROUGHPUT: Record<Precision, ThroughputKey> = {
+  fp32: "fp32",
+  tf32: "tf32",
+  fp16: "fp16",
+  bf16: "bf16",
+  fp8: "fp8",
+  int8: "int8",
+  int4: "int8",
+};
+
+/**
+ * Peak dense TFLOPS of one GPU at a precision, falling back to the nearest
+ * supported precision (e.g. bf16 on a T4 runs at fp16 rates).
+ */
+export function getPeakTflops(instance: BrevInstance, precision: Precision = "bf16"): number | null {
+  const tflops = instance.tflops;
+  if (!tflops) return null;
+  return tflops[PRECISION_THROUGHPUT[precision]] ?? tflops.bf16 ?? tflops.fp16 ?? tflops.fp32 ?? null;
+}
+
+/**
+ * Efficiency factor for data-parallel scaling across `count` GPUs
+ */
+export function getScalingEfficiency(count: number): number {
+  return Math.pow(MULTI_GPU_SCALING, Math.log2(Math.max(1, count)));
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Estimate wall-clock time and total cost of the analyzed job on one instance
+ */
+export function estimateJobCost(needs: SpecialistOutput, instance: BrevInstance): JobCostEstimate {
+  const hourlyCost = round(instance.price * instance.count);
+  const assumptions: string[] = [];
+  const unknown = (reason: string): JobCostEstimate => ({
+    gpu: instance.name,
+    gpuCount: instance.count,
+    hourlyCost,
+    hours: null,
+    totalCost: null,
+    bottleneck: null,
+    continuous: false,
+    assumptions: [...assumptions, reason],
+  });
+
+  if (needs.workload_type === "online_serving") {
+    return {
+      gpu: instance.name,
+      gpuCount: instance.count,
+      hourlyCost,
+      hours: HOURS_PER_MONTH,
+      totalCost: round(hourlyCost * HOURS_PER_MONTH),
+      bottleneck: null,
+      continuous: true,
+      assumptions: ["Always-on serving, priced per month (730 hours)"],
+    };
+  }
+
+  const inputs = needs.memory_inputs;
+  const size = needs.workload_size;
+  if (!inputs.parameter_count_billions) {
+    return unknown("Parameter count unknown");
+  }
+  const params = inputs.parameter_count_billions * 1e9;
+
+  let tokens = size.dataset_tokens;
+  if (!tokens && size.dataset_samples && inputs.sequence_length) {
+    tokens = size.dataset_samples * inputs.sequence_length;
+    assumptions.push(`${size.dataset_samples.toLocaleString()} samples × ${inputs.sequence_length} tokens`);
+  }
+  if (!tokens) {
+    return unknown("Dataset size unknown");
+  }
+
+  const peakTflops = getPeakTflops(instance, inputs.precision);
+  if (!peakTflops) {
+    return unknown(`No throughput figures for ${instance.name}`);
+  }
+  const scaling = getScalingEfficiency(instance.count);
+  const effectiveFlops = peakTflops * 1e12 * instance.count * scaling;
+
+  let computeSeconds: number;
+  let memorySeconds = 0;
+
+  if (inputs.training) {
+    const epochs = size.epochs || 1;
+    if (!size.epochs) assumptions.push("1 epoch assumed");
+
+    // Forward 2N + backward 4N; adapters skip weight gradients, checkpointing re-runs the forward
+    const isAdapter = !!inputs.lora_rank || inputs.qlora;
+    const flopsPerToken = ((isAdapter ? 4 : 6) + (inputs.gradient_checkpointing ? 2 : 0)) * params;
+    computeSeconds = (flopsPerToken * tokens * epochs) / (effectiveFlops * TRAINING_MFU);
+    assumptions.push(`${(tokens * epochs / 1e9).toFixed(2)}B training tokens at ${TRAINING_MFU * 100}% MFU`);
+  } else {
+    computeSeconds = (2 * params * tokens) / (effectiveFlops * INFERENCE_MFU);
+
+    // Each decode step streams the weights once for the whole batch
+    const outputTokens = size.output_tokens_per_sample && size.dataset_samples
+      ? size.output_tokens_per_sample * size.dataset_samples
+      : 0;
+    if (outputTokens > 0 && instance.memoryBandwidth) {
+      const batch = inputs.batch_size || DEFAULT_INFERENCE_BATCH;
+      if (!inputs.batch_size) assumptions.push(`Batch of ${DEFAULT_INFERENCE_BATCH} assumed for decoding`);
+      const weightBytes = params * BYTES_PER_PARAM[inputs.qlora ? "int4" : inputs.precision];
+      const bandwidth = instance.memoryBandwidth * 1e9 * instance.count * BANDWIDTH_EFFICIENCY;
+      memorySeconds = (outputTokens / batch) * (weightBytes / bandwidth);
+      computeSeconds += (2 * params * outputTokens) / (effectiveFlops * INFERENCE_MFU);
+    }
+  }
+
+  const hours = Math.max(computeSeconds, memorySeconds) / 3600;
+
+  return {
+    gpu: instance.name,
+    gpuCount: instance.count,
+    hourlyCost,
+    hours: round(hours),
+    totalCost: round(hours * hourlyCost),
+    bottleneck: memorySeconds > computeSeconds ? "memory" : "compute",
+    continuous: false,
+    assumptions,
+  };
+}
+
+/**
+ * Estimate every candidate instance, skipping duplicate configurations
+ */
+export function estimateJobCosts(needs: SpecialistOutput, instances: BrevInstance[]): JobCostEstimate[] {
+  const seen = new Set<string>();
+  const estimates: JobCostEstimate[] = [];
+  for (const instance of instances) {
+    const key = `${instance.name}×${instance.count}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    estimates.push(estimateJobCost(needs, instance));
+  }
+  return estimates;
+}
+
+function formatHours(hours: number): string {
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min`;
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} days`;
+}
+
+/**
+ * Short human-readable duration and cost, e.g. "12.5 h • $31.13"
+ */
+export function formatJobCost(estimate: JobCostEstimate): string {
+  if (estimate.continuous) {
+    return `$${estimate.totalCost?.toFixed(2)}/month`;
+  }
+  if (estimate.hours === null || estimate.totalCost === null) {
+    return "Unknown duration";
+  }
+  return `${formatHours(estimate.hours)} • $${estimate.totalCost.toFixed(2)}`;
+}
+
+/**
+ * Render estimates as a markdown table (used in the PR body)
+ */
+export function formatJobCostTable(estimates: JobCostEstimate[]): string {
+  const rows = estimates.map((e) =>
+    `| ${e.gpu}${e.gpuCount > 1 ? ` × ${e.gpuCount}` : ""} | $${e.hourlyCost.toFixed(2)} | ${formatJobCost(e)} | ${e.bottleneck ?? "-"} |`
+  );
+  const assumptions = [...new Set(estimates.flatMap((e) => e.assumptions))];
+
+  return [
+    "| GPU | $/hour | Estimated duration & cost | Bound by |",
+    "| --- | --- | --- | --- |",
+    ...rows,
+    ...(assumptions.length > 0 ? ["", `_Assumptions: ${assumptions.join("; ")}_`] : []),
+  ].join("\n");
+}
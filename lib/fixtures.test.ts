@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { getFixtureName, getReplaySession, runWithFixtures } from "@/lib/fixtures";
+import { runAnalysisPipeline } from "@/lib/orchestrator";
+import { BREV_GPU_CATALOG, setActiveGpuCatalog } from "@/lib/gpu-catalog";
+
+const ENV_KEYS = ["BREV_DOCTOR_FIXTURES", "BREV_DOCTOR_FIXTURES_DIR", "BREV_DOCTOR_FIXTURES_SKIP_AUTH", "BREV_DOCTOR_HISTORY"];
+const savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+// Replay must not touch the network
+const fetchSpy = spyOn(globalThis, "fetch");
+
+beforeAll(() => {
+  process.env.BREV_DOCTOR_FIXTURES = "replay";
+  delete process.env.BREV_DOCTOR_FIXTURES_DIR;
+  delete process.env.BREV_DOCTOR_FIXTURES_SKIP_AUTH;
+  process.env.BREV_DOCTOR_HISTORY = "off";
+  const offline = async (input: RequestInfo | URL): Promise<Response> => {
+    throw new Error(`Unexpected network access: ${String(input)}`);
+  };
+  fetchSpy.mockImplementation(Object.assign(offline, { preconnect: () => {} }));
+});
+
+afterAll(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+  fetchSpy.mockRestore();
+  setActiveGpuCatalog(BREV_GPU_CATALOG);
+});
+
+describe("fixture replay", () => {
+  test("replays a recorded analysis offline", async () => {
+    const repoMeta = { owner: "acme", repo: "lora-demo" };
+    const analysis = await runWithFixtures(getFixtureName(repoMeta), () =>
+      runAnalysisPipeline({ accessToken: "fixture-replay", userKey: "fixture", repoMeta })
+    );
+
+    expect(analysis.commitSha).toBe("3f9c2d1e8b7a6c5d4e3f2a1b0c9d8e7f6a5b4c3d");
+    expect(analysis.privateRepo).toBe(false);
+    expect(analysis.scoutResult.selected_paths).toEqual(["train.py", "configs/lora.yaml", "requirements.txt"]);
+    expect(analysis.needs).toMatchObject({ workload_type: "lora_finetune", requires_multi_gpu: false });
+    // Priced from the recorded Brev CLI output
+    expect(analysis.match.best).toMatchObject({ name: "L40s", count: 1, price: 1.86 });
+    expect(analysis.match.second_best?.name).toBe("A100");
+  });
+
+  test("signs in without GitHub only when explicitly allowed", () => {
+    expect(getReplaySession()).toBeNull();
+    process.env.BREV_DOCTOR_FIXTURES_SKIP_AUTH = "true";
+    expect(getReplaySession()?.accessToken).toBe("fixture-replay");
+    delete process.env.BREV_DOCTOR_FIXTURES_SKIP_AUTH;
+  });
+});
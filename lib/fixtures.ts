@@ -0,0 +1,167 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import type { Session } from "next-auth";
+import type { RepoMeta } from "@/types/agentSchemas";
+import { setGitHubApiInterceptor } from "@/lib/github";
+
+/**
+ * Record-and-replay fixtures for offline pipeline runs.
+ *
+ * With `BREV_DOCTOR_FIXTURES=record`, every agent output, GitHub API response
+ * and Brev CLI output of a run is saved to `fixtures/<owner>__<repo>.json`.
+ * With `BREV_DOCTOR_FIXTURES=replay`, the same calls are answered from that
+ * file in call order with no network access. Entries are keyed by call
+ * (agent task, API path, CLI command), not by prompt, so prompt changes can be
+ * replayed against recorded outputs; a changed prompt is only logged.
+ */
+
+export type FixtureMode = "off" | "record" | "replay";
+
+export type FixtureKind = "llm" | "github" | "brev";
+
+interface FixtureEntry {
+  value?: unknown;
+  /** Set when the recorded call failed; replay throws it again */
+  error?: string;
+  /** Short hash of the request (e.g. the prompt) at record time */
+  requestHash?: string;
+}
+
+export interface FixtureFile {
+  version: 1;
+  name: string;
+  recordedAt: string;
+  calls: Record<FixtureKind, Record<string, FixtureEntry[]>>;
+}
+
+interface FixtureSession {
+  mode: Exclude<FixtureMode, "off">;
+  path: string;
+  file: FixtureFile;
+  /** Replay position per call key */
+  cursors: Map<string, number>;
+}
+
+const storage = new AsyncLocalStorage<FixtureSession>();
+
+/**
+ * Current fixture mode. Always "off" in production builds.
+ */
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.BREV_DOCTOR_FIXTURES;
+  if (mode !== "record" && mode !== "replay") return "off";
+  if (process.env.NODE_ENV === "production") {
+    console.warn("BREV_DOCTOR_FIXTURES is ignored in production");
+    return "off";
+  }
+  return mode;
+}
+
+/**
+ * Fixture file name for a repository
+ */
+export function getFixtureName(repoMeta: RepoMeta): string {
+  const name = [repoMeta.owner, repoMeta.repo, repoMeta.branch].filter(Boolean).join("__");
+  return name.replace(/[^\w.-]/g, "_");
+}
+
+function getFixturePath(name: string): string {
+  return join(process.env.BREV_DOCTOR_FIXTURES_DIR || join(process.cwd(), "fixtures"), `${name}.json`);
+}
+
+function emptyFixture(name: string): FixtureFile {
+  return { version: 1, name, recordedAt: new Date().toISOString(), calls: { llm: {}, github: {}, brev: {} } };
+}
+
+/**
+ * Run `fn` with fixtures for `name` recorded or replayed (no-op when off).
+ * Recorded fixtures are written when `fn` settles, even if it throws.
+ */
+export async function runWithFixtures<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const mode = getFixtureMode();
+  if (mode === "off") return fn();
+
+  const path = getFixturePath(name);
+  let file = emptyFixture(name);
+  if (mode === "replay") {
+    try {
+      file = JSON.parse(await readFile(path, "utf-8")) as FixtureFile;
+    } catch {
+      // Every call will then fail with a "no fixture" error inside the run
+      console.warn(`No fixture recorded at ${path}. Run once with BREV_DOCTOR_FIXTURES=record.`);
+    }
+  }
+
+  setGitHubApiInterceptor((key, live, body) => withFixture("github", key, live, body));
+
+  const session: FixtureSession = { mode, path, file, cursors: new Map() };
+  try {
+    return await storage.run(session, fn);
+  } finally {
+    if (mode === "record") {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, JSON.stringify(file, null, 2));
+    }
+  }
+}
+
+export function hashRequest(request: string): string {
+  return createHash("sha256").update(request).digest("hex").slice(0, 12);
+}
+
+/**
+ * Answer a call from the active fixture, or run it live (recording the result
+ * in record mode). Outside `runWithFixtures` this just calls `live`.
+ */
+export async function withFixture<T>(
+  kind: FixtureKind,
+  key: string,
+  live: () => Promise<T>,
+  request?: string
+): Promise<T> {
+  const session = storage.getStore();
+  if (!session) return live();
+
+  const entries = (session.file.calls[kind][key] ??= []);
+  const requestHash = request !== undefined ? hashRequest(request) : undefined;
+
+  if (session.mode === "replay") {
+    const cursorKey = `${kind}:${key}`;
+    const index = session.cursors.get(cursorKey) ?? 0;
+    const entry = entries[index];
+    if (!entry) {
+      throw new Error(`No ${kind} fixture for "${key}" (call #${index + 1}) in ${session.path}`);
+    }
+    session.cursors.set(cursorKey, index + 1);
+    if (requestHash && entry.requestHash && requestHash !== entry.requestHash) {
+      console.info(`Fixture ${kind} "${key}" #${index + 1}: request changed since recording`);
+    }
+    if (entry.error !== undefined) throw new Error(entry.error);
+    return entry.value as T;
+  }
+
+  try {
+    const value = await live();
+    entries.push({ value, requestHash });
+    return value;
+  } catch (error) {
+    entries.push({ error: error instanceof Error ? error.message : String(error), requestHash });
+    throw error;
+  }
+}
+
+/**
+ * Placeholder session so replay runs work without GitHub sign-in. Only
+ * with `BREV_DOCTOR_FIXTURES_SKIP_AUTH=true`, since it lets anyone reach
+ * the server actions.
+ */
+export function getReplaySession(): Session | null {
+  if (getFixtureMode() !== "replay" || process.env.BREV_DOCTOR_FIXTURES_SKIP_AUTH !== "true") return null;
+  return {
+    user: { name: "Fixture Replay" },
+    accessToken: "fixture-replay",
+    expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  };
+}
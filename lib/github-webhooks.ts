@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { isSetupBranch } from "@/lib/github";
+import type { RepoMeta } from "@/types/agentSchemas";
+
+/**
+ * GitHub webhook handling: signature verification and mapping push events to
+ * the branch that should be re-analyzed. Only the default branch, and other
+ * branches whose pushed commits touched files the analysis reads, are
+ * re-analyzed. Commits on a pull request's branch arrive as pushes too, so
+ * pull_request events add nothing and are ignored.
+ */
+
+/** Files whose changes can move the recommendation: code, notebooks, configs, manifests and scripts */
+const ANALYZED_FILE = /\.(py|ipynb|ya?ml|json|toml|cfg|txt|sh|slurm|sbatch)$|(^|\/)Dockerfile[^/]*$|\.dockerfile$/i;
+
+export interface WebhookTrigger {
+  repoMeta: RepoMeta;
+  /** Commit that triggered the analysis */
+  commitSha: string;
+  reason: string;
+}
+
+/**
+ * Check an `X-Hub-Signature-256` header against the raw request body
+ */
+export function verifyWebhookSignature(secret: string, body: string, signature: string | null): boolean {
+  if (!signature?.startsWith("sha256=")) return false;
+  const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(body).digest("hex")}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+interface PushPayload {
+  ref?: string;
+  after?: string;
+  deleted?: boolean;
+  commits?: Array<{ added?: string[]; modified?: string[]; removed?: string[] }>;
+  repository?: { name: string; default_branch?: string; owner: { login?: string; name?: string } };
+}
+
+/**
+ * The branch a webhook event asks to re-analyze, or null to ignore the event
+ */
+export function getWebhookTrigger(event: string | null, payload: unknown): WebhookTrigger | null {
+  if (event !== "push") return null;
+
+  const push = payload as PushPayload;
+  const owner = push.repository?.owner.login ?? push.repository?.owner.name;
+  if (!push.ref?.startsWith("refs/heads/") || push.deleted || !push.after || !owner || !push.repository) {
+    return null;
+  }
+  const branch = push.ref.slice("refs/heads/".length);
+  // Setup branches are written by Brev Doctor itself
+  if (isSetupBranch(branch)) return null;
+
+  const changed = (push.commits ?? []).flatMap((commit) => [
+    ...(commit.added ?? []),
+    ...(commit.modified ?? []),
+    ...(commit.removed ?? []),
+  ]);
+  if (branch !== push.repository.default_branch && !changed.some((path) => ANALYZED_FILE.test(path))) {
+    return null;
+  }
+
+  return {
+    repoMeta: { owner, repo: push.repository.name, branch },
+    commitSha: push.after,
+    reason: `push to ${branch} (${push.after.slice(0, 7)})`,
+  };
+}
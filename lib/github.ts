@@ -1,3 +1,16 @@
+/** Branch prefix of Brev Doctor setup PRs */
+export const BREV_SETUP_BRANCH_PREFIX = "brev-setup";
+
+/** Label added to Brev Doctor setup PRs */
+export const BREV_SETUP_LABEL = "brev-doctor";
+
+/**
+ * Whether a branch was created by Brev Doctor (`brev-setup-<timestamp>`)
+ */
+export function isSetupBranch(branch: string): boolean {
+  return branch.startsWith(`${BREV_SETUP_BRANCH_PREFIX}-`);
+}
+
 interface CreatePROptions {
   accessToken: string;
   owner: string;
@@ -5,6 +18,27 @@ interface CreatePROptions {
   baseBranch?: string;
   branchName?: string;
   files: Array<{ path: string; content: string }>;
+  /** Extra markdown sections added to the PR body */
+  details?: string;
+  /** Whether a file on an existing setup PR needs a new commit (default: any difference) */
+  fileChanged?: (current: string, next: string) => boolean;
+  /** Changelog lines for a file that changed on an existing setup PR */
+  describeChanges?: (path: string, before: string | null, after: string) => string[];
+}
+
+export interface CreatePRResult {
+  url: string;
+  number: number;
+  /** created: new PR; updated: new commit on an open setup PR; unchanged: open PR already matches */
+  status: "created" | "updated" | "unchanged";
+  changelog: string[];
+}
+
+interface PullRequestSummary {
+  number: number;
+  html_url: string;
+  head: { ref: string };
+  labels?: Array<{ name: string }>;
 }
 
 interface GitHubApiResponse {
@@ -14,10 +48,34 @@ interface GitHubApiResponse {
   message?: string;
 }
 
+type GitHubApiInterceptor = (
+  key: string,
+  live: () => Promise<GitHubApiResponse>,
+  body?: string
+) => Promise<GitHubApiResponse>;
+
+/** Lets server code (lib/fixtures.ts) record or replay API calls */
+let apiInterceptor: GitHubApiInterceptor | null = null;
+
+export function setGitHubApiInterceptor(interceptor: GitHubApiInterceptor | null): void {
+  apiInterceptor = interceptor;
+}
+
 async function githubApi(
   url: string,
   accessToken: string,
   options: RequestInit = {}
+): Promise<GitHubApiResponse> {
+  const live = () => githubFetch(url, accessToken, options);
+  if (!apiInterceptor) return live();
+  const body = typeof options.body === "string" ? options.body : undefined;
+  return apiInterceptor(`${options.method ?? "GET"} ${url}`, live, body);
+}
+
+async function githubFetch(
+  url: string,
+  accessToken: string,
+  options: RequestInit
 ): Promise<GitHubApiResponse> {
   const response = await fetch(`https://api.github.com${url}`, {
     ...options,
@@ -35,15 +93,37 @@ async function githubApi(
     throw new Error(`GitHub API error (${response.status}): ${error}`);
   }
 
+  // e.g. DELETE of a ref
+  if (response.status === 204) return {};
   return response.json();
 }
 
-export async function getRepoTree(
+/**
+ * Every item of a paginated list endpoint (up to `maxPages` pages of 100)
+ */
+async function githubList<T>(url: string, accessToken: string, maxPages: number = 10): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; page <= maxPages; page++) {
+    const data: unknown = await githubApi(`${url}${url.includes("?") ? "&" : "?"}per_page=100&page=${page}`, accessToken);
+    if (!Array.isArray(data)) break;
+    items.push(...(data as T[]));
+    if (data.length < 100) break;
+  }
+  return items;
+}
+
+export interface RepoTreeEntry {
+  path: string;
+  /** Git blob SHA, i.e. a hash of the file content */
+  sha: string;
+}
+
+export async function getRepoTreeEntries(
   accessToken: string,
   owner: string,
   repo: string,
   branch: string = "main"
-): Promise<string[]> {
+): Promise<RepoTreeEntry[]> {
   try {
     const data = await githubApi(
       `/repos/${owner}/${repo}/git/trees/${branch}?recursive=1`,
@@ -54,15 +134,25 @@ export async function getRepoTree(
       return [];
     }
 
-    return (data as { tree: Array<{ type: string; path: string }> }).tree
+    return (data as { tree: Array<{ type: string; path: string; sha: string }> }).tree
       .filter((item) => item.type === "blob")
-      .map((item) => item.path);
+      .map((item) => ({ path: item.path, sha: item.sha }));
   } catch (error) {
     console.error("Failed to get repo tree:", error);
     throw error;
   }
 }
 
+export async function getRepoTree(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  branch: string = "main"
+): Promise<string[]> {
+  const entries = await getRepoTreeEntries(accessToken, owner, repo, branch);
+  return entries.map((entry) => entry.path);
+}
+
 export async function getFileContent(
   accessToken: string,
   owner: string,
@@ -76,7 +166,7 @@ export async function getFileContent(
   );
 
   const content = (data as { content?: string }).content;
-  if (!content) {
+  if (content === undefined) {
     throw new Error(`No content found for ${path}`);
   }
 
@@ -84,6 +174,25 @@ export async function getFileContent(
   return Buffer.from(content, "base64").toString("utf-8");
 }
 
+/**
+ * A file's content, or null when the file does not exist at `branch`.
+ * Other failures (rate limits, auth, outages) still throw.
+ */
+export async function getFileContentIfExists(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  path: string,
+  branch: string = "main"
+): Promise<string | null> {
+  try {
+    return await getFileContent(accessToken, owner, repo, path, branch);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("GitHub API error (404)")) return null;
+    throw error;
+  }
+}
+
 export async function getMultipleFileContents(
   accessToken: string,
   owner: string,
@@ -113,14 +222,98 @@ export async function getMultipleFileContents(
   return contents;
 }
 
+function buildSetupPRBody(files: CreatePROptions["files"], details?: string): string {
+  return `## Brev Doctor Configuration
+
+This PR was automatically generated by **Brev Doctor** to configure your GPU development environment.
+
+### Files Added:
+${files.map((f) => `- \`${f.path}\``).join("\n")}
+${details ? `\n${details}\n` : ""}
+### Next Steps:
+1. Review the generated configuration files
+2. Merge this PR
+3. Visit [brev.dev](https://brev.dev) to launch your GPU instance
+
+---
+*Generated by Brev Doctor*`;
+}
+
+/**
+ * The open Brev Doctor PR against `baseBranch`: one from a setup branch or
+ * carrying the Brev Doctor label
+ */
+async function findOpenSetupPR(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  baseBranch: string
+): Promise<PullRequestSummary | null> {
+  const pulls = await githubList<PullRequestSummary>(
+    `/repos/${owner}/${repo}/pulls?state=open&base=${encodeURIComponent(baseBranch)}`,
+    accessToken
+  );
+  // Either mark is enough: older setup PRs have no label, and labelling can fail
+  return pulls.find((pr) =>
+    isSetupBranch(pr.head.ref) || !!pr.labels?.some((label) => label.name === BREV_SETUP_LABEL)
+  ) ?? null;
+}
+
+/**
+ * Open a setup PR, or push the files to the open Brev Doctor PR for the same
+ * base branch so repeated runs update one PR.
+ */
 export async function createPR({
   accessToken,
   owner,
   repo,
   baseBranch = "main",
-  branchName = "brev-setup",
+  branchName = BREV_SETUP_BRANCH_PREFIX,
   files,
-}: CreatePROptions): Promise<string> {
+  details,
+  fileChanged = (current, next) => current !== next,
+  describeChanges,
+}: CreatePROptions): Promise<CreatePRResult> {
+  const existing = await findOpenSetupPR(accessToken, owner, repo, baseBranch);
+
+  if (existing) {
+    const branch = existing.head.ref;
+    const changelog: string[] = [];
+    const changed: CreatePROptions["files"] = [];
+    for (const file of files) {
+      const before = await getFileContentIfExists(accessToken, owner, repo, file.path, branch);
+      if (before !== null && !fileChanged(before, file.content)) continue;
+      changed.push(file);
+      const lines = describeChanges?.(file.path, before, file.content) ?? [];
+      changelog.push(...(lines.length > 0 ? lines : [`${before === null ? "Added" : "Updated"} \`${file.path}\``]));
+    }
+
+    if (changed.length === 0) {
+      return { url: existing.html_url, number: existing.number, status: "unchanged", changelog };
+    }
+
+    const summary = changelog.map((line) => `- ${line}`).join("\n");
+    const headRef = await githubApi(`/repos/${owner}/${repo}/git/ref/heads/${branch}`, accessToken);
+    if (!headRef.object?.sha) {
+      throw new Error(`Could not get SHA for branch ${branch}`);
+    }
+    // Moving the ref is the last step, so a failure leaves the PR as it was
+    const commitSha = await createCommit(accessToken, owner, repo, headRef.object.sha, changed, `Update Brev.dev configuration\n\n${summary}`);
+    await githubApi(`/repos/${owner}/${repo}/git/refs/heads/${branch}`, accessToken, {
+      method: "PATCH",
+      body: JSON.stringify({ sha: commitSha, force: false }),
+    });
+    await githubApi(`/repos/${owner}/${repo}/pulls/${existing.number}`, accessToken, {
+      method: "PATCH",
+      body: JSON.stringify({ body: buildSetupPRBody(files, details) }),
+    });
+    await githubApi(`/repos/${owner}/${repo}/issues/${existing.number}/comments`, accessToken, {
+      method: "POST",
+      body: JSON.stringify({ body: `### Configuration updated\n\n${summary}\n\n---\n*Generated by Brev Doctor*` }),
+    });
+    return { url: existing.html_url, number: existing.number, status: "updated", changelog };
+  }
+
   // Get the SHA of the base branch
   const baseRef = await githubApi(
     `/repos/${owner}/${repo}/git/ref/heads/${baseBranch}`,
@@ -133,65 +326,98 @@ export async function createPR({
 
   const baseSha = baseRef.object.sha;
 
-  // Create a new branch
-  const timestamp = Date.now();
-  const uniqueBranchName = `${branchName}-${timestamp}`;
+  const commitSha = await createCommit(
+    accessToken,
+    owner,
+    repo,
+    baseSha,
+    files,
+    `Add Brev.dev configuration\n\n${files.map((f) => `- ${f.path}`).join("\n")}`
+  );
+
+  // Create a new branch pointing at the commit
+  const uniqueBranchName = `${branchName}-${Date.now()}`;
+  await githubApi(`/repos/${owner}/${repo}/git/refs`, accessToken, {
+    method: "POST",
+    body: JSON.stringify({
+      ref: `refs/heads/${uniqueBranchName}`,
+      sha: commitSha,
+    }),
+  });
 
+  let pr: GitHubApiResponse & { number?: number };
   try {
-    await githubApi(`/repos/${owner}/${repo}/git/refs`, accessToken, {
+    pr = await githubApi(`/repos/${owner}/${repo}/pulls`, accessToken, {
       method: "POST",
       body: JSON.stringify({
-        ref: `refs/heads/${uniqueBranchName}`,
-        sha: baseSha,
+        title: "🚀 Configure Brev.dev GPU Environment",
+        head: uniqueBranchName,
+        base: baseBranch,
+        body: buildSetupPRBody(files, details),
       }),
     });
+    if (!pr.html_url || !pr.number) {
+      throw new Error("Failed to create PR - no URL returned");
+    }
   } catch (error) {
-    // Branch might already exist, try with a different name
-    console.warn("Branch creation failed, might already exist:", error);
+    // Don't leave an orphaned setup branch behind
+    await githubApi(`/repos/${owner}/${repo}/git/refs/heads/${uniqueBranchName}`, accessToken, {
+      method: "DELETE",
+    }).catch((cleanupError) => console.warn(`Could not delete branch ${uniqueBranchName}:`, cleanupError));
     throw error;
   }
 
-  // Create/update each file
-  for (const file of files) {
-    await githubApi(`/repos/${owner}/${repo}/contents/${file.path}`, accessToken, {
-      method: "PUT",
-      body: JSON.stringify({
-        message: `Add ${file.path} for Brev.dev environment`,
-        content: Buffer.from(file.content).toString("base64"),
-        branch: uniqueBranchName,
-      }),
-    });
-  }
-
-  // Create the pull request
-  const pr = await githubApi(`/repos/${owner}/${repo}/pulls`, accessToken, {
+  // Later runs only update labelled PRs; without the label they open a new one
+  await githubApi(`/repos/${owner}/${repo}/issues/${pr.number}/labels`, accessToken, {
     method: "POST",
-    body: JSON.stringify({
-      title: "🚀 Configure Brev.dev GPU Environment",
-      head: uniqueBranchName,
-      base: baseBranch,
-      body: `## Brev Doctor Configuration
+    body: JSON.stringify({ labels: [BREV_SETUP_LABEL] }),
+  }).catch((error) => console.warn("Could not label the setup PR:", error));
 
-This PR was automatically generated by **Brev Doctor** to configure your GPU development environment.
+  return { url: pr.html_url, number: pr.number, status: "created", changelog: [] };
+}
 
-### Files Added:
-${files.map((f) => `- \`${f.path}\``).join("\n")}
+/**
+ * Create one commit on top of `parentSha` containing all `files` through the
+ * Git Data API (blobs, tree, commit). No ref is moved.
+ */
+async function createCommit(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  parentSha: string,
+  files: CreatePROptions["files"],
+  message: string
+): Promise<string> {
+  const parent = await githubApi(`/repos/${owner}/${repo}/git/commits/${parentSha}`, accessToken) as GitHubApiResponse & {
+    tree?: { sha: string };
+  };
+  if (!parent.tree?.sha) {
+    throw new Error(`Could not get tree for commit ${parentSha}`);
+  }
 
-### Next Steps:
-1. Review the generated configuration files
-2. Merge this PR
-3. Visit [brev.dev](https://brev.dev) to launch your GPU instance
+  const tree = [];
+  for (const file of files) {
+    const blob = await githubApi(`/repos/${owner}/${repo}/git/blobs`, accessToken, {
+      method: "POST",
+      body: JSON.stringify({ content: Buffer.from(file.content).toString("base64"), encoding: "base64" }),
+    });
+    if (!blob.sha) throw new Error(`Failed to upload ${file.path}`);
+    // Scripts are committed executable
+    tree.push({ path: file.path, mode: file.path.endsWith(".sh") ? "100755" : "100644", type: "blob", sha: blob.sha });
+  }
 
----
-*Generated by Brev Doctor*`,
-    }),
+  const newTree = await githubApi(`/repos/${owner}/${repo}/git/trees`, accessToken, {
+    method: "POST",
+    body: JSON.stringify({ base_tree: parent.tree.sha, tree }),
   });
+  if (!newTree.sha) throw new Error("Failed to create tree");
 
-  if (!pr.html_url) {
-    throw new Error("Failed to create PR - no URL returned");
-  }
-
-  return pr.html_url;
+  const commit = await githubApi(`/repos/${owner}/${repo}/git/commits`, accessToken, {
+    method: "POST",
+    body: JSON.stringify({ message, tree: newTree.sha, parents: [parentSha] }),
+  });
+  if (!commit.sha) throw new Error("Failed to create commit");
+  return commit.sha;
 }
 
 export interface GitHubRepo {
@@ -234,6 +460,115 @@ export async function getUserRepos(
   }
 }
 
+/**
+ * SHA of the commit a branch points to
+ */
+export async function getBranchHeadSha(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  branch: string = "main"
+): Promise<string> {
+  const data = await githubApi(`/repos/${owner}/${repo}/commits/${branch}`, accessToken);
+  if (!data.sha) {
+    throw new Error(`Could not resolve the head commit of ${branch}`);
+  }
+  return data.sha;
+}
+
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  htmlUrl: string;
+  baseRef: string;
+  baseSha: string;
+  headRef: string;
+  /** Also readable from the base repository for PRs from forks */
+  headSha: string;
+  /** Whether the head branch lives in another repository */
+  fromFork: boolean;
+}
+
+export async function getPullRequest(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<PullRequestInfo> {
+  const data = await githubApi(`/repos/${owner}/${repo}/pulls/${pullNumber}`, accessToken) as {
+    number?: number;
+    title?: string;
+    html_url?: string;
+    base?: { ref: string; sha: string; repo?: { full_name: string } };
+    head?: { ref: string; sha: string; repo?: { full_name: string } | null };
+  };
+  if (!data.base?.sha || !data.head?.sha) {
+    throw new Error(`Pull request #${pullNumber} not found in ${owner}/${repo}`);
+  }
+  return {
+    number: data.number ?? pullNumber,
+    title: data.title ?? "",
+    htmlUrl: data.html_url ?? `https://github.com/${owner}/${repo}/pull/${pullNumber}`,
+    baseRef: data.base.ref,
+    baseSha: data.base.sha,
+    headRef: data.head.ref,
+    headSha: data.head.sha,
+    // A deleted fork has no head repository
+    fromFork: data.head.repo?.full_name.toLowerCase() !== (data.base.repo?.full_name ?? `${owner}/${repo}`).toLowerCase(),
+  };
+}
+
+/**
+ * Post a comment on an issue or pull request, or edit the earlier comment
+ * that contains `marker`; returns the comment URL
+ */
+export async function upsertIssueComment(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  body: string,
+  marker: string
+): Promise<string> {
+  const comments = await githubList<{ id: number; body?: string }>(
+    `/repos/${owner}/${repo}/issues/${issueNumber}/comments`,
+    accessToken
+  );
+  const previous = comments.find((comment) => comment.body?.includes(marker));
+
+  const comment = previous
+    ? await githubApi(`/repos/${owner}/${repo}/issues/comments/${previous.id}`, accessToken, {
+        method: "PATCH",
+        body: JSON.stringify({ body }),
+      })
+    : await githubApi(`/repos/${owner}/${repo}/issues/${issueNumber}/comments`, accessToken, {
+        method: "POST",
+        body: JSON.stringify({ body }),
+      });
+  if (!comment.html_url) {
+    throw new Error("Failed to post comment - no URL returned");
+  }
+  return comment.html_url;
+}
+
+/**
+ * Whether a repository is private. Treated as private when visibility cannot
+ * be determined, so repo contents never reach a hosted model by accident.
+ */
+export async function isRepoPrivate(
+  accessToken: string,
+  owner: string,
+  repo: string
+): Promise<boolean> {
+  try {
+    const data = await githubApi(`/repos/${owner}/${repo}`, accessToken);
+    return (data as { private?: boolean }).private !== false;
+  } catch (error) {
+    console.error("Failed to get repo visibility:", error);
+    return true;
+  }
+}
+
 export function parseRepoUrl(url: string): { owner: string; repo: string } | null {
   // Handle various GitHub URL formats
   const patterns = [
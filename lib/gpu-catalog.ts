@@ -0,0 +1,326 @@
+import type { GpuCatalogEntry, GpuTier } from "@/types/agentSchemas";
+
+/**
+ * Typed catalog of GPUs available on Brev.dev.
+ *
+ * Every fact the agents or the UI state about a GPU (bandwidth, TFLOPS,
+ * interconnect, FP8 / Transformer Engine support, price) is derived from these
+ * entries, so prompt prose and data cannot drift apart. Free of server-only
+ * imports so client components can read specs directly.
+ *
+ * Sources: Brev.dev platform offerings (December 2024) and NVIDIA datasheets.
+ * TFLOPS are dense (non-sparse) peak figures per GPU; bandwidths are in GB/s.
+ */
+
+type CatalogSpec = Omit<GpuCatalogEntry, "count" | "price">;
+
+const GPU_SPECS: CatalogSpec[] = [
+  // Blackwell
+  {
+    name: "B300", vram: 192, arch: "Blackwell", tier: "Ultra", memoryType: "HBM3e", memoryBandwidth: 8000,
+    tflops: { fp32: 75, tf32: 1100, fp16: 2250, bf16: 2250, fp8: 4500, int8: 4500 },
+    interconnect: "NVLink", nvlinkBandwidth: 1800, maxGpusPerNode: 8, computeCapability: "10.0",
+    providerPrices: [], notes: "Cutting edge, best for massive models",
+  },
+  {
+    name: "B200", vram: 192, arch: "Blackwell", tier: "Ultra", memoryType: "HBM3e", memoryBandwidth: 8000,
+    tflops: { fp32: 80, tf32: 1100, fp16: 2250, bf16: 2250, fp8: 4500, int8: 4500 },
+    interconnect: "NVLink", nvlinkBandwidth: 1800, maxGpusPerNode: 8, computeCapability: "10.0",
+    providerPrices: [], notes: "Latest generation, extreme performance",
+  },
+
+  // Hopper
+  {
+    name: "H200", vram: 141, arch: "Hopper", tier: "Elite", memoryType: "HBM3e", memoryBandwidth: 4800,
+    tflops: { fp32: 67, tf32: 495, fp16: 989, bf16: 989, fp8: 1979, int8: 1979 },
+    interconnect: "NVLink", nvlinkBandwidth: 900, maxGpusPerNode: 8, computeCapability: "9.0",
+    providerPrices: [{ provider: "brev", price: 4.50 }], notes: "Best for LLMs with long contexts",
+  },
+  {
+    name: "H100", vram: 80, arch: "Hopper", tier: "Elite", memoryType: "HBM3", memoryBandwidth: 3350,
+    tflops: { fp32: 67, tf32: 495, fp16: 989, bf16: 989, fp8: 1979, int8: 1979 },
+    interconnect: "NVLink", nvlinkBandwidth: 900, maxGpusPerNode: 8, computeCapability: "9.0",
+    providerPrices: [{ provider: "brev", price: 3.49 }], notes: "Industry standard for large-scale training",
+  },
+
+  // Ampere
+  {
+    name: "A100", vram: 80, arch: "Ampere", tier: "Pro", memoryType: "HBM2e", memoryBandwidth: 2039,
+    tflops: { fp32: 19.5, tf32: 156, fp16: 312, bf16: 312, int8: 624 },
+    interconnect: "NVLink", nvlinkBandwidth: 600, maxGpusPerNode: 8, computeCapability: "8.0",
+    providerPrices: [{ provider: "brev", price: 2.49 }], notes: "Excellent for training",
+  },
+  {
+    name: "A100-40GB", vram: 40, arch: "Ampere", tier: "Pro", memoryType: "HBM2", memoryBandwidth: 1555,
+    tflops: { fp32: 19.5, tf32: 156, fp16: 312, bf16: 312, int8: 624 },
+    interconnect: "NVLink", nvlinkBandwidth: 600, maxGpusPerNode: 8, computeCapability: "8.0",
+    providerPrices: [{ provider: "brev", price: 1.89 }], notes: "Good balance of performance and cost",
+  },
+  {
+    name: "A40", vram: 48, arch: "Ampere", tier: "Pro", memoryType: "GDDR6", memoryBandwidth: 696,
+    tflops: { fp32: 37.4, tf32: 74.8, fp16: 149.7, bf16: 149.7, int8: 299 },
+    interconnect: "NVLink Bridge", nvlinkBandwidth: 112.5, maxGpusPerNode: 8, computeCapability: "8.6",
+    providerPrices: [{ provider: "brev", price: 1.28 }], notes: "Professional GPU, good for inference and training",
+  },
+  {
+    name: "A10", vram: 24, arch: "Ampere", tier: "Standard", memoryType: "GDDR6", memoryBandwidth: 600,
+    tflops: { fp32: 31.2, tf32: 62.5, fp16: 125, bf16: 125, int8: 250 },
+    interconnect: "PCIe", maxGpusPerNode: 8, computeCapability: "8.6",
+    providerPrices: [{ provider: "brev", price: 0.75 }], notes: "Good all-rounder for inference and fine-tuning",
+  },
+  {
+    name: "A10G", vram: 24, arch: "Ampere", tier: "Standard", memoryType: "GDDR6", memoryBandwidth: 600,
+    tflops: { fp32: 31.2, tf32: 35, fp16: 70, bf16: 70, int8: 140 },
+    interconnect: "PCIe", maxGpusPerNode: 8, computeCapability: "8.6",
+    providerPrices: [{ provider: "brev", price: 0.75 }], notes: "AWS-optimized A10 variant",
+  },
+  {
+    name: "A16", vram: 16, arch: "Ampere", tier: "Entry", memoryType: "GDDR6", memoryBandwidth: 200,
+    tflops: { fp32: 4.5, tf32: 9, fp16: 18, bf16: 18, int8: 36 },
+    interconnect: "PCIe", maxGpusPerNode: 8, computeCapability: "8.6",
+    providerPrices: [{ provider: "brev", price: 0.50 }], notes: "Budget option with Ampere features",
+  },
+  {
+    name: "A6000", vram: 48, arch: "Ampere", tier: "Advanced", memoryType: "GDDR6", memoryBandwidth: 768,
+    tflops: { fp32: 38.7, tf32: 77.4, fp16: 154.8, bf16: 154.8, int8: 309.7 },
+    interconnect: "NVLink Bridge", nvlinkBandwidth: 112.5, maxGpusPerNode: 8, computeCapability: "8.6",
+    providerPrices: [{ provider: "brev", price: 0.80 }], notes: "Professional workstation GPU",
+  },
+  {
+    name: "A5000", vram: 24, arch: "Ampere", tier: "Standard", memoryType: "GDDR6", memoryBandwidth: 768,
+    tflops: { fp32: 27.8, tf32: 55.6, fp16: 111, bf16: 111, int8: 222 },
+    interconnect: "NVLink Bridge", nvlinkBandwidth: 112.5, maxGpusPerNode: 8, computeCapability: "8.6",
+    providerPrices: [{ provider: "brev", price: 0.50 }], notes: "Mid-tier professional GPU",
+  },
+  {
+    name: "A4000", vram: 16, arch: "Ampere", tier: "Entry", memoryType: "GDDR6", memoryBandwidth: 448,
+    tflops: { fp32: 19.2, tf32: 38.4, fp16: 76.7, bf16: 76.7, int8: 153 },
+    interconnect: "PCIe", maxGpusPerNode: 4, computeCapability: "8.6",
+    providerPrices: [{ provider: "brev", price: 0.35 }], notes: "Entry-level professional GPU",
+  },
+
+  // Ada Lovelace
+  {
+    name: "L40s", vram: 48, arch: "Ada", tier: "Advanced", memoryType: "GDDR6", memoryBandwidth: 864,
+    tflops: { fp32: 91.6, tf32: 183, fp16: 362, bf16: 362, fp8: 733, int8: 733 },
+    interconnect: "PCIe", maxGpusPerNode: 8, computeCapability: "8.9",
+    providerPrices: [{ provider: "brev", price: 1.50 }], notes: "Optimized for inference, video AI",
+  },
+  {
+    name: "L40", vram: 48, arch: "Ada", tier: "Advanced", memoryType: "GDDR6", memoryBandwidth: 864,
+    tflops: { fp32: 90.5, tf32: 90.5, fp16: 181, bf16: 181, fp8: 362, int8: 362 },
+    interconnect: "PCIe", maxGpusPerNode: 8, computeCapability: "8.9",
+    providerPrices: [{ provider: "brev", price: 1.40 }], notes: "High performance Ada GPU",
+  },
+  {
+    name: "L4", vram: 24, arch: "Ada", tier: "Standard", memoryType: "GDDR6", memoryBandwidth: 300,
+    tflops: { fp32: 30.3, tf32: 60, fp16: 121, bf16: 121, fp8: 242, int8: 242 },
+    interconnect: "PCIe", maxGpusPerNode: 8, computeCapability: "8.9",
+    providerPrices: [{ provider: "brev", price: 0.58 }], notes: "Best value for inference",
+  },
+  {
+    name: "RTX Pro 6000", vram: 48, arch: "Ada", tier: "Pro", memoryType: "GDDR6", memoryBandwidth: 960,
+    tflops: { fp32: 91.1, tf32: 91.1, fp16: 182, bf16: 182, fp8: 364, int8: 364 },
+    interconnect: "PCIe", maxGpusPerNode: 8, computeCapability: "8.9",
+    providerPrices: [{ provider: "brev", price: 1.20 }], notes: "Professional Ada GPU",
+  },
+  {
+    name: "RTX 6000 Ada", vram: 48, arch: "Ada", tier: "Pro", memoryType: "GDDR6", memoryBandwidth: 960,
+    tflops: { fp32: 91.1, tf32: 91.1, fp16: 182, bf16: 182, fp8: 364, int8: 364 },
+    interconnect: "PCIe", maxGpusPerNode: 8, computeCapability: "8.9",
+    providerPrices: [{ provider: "brev", price: 1.20 }], notes: "Workstation-class",
+  },
+  {
+    name: "RTX 4000 Ada", vram: 20, arch: "Ada", tier: "Standard", memoryType: "GDDR6", memoryBandwidth: 360,
+    tflops: { fp32: 26.7, tf32: 26.7, fp16: 53.4, bf16: 53.4, fp8: 106.9, int8: 106.9 },
+    interconnect: "PCIe", maxGpusPerNode: 4, computeCapability: "8.9",
+    providerPrices: [{ provider: "brev", price: 0.55 }], notes: "Entry professional Ada",
+  },
+
+  // Turing
+  {
+    name: "T4", vram: 16, arch: "Turing", tier: "Budget", memoryType: "GDDR6", memoryBandwidth: 320,
+    tflops: { fp32: 8.1, fp16: 65, int8: 130 },
+    interconnect: "PCIe", maxGpusPerNode: 8, computeCapability: "7.5",
+    providerPrices: [{ provider: "brev", price: 0.35 }], notes: "Budget-friendly, good for inference",
+  },
+
+  // Volta
+  {
+    name: "V100", vram: 32, arch: "Volta", tier: "Legacy", memoryType: "HBM2", memoryBandwidth: 900,
+    tflops: { fp32: 15.7, fp16: 125 },
+    interconnect: "NVLink", nvlinkBandwidth: 300, maxGpusPerNode: 8, computeCapability: "7.0",
+    providerPrices: [{ provider: "brev", price: 2.50 }], notes: "Legacy but still capable for training",
+  },
+
+  // Pascal
+  {
+    name: "P4", vram: 8, arch: "Pascal", tier: "Budget", memoryType: "GDDR5", memoryBandwidth: 192,
+    tflops: { fp32: 5.5, int8: 22 },
+    interconnect: "PCIe", maxGpusPerNode: 4, computeCapability: "6.1",
+    providerPrices: [{ provider: "brev", price: 0.25 }], notes: "Very budget option, inference only",
+  },
+
+  // Maxwell
+  {
+    name: "M60", vram: 8, arch: "Maxwell", tier: "Legacy", memoryType: "GDDR5", memoryBandwidth: 160,
+    tflops: { fp32: 4.8 },
+    interconnect: "PCIe", maxGpusPerNode: 4, computeCapability: "5.2",
+    providerPrices: [{ provider: "brev", price: 0.30 }], notes: "Legacy GPU, basic compute",
+  },
+];
+
+/**
+ * Lowest provider price, or 0 when no provider lists the GPU yet (price TBD)
+ */
+export function getLowestPrice(providerPrices: GpuCatalogEntry["providerPrices"]): number {
+  return providerPrices.length > 0 ? Math.min(...providerPrices.map((p) => p.price)) : 0;
+}
+
+export const BREV_GPU_CATALOG: GpuCatalogEntry[] = GPU_SPECS.map((spec) => ({
+  ...spec,
+  count: 1,
+  price: getLowestPrice(spec.providerPrices),
+}));
+
+/** Catalog in use: the static list, or the static list merged with a live sync */
+let activeCatalog: GpuCatalogEntry[] = BREV_GPU_CATALOG;
+
+/**
+ * Catalog the agents and matchers read from
+ */
+export function getGpuCatalog(): GpuCatalogEntry[] {
+  return activeCatalog;
+}
+
+/**
+ * Replace the catalog in use (called by lib/catalog-sync.ts after a sync)
+ */
+export function setActiveGpuCatalog(catalog: GpuCatalogEntry[]): void {
+  activeCatalog = catalog;
+}
+
+/** Display order of architectures, newest first */
+export const ARCHITECTURE_ORDER = ["Blackwell", "Hopper", "Ampere", "Ada", "Turing", "Volta", "Pascal", "Maxwell"];
+
+/** Display order of tiers, highest first */
+export const TIER_ORDER: GpuTier[] = ["Ultra", "Elite", "Pro", "Advanced", "Standard", "Entry", "Budget", "Legacy"];
+
+/**
+ * Minimum CUDA compute capability for each architecture the Specialist can require
+ */
+export const MIN_COMPUTE_CAPABILITY: Record<string, number> = {
+  Any: 0,
+  Ampere: 8.0,
+  Ada: 8.9,
+  Hopper: 9.0,
+};
+
+/**
+ * Whether a GPU satisfies the Specialist's architecture requirement
+ * (newer architectures satisfy older requirements)
+ */
+export function supportsArchitecture(gpu: GpuCatalogEntry, requiredArch: string): boolean {
+  return parseFloat(gpu.computeCapability) >= (MIN_COMPUTE_CAPABILITY[requiredArch] ?? 0);
+}
+
+/**
+ * Hardware features derived from the spec
+ */
+export function getGpuFeatures(gpu: GpuCatalogEntry): string[] {
+  const features: string[] = [];
+  if (parseFloat(gpu.computeCapability) >= 9.0) features.push("Transformer Engine");
+  if (gpu.tflops.fp8) features.push("FP8");
+  if (gpu.tflops.bf16) features.push("BF16");
+  if (gpu.tflops.tf32) features.push("TF32");
+  return features;
+}
+
+/**
+ * One-line spec summary, e.g. "HBM3 3350 GB/s • 989 BF16 TFLOPS • NVLink 900 GB/s"
+ */
+export function formatGpuSpecs(gpu: GpuCatalogEntry): string {
+  const tensorTflops = gpu.tflops.bf16
+    ? `${gpu.tflops.bf16} BF16`
+    : gpu.tflops.fp16
+      ? `${gpu.tflops.fp16} FP16`
+      : `${gpu.tflops.fp32} FP32`;
+  const interconnect = gpu.nvlinkBandwidth ? `${gpu.interconnect} ${gpu.nvlinkBandwidth} GB/s` : gpu.interconnect;
+  return `${gpu.memoryType} ${gpu.memoryBandwidth} GB/s • ${tensorTflops}${gpu.tflops.fp8 ? ` / ${gpu.tflops.fp8} FP8` : ""} TFLOPS • ${interconnect}`;
+}
+
+function describeGpu(gpu: GpuCatalogEntry): string {
+  const features = getGpuFeatures(gpu);
+  const price = gpu.price > 0 ? `$${gpu.price.toFixed(2)}/hr` : "price TBD";
+  const availability = gpu.available === false ? " (currently unavailable on this account)" : "";
+  return `- **${gpu.name}**: ${gpu.vram}GB ${formatGpuSpecs(gpu)}, up to ${gpu.maxGpusPerNode} per node, CC ${gpu.computeCapability}${features.length > 0 ? `, ${features.join("/")}` : ""}, ${price}${availability} - ${gpu.notes}`;
+}
+
+/**
+ * GPU information formatted for the agent's decision making
+ */
+export function getGpuCatalogDescription(catalog: GpuCatalogEntry[] = getGpuCatalog()): string {
+  const sections = ARCHITECTURE_ORDER.map((arch) => {
+    const gpus = catalog.filter((gpu) => gpu.arch === arch);
+    return gpus.length > 0 ? `### ${arch} Architecture\n${gpus.map(describeGpu).join("\n")}` : "";
+  }).filter(Boolean);
+
+  return `## Available GPUs on Brev.dev
+
+The following GPUs are available on Brev. Select based on your VRAM requirements, architecture needs, and budget.
+Note: Actual availability depends on current stock - if a GPU isn't available, try an alternative.
+Specs per GPU: memory type and bandwidth, dense tensor TFLOPS, interconnect, max GPUs per node, CUDA compute capability (CC), features, lowest hourly price.
+
+${sections.join("\n\n")}
+
+## Selection Guidelines
+1. **LLM Training (7B+ params)**: H100, H200, A100-80GB, or multi-GPU setup
+2. **LLM Fine-tuning**: A100-40GB, L40s, A40
+3. **LLM Inference**: L4, T4, A10G (cost-effective)
+4. **Computer Vision**: A10G, L4, T4
+5. **Research/Experimentation**: T4, L4 (budget), A10G (balanced)
+
+When recommending, consider:
+- VRAM requirement (model size + optimizer states + activations)
+- Architecture features needed (FP8, Transformer Engine, etc.)
+- Interconnect for multi-GPU jobs (NVLink scales far better than PCIe)
+- Cost efficiency for the workload type`;
+}
+
+/**
+ * Find GPU by name (case-insensitive)
+ */
+export function getGpuByName(name: string): GpuCatalogEntry | undefined {
+  return getGpuCatalog().find(
+    (gpu) => gpu.name.toLowerCase() === name.toLowerCase()
+  );
+}
+
+/**
+ * Get GPUs that meet minimum VRAM requirement
+ */
+export function getGpusByMinVram(minVram: number): GpuCatalogEntry[] {
+  return getGpuCatalog().filter((gpu) => gpu.vram >= minVram)
+    .sort((a, b) => a.vram - b.vram);
+}
+
+/**
+ * Get GPUs by architecture
+ */
+export function getGpusByArchitecture(arch: string): GpuCatalogEntry[] {
+  return getGpuCatalog().filter(
+    (gpu) => gpu.arch.toLowerCase() === arch.toLowerCase()
+  );
+}
+
+/**
+ * GPUs grouped by tier, highest tier first
+ */
+export function getGpusByTier(
+  catalog: GpuCatalogEntry[] = getGpuCatalog()
+): Array<{ tier: GpuTier; gpus: GpuCatalogEntry[] }> {
+  return TIER_ORDER.map((tier) => ({
+    tier,
+    gpus: catalog.filter((gpu) => gpu.tier === tier),
+  })).filter((group) => group.gpus.length > 0);
+}
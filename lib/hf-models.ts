@@ -0,0 +1,228 @@
+import type { ModelSpec } from "@/types/agentSchemas";
+import { findModelIds } from "@/lib/repo-signals";
+import bundledRegistry from "@/lib/data/hf-model-registry.json";
+
+/**
+ * Hugging Face model-ID resolution.
+ *
+ * Detects model IDs in fetched file contents and resolves them to architecture
+ * specs (parameter count, hidden size, layers, heads, dtype, context length)
+ * from a registry bundled with the app. IDs missing from the bundled registry
+ * can be resolved by an optional remote source:
+ * - `HF_MODEL_REGISTRY_URL`: URL of a JSON file in the same format as
+ *   lib/data/hf-model-registry.json
+ * - or any custom lookup passed to `setModelSpecSource`
+ */
+
+interface RegistryEntry {
+  aliases?: string[];
+  parameter_count: number;
+  hidden_size: number;
+  num_layers: number;
+  num_attention_heads: number;
+  num_key_value_heads: number;
+  default_dtype: string;
+  context_length: number;
+}
+
+interface ModelRegistry {
+  version: string;
+  models: Record<string, RegistryEntry>;
+}
+
+/** Resolves a model ID that is not in the bundled registry */
+export type ModelSpecSource = (modelId: string) => Promise<ModelSpec | null>;
+
+/** Maximum number of model IDs resolved per analysis */
+const MAX_MODEL_IDS = 10;
+
+/** Bare (org-less) names only count when loaded through these calls */
+const BARE_MODEL_ID_PATTERN = /(?:from_pretrained|pipeline\([^)]*model\s*=)\(?\s*["']([\w.-]+)["']/g;
+
+const registry = bundledRegistry as ModelRegistry;
+
+// Lower-cased ID/alias -> canonical ID
+const registryIndex = new Map<string, string>();
+for (const [id, entry] of Object.entries(registry.models)) {
+  registryIndex.set(id.toLowerCase(), id);
+  for (const alias of entry.aliases ?? []) {
+    registryIndex.set(alias.toLowerCase(), id);
+  }
+}
+
+let remoteSource: ModelSpecSource | null = null;
+
+// Remote lookups are cached for the lifetime of the server process
+const remoteCache = new Map<string, ModelSpec | null>();
+let remoteRegistryPromise: Promise<ModelRegistry | null> | null = null;
+
+function toModelSpec(modelId: string, entry: RegistryEntry, source: ModelSpec["source"], version: string): ModelSpec {
+  return {
+    modelId,
+    parameterCount: entry.parameter_count,
+    hiddenSize: entry.hidden_size,
+    numLayers: entry.num_layers,
+    numAttentionHeads: entry.num_attention_heads,
+    numKeyValueHeads: entry.num_key_value_heads,
+    defaultDtype: entry.default_dtype,
+    contextLength: entry.context_length,
+    source,
+    registryVersion: version,
+  };
+}
+
+/** Strip revisions (`org/name@main`) and a leading hub URL */
+function normalizeModelId(modelId: string): string {
+  return modelId
+    .trim()
+    .replace(/^(?:https?:\/\/)?(?:huggingface\.co|hf\.co)\//i, "")
+    .replace(/@.*$/, "");
+}
+
+/**
+ * Version of the bundled model registry
+ */
+export function getModelRegistryVersion(): string {
+  return registry.version;
+}
+
+/**
+ * Look up a model in the bundled registry (case-insensitive, aliases included)
+ */
+export function lookupModelSpec(modelId: string): ModelSpec | null {
+  const canonicalId = registryIndex.get(normalizeModelId(modelId).toLowerCase());
+  if (!canonicalId) {
+    return null;
+  }
+  return toModelSpec(canonicalId, registry.models[canonicalId], "registry", registry.version);
+}
+
+/**
+ * Plug in a remote lookup for IDs the bundled registry does not know.
+ * Pass null to go back to the default (`HF_MODEL_REGISTRY_URL`, if set).
+ */
+export function setModelSpecSource(source: ModelSpecSource | null): void {
+  remoteSource = source;
+  remoteCache.clear();
+}
+
+async function fetchRemoteRegistry(url: string): Promise<ModelRegistry | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(5000) });
+    if (!response.ok) {
+      console.error(`Failed to fetch model registry from ${url}: ${response.status}`);
+      return null;
+    }
+    const data = (await response.json()) as ModelRegistry;
+    return data?.models ? data : null;
+  } catch (error) {
+    console.error("Failed to fetch model registry:", error);
+    return null;
+  }
+}
+
+/**
+ * Default remote source: a JSON registry hosted at `HF_MODEL_REGISTRY_URL`
+ */
+async function lookupRemoteRegistry(modelId: string): Promise<ModelSpec | null> {
+  const url = process.env.HF_MODEL_REGISTRY_URL;
+  if (!url) {
+    return null;
+  }
+
+  remoteRegistryPromise ??= fetchRemoteRegistry(url);
+  const remote = await remoteRegistryPromise;
+  if (!remote) {
+    return null;
+  }
+
+  const needle = modelId.toLowerCase();
+  for (const [id, entry] of Object.entries(remote.models)) {
+    if (id.toLowerCase() === needle || entry.aliases?.some((alias) => alias.toLowerCase() === needle)) {
+      return toModelSpec(id, entry, "remote", remote.version);
+    }
+  }
+  return null;
+}
+
+async function lookupRemote(modelId: string): Promise<ModelSpec | null> {
+  const key = modelId.toLowerCase();
+  if (remoteCache.has(key)) {
+    return remoteCache.get(key) ?? null;
+  }
+
+  let spec: ModelSpec | null = null;
+  try {
+    spec = remoteSource ? await remoteSource(modelId) : await lookupRemoteRegistry(modelId);
+  } catch (error) {
+    console.error(`Remote model lookup failed for ${modelId}:`, error);
+  }
+  remoteCache.set(key, spec);
+  return spec;
+}
+
+/**
+ * Detect Hugging Face model IDs in file contents.
+ * Bare names (e.g. `from_pretrained("gpt2")`) are kept only when the registry knows them.
+ */
+export function detectModelIds(fileContents: Record<string, string>): string[] {
+  const ids = new Set<string>();
+  for (const content of Object.values(fileContents)) {
+    for (const id of findModelIds(content)) {
+      ids.add(normalizeModelId(id));
+    }
+    for (const match of content.matchAll(BARE_MODEL_ID_PATTERN)) {
+      if (registryIndex.has(match[1].toLowerCase())) {
+        ids.add(match[1]);
+      }
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * Resolve every model ID referenced in the fetched files (plus any IDs already
+ * known, e.g. from static repo signals) to architecture specs.
+ * Unresolvable IDs are skipped.
+ */
+export async function resolveModelSpecs(
+  fileContents: Record<string, string>,
+  knownIds: string[] = []
+): Promise<ModelSpec[]> {
+  const candidates = [...new Set([...knownIds.map(normalizeModelId), ...detectModelIds(fileContents)])];
+  const specs: ModelSpec[] = [];
+  const seen = new Set<string>();
+
+  for (const modelId of candidates.slice(0, MAX_MODEL_IDS)) {
+    const spec = lookupModelSpec(modelId) ?? (await lookupRemote(modelId));
+    if (spec && !seen.has(spec.modelId)) {
+      seen.add(spec.modelId);
+      specs.push(spec);
+    }
+  }
+
+  return specs;
+}
+
+/**
+ * Find the spec for a model ID among resolved specs (matching aliases too)
+ */
+export function findModelSpec(specs: ModelSpec[], modelId: string | null | undefined): ModelSpec | null {
+  if (!modelId) {
+    return null;
+  }
+  const normalized = normalizeModelId(modelId).toLowerCase();
+  const canonical = registryIndex.get(normalized)?.toLowerCase() ?? normalized;
+  return specs.find((spec) => spec.modelId.toLowerCase() === canonical) ?? null;
+}
+
+/**
+ * Format resolved specs for inclusion in agent prompts
+ */
+export function formatModelSpecs(specs: ModelSpec[]): string {
+  return specs
+    .map((spec) =>
+      `- **${spec.modelId}**: ${(spec.parameterCount / 1e9).toFixed(2)}B params, hidden ${spec.hiddenSize}, ${spec.numLayers} layers, ${spec.numAttentionHeads} heads (${spec.numKeyValueHeads} KV), ${spec.defaultDtype}, context ${spec.contextLength}`
+    )
+    .join("\n");
+}
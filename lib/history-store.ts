@@ -0,0 +1,233 @@
+import { mkdirSync } from "fs";
+import { dirname, join } from "path";
+import Database from "better-sqlite3";
+import { estimateJobCost } from "@/lib/cost-estimator";
+import type { AnalysisRecord, AnalysisRecordSummary } from "@/types/agentSchemas";
+
+/**
+ * Persistent history of analysis runs, keyed by owner/repo/branch/commit.
+ *
+ * `BREV_DOCTOR_HISTORY` picks the backend: `sqlite` (default, a file at
+ * `BREV_DOCTOR_HISTORY_PATH`), `memory` (lost on restart) or `off`. Other
+ * backends can be plugged in with `setHistoryStore`. Every record belongs to
+ * the user that ran it (`ownerKey`, see getRunOwnerKey in lib/run-store.ts).
+ */
+
+export interface HistoryFilter {
+  owner?: string;
+  repo?: string;
+  branch?: string;
+  commitSha?: string;
+  limit?: number;
+}
+
+export interface HistoryStore {
+  save(ownerKey: string, record: AnalysisRecord): Promise<void>;
+  /** Newest first */
+  list(ownerKey: string, filter?: HistoryFilter): Promise<AnalysisRecordSummary[]>;
+  get(ownerKey: string, id: string): Promise<AnalysisRecord | null>;
+}
+
+const DEFAULT_LIMIT = 50;
+
+let store: HistoryStore | null | undefined;
+
+/**
+ * Row shown in the history list
+ */
+export function summarizeAnalysisRecord(record: AnalysisRecord): AnalysisRecordSummary {
+  const best = record.match?.best ?? null;
+  const jobCost = best && record.needs ? estimateJobCost(record.needs, best) : null;
+
+  return {
+    id: record.id,
+    owner: record.repoMeta.owner,
+    repo: record.repoMeta.repo,
+    branch: record.repoMeta.branch || "main",
+    commitSha: record.commitSha,
+    createdAt: record.createdAt,
+    success: record.success,
+    error: record.error,
+    recommendedGpu: best?.name ?? null,
+    gpuCount: best?.count ?? null,
+    confidence: record.brokerOutput?.match_confidence ?? null,
+    hourlyCost: best ? best.price * best.count : null,
+    totalCost: jobCost?.totalCost ?? null,
+  };
+}
+
+function matchesFilter(summary: AnalysisRecordSummary, filter: HistoryFilter): boolean {
+  return (!filter.owner || summary.owner === filter.owner)
+    && (!filter.repo || summary.repo === filter.repo)
+    && (!filter.branch || summary.branch === filter.branch)
+    && (!filter.commitSha || summary.commitSha === filter.commitSha);
+}
+
+export function createMemoryHistoryStore(): HistoryStore {
+  const records = new Map<string, { ownerKey: string; record: AnalysisRecord }>();
+
+  return {
+    async save(ownerKey, record) {
+      records.set(record.id, { ownerKey, record });
+    },
+    async list(ownerKey, filter = {}) {
+      return [...records.values()]
+        .filter((entry) => entry.ownerKey === ownerKey)
+        .map((entry) => summarizeAnalysisRecord(entry.record))
+        .filter((summary) => matchesFilter(summary, filter))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, filter.limit ?? DEFAULT_LIMIT);
+    },
+    async get(ownerKey, id) {
+      const entry = records.get(id);
+      return entry && entry.ownerKey === ownerKey ? entry.record : null;
+    },
+  };
+}
+
+interface SummaryRow {
+  id: string;
+  owner: string;
+  repo: string;
+  branch: string;
+  commit_sha: string | null;
+  created_at: string;
+  success: number;
+  error: string | null;
+  recommended_gpu: string | null;
+  gpu_count: number | null;
+  confidence: string | null;
+  hourly_cost: number | null;
+  total_cost: number | null;
+}
+
+export function createSqliteHistoryStore(path: string): HistoryStore {
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS analysis_runs (
+      id TEXT PRIMARY KEY,
+      owner_key TEXT NOT NULL,
+      owner TEXT NOT NULL,
+      repo TEXT NOT NULL,
+      branch TEXT NOT NULL,
+      commit_sha TEXT,
+      created_at TEXT NOT NULL,
+      success INTEGER NOT NULL,
+      error TEXT,
+      recommended_gpu TEXT,
+      gpu_count INTEGER,
+      confidence TEXT,
+      hourly_cost REAL,
+      total_cost REAL,
+      record TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS analysis_runs_by_repo
+      ON analysis_runs (owner_key, owner, repo, branch, commit_sha, created_at);
+  `);
+
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO analysis_runs
+      (id, owner_key, owner, repo, branch, commit_sha, created_at, success, error,
+       recommended_gpu, gpu_count, confidence, hourly_cost, total_cost, record)
+    VALUES
+      (@id, @ownerKey, @owner, @repo, @branch, @commitSha, @createdAt, @success, @error,
+       @recommendedGpu, @gpuCount, @confidence, @hourlyCost, @totalCost, @record)
+  `);
+  const select = db.prepare<[string, string], { record: string }>(
+    "SELECT record FROM analysis_runs WHERE owner_key = ? AND id = ?"
+  );
+
+  return {
+    async save(ownerKey, record) {
+      const summary = summarizeAnalysisRecord(record);
+      insert.run({
+        ...summary,
+        ownerKey,
+        success: summary.success ? 1 : 0,
+        error: summary.error ?? null,
+        record: JSON.stringify(record),
+      });
+    },
+    async list(ownerKey, filter = {}) {
+      // Only bind parameters the query uses
+      const params: Record<string, unknown> = { ownerKey, limit: filter.limit ?? DEFAULT_LIMIT };
+      const conditions = ["owner_key = @ownerKey"];
+      const columns = { owner: "owner", repo: "repo", branch: "branch", commitSha: "commit_sha" } as const;
+      for (const [key, column] of Object.entries(columns)) {
+        const value = filter[key as keyof typeof columns];
+        if (value) {
+          conditions.push(`${column} = @${key}`);
+          params[key] = value;
+        }
+      }
+
+      const rows = db.prepare<Record<string, unknown>, SummaryRow>(`
+        SELECT id, owner, repo, branch, commit_sha, created_at, success, error,
+               recommended_gpu, gpu_count, confidence, hourly_cost, total_cost
+        FROM analysis_runs
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY created_at DESC
+        LIMIT @limit
+      `).all(params);
+
+      return rows.map((row) => ({
+        id: row.id,
+        owner: row.owner,
+        repo: row.repo,
+        branch: row.branch,
+        commitSha: row.commit_sha,
+        createdAt: row.created_at,
+        success: row.success === 1,
+        error: row.error ?? undefined,
+        recommendedGpu: row.recommended_gpu,
+        gpuCount: row.gpu_count,
+        confidence: row.confidence,
+        hourlyCost: row.hourly_cost,
+        totalCost: row.total_cost,
+      }));
+    },
+    async get(ownerKey, id) {
+      const row = select.get(ownerKey, id);
+      return row ? (JSON.parse(row.record) as AnalysisRecord) : null;
+    },
+  };
+}
+
+/**
+ * The configured store, or null when history is off
+ */
+export function getHistoryStore(): HistoryStore | null {
+  if (store !== undefined) return store;
+
+  const backend = process.env.BREV_DOCTOR_HISTORY || "sqlite";
+  if (backend === "off") {
+    store = null;
+  } else if (backend === "memory") {
+    store = createMemoryHistoryStore();
+  } else {
+    store = createSqliteHistoryStore(
+      process.env.BREV_DOCTOR_HISTORY_PATH || join(process.cwd(), ".brev-doctor", "history.db")
+    );
+  }
+  return store;
+}
+
+/**
+ * Replace the history backend (null turns history off)
+ */
+export function setHistoryStore(next: HistoryStore | null): void {
+  store = next;
+}
+
+/**
+ * Save a run; failures are logged so history never breaks an analysis
+ */
+export async function saveAnalysisRecord(ownerKey: string, record: AnalysisRecord): Promise<void> {
+  try {
+    await getHistoryStore()?.save(ownerKey, record);
+  } catch (error) {
+    console.error("Failed to save analysis history:", error);
+  }
+}
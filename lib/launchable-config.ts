@@ -0,0 +1,466 @@
+import {
+  LaunchableConfigSchema,
+  LaunchableConstraintsSchema,
+  type BrevInstance,
+  type LaunchableChange,
+  type LaunchableConfig,
+  type LaunchableConstraints,
+  type SpecialistOutput,
+} from "@/types/agentSchemas";
+
+/**
+ * Typed `brev-launchable.yaml`: build, serialize and parse it.
+ *
+ * The file is a small YAML subset (top-level scalars, one level of sections
+ * and `[a, b]` or `- a` lists), so it is read and written here without a YAML
+ * dependency.
+ * Serializing over an existing file only rewrites the values that changed,
+ * keeping the user's comments, ordering and extra keys.
+ */
+
+export const LAUNCHABLE_PATH = "brev-launchable.yaml";
+export const SETUP_SCRIPT_PATH = ".brev/setup.sh";
+/** Constraints for repositories that keep them apart from the generated launchable */
+export const CONSTRAINTS_PATH = ".brev/constraints.yaml";
+
+/** String keys whose unquoted value may look numeric, e.g. `version: 1.0` or `gpu: 4090` */
+const STRING_KEYS = new Set(["name", "version", "compute.gpu", "compute.architecture", "workload.type", "setup.script"]);
+
+/** Keys written with a GB suffix */
+const GIGABYTE_KEYS = new Set(["compute.vram", "requirements.estimatedVram", "requirements.systemRam", "requirements.diskSpace"]);
+
+const HEADER = ["# Brev.dev Launchable Configuration", "# Generated by Brev Doctor"];
+const FOOTER = "# Launch this environment at https://brev.dev";
+
+/** Values YAML would read as something other than a string */
+const RESERVED_SCALARS = /^(true|false|yes|no|on|off|null|~|-?\d+(\.\d+)?(e-?\d+)?|\.\d+)$/i;
+
+type Scalar = string | number | boolean | string[];
+
+interface YamlEntry {
+  /** `compute.gpu` for section keys, `name` for top-level keys */
+  key: string;
+  section: string | null;
+  value: Scalar;
+  /** Unquoted text of the value */
+  text: string;
+  line: number;
+  /** Last line of the value, after `line` for block lists */
+  endLine: number;
+  indent: string;
+  /** Inline comment (with leading whitespace) after the value */
+  comment: string;
+}
+
+interface YamlDocument {
+  entries: YamlEntry[];
+  /** Line index of each section header */
+  sections: Map<string, number>;
+  lines: string[];
+  /** Line ending of the file, kept when patching */
+  eol: string;
+}
+
+export type LaunchableParseResult =
+  | { success: true; config: LaunchableConfig }
+  | { success: false; error: string };
+
+export type ConstraintsParseResult =
+  | { success: true; constraints: LaunchableConstraints | null }
+  | { success: false; error: string };
+
+/** The generated configuration, carrying over the user's constraints */
+export function buildLaunchableConfig(
+  instance: BrevInstance,
+  needs: SpecialistOutput,
+  constraints?: LaunchableConstraints
+): LaunchableConfig {
+  return {
+    name: "brev-launchable",
+    version: "1.0",
+    compute: {
+      gpu: instance.name,
+      gpuCount: instance.count,
+      vram: instance.vram,
+      architecture: instance.arch,
+    },
+    workload: {
+      type: needs.workload_type,
+    },
+    requirements: {
+      estimatedVram: needs.estimated_vram_gb,
+      cpuCores: needs.recommended_cpu_cores,
+      systemRam: needs.recommended_system_ram_gb,
+      diskSpace: needs.estimated_disk_space_gb,
+    },
+    setup: {
+      script: SETUP_SCRIPT_PATH,
+    },
+    ...(constraints ? { constraints } : {}),
+  };
+}
+
+/** Items of an inline list such as `[A100, "RTX 6000 Ada"]`; items cannot contain commas */
+function parseFlowSequence(body: string, line: number): string[] {
+  if (!body.trim()) return [];
+  return body.split(",").map((item) => {
+    const text = item.trim();
+    if (!text) throw new Error(`Line ${line + 1}: empty list item`);
+    if (text[0] === '"' || text[0] === "'") {
+      const value = parseScalar(text, line).value;
+      if (typeof value !== "string") throw new Error(`Line ${line + 1}: unsupported list item "${text}"`);
+      return value;
+    }
+    if (/^[[\]{}]/.test(text)) throw new Error(`Line ${line + 1}: nested lists are not supported`);
+    return text;
+  });
+}
+
+/** Parse a scalar, returning the value and any trailing comment */
+function parseScalar(raw: string, line: number): { value: Scalar; text: string; comment: string } {
+  const quote = raw[0];
+  if (quote === '"' || quote === "'") {
+    let end = 1;
+    while (end < raw.length) {
+      if (quote === '"' && raw[end] === "\\") end += 2;
+      else if (raw[end] === quote && quote === "'" && raw[end + 1] === "'") end += 2;
+      else if (raw[end] === quote) break;
+      else end++;
+    }
+    if (end >= raw.length) throw new Error(`Line ${line + 1}: unterminated string`);
+
+    const rest = raw.slice(end + 1);
+    if (rest.trim() && !rest.trim().startsWith("#")) throw new Error(`Line ${line + 1}: unexpected text after string`);
+    const body = raw.slice(0, end + 1);
+    const value = quote === '"' ? JSON.parse(body) as string : body.slice(1, -1).replace(/''/g, "'");
+    return { value, text: value, comment: rest.trimEnd() };
+  }
+
+  const commentStart = raw.search(/\s+#/);
+  const text = (commentStart === -1 ? raw : raw.slice(0, commentStart)).trim();
+  const comment = commentStart === -1 ? "" : raw.slice(commentStart).trimEnd();
+  if (text.startsWith("[") && text.endsWith("]")) {
+    return { value: parseFlowSequence(text.slice(1, -1), line), text, comment };
+  }
+  if (/^[[{|>&*!]/.test(text)) throw new Error(`Line ${line + 1}: unsupported YAML value "${text}"`);
+  if (text === "true" || text === "false") return { value: text === "true", text, comment };
+  return { value: /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : text, text, comment };
+}
+
+const isBlank = (text: string) => !text.trim() || text.trimStart().startsWith("#");
+
+/**
+ * Items of a block list (`    - A100`) starting after `line`, indented
+ * deeper than its key. Null when no list follows.
+ */
+function readBlockList(lines: string[], line: number, keyIndent: number): { items: string[]; endLine: number } | null {
+  const items: string[] = [];
+  let endLine = line;
+  for (let next = line + 1; next < lines.length; next++) {
+    if (isBlank(lines[next])) continue;
+    const item = lines[next].match(/^( *)-(?:[ \t]+(.*))?$/);
+    if (!item || item[1].length <= keyIndent) break;
+
+    const value = parseScalar((item[2] ?? "").trim(), next).value;
+    if (typeof value === "boolean" || Array.isArray(value) || value === "") {
+      throw new Error(`Line ${next + 1}: list items must be plain values`);
+    }
+    items.push(String(value));
+    endLine = next;
+  }
+  return items.length > 0 ? { items, endLine } : null;
+}
+
+/** Header of a block scalar: `|` (literal) or `>` (folded), optional chomping indicator and comment */
+const BLOCK_SCALAR_HEADER = /^([|>])([+-]?)\s*(#.*)?$/;
+
+/**
+ * Text of a block scalar (`key: |` or `key: >`) whose lines follow `line`,
+ * indented deeper than its key
+ */
+function readBlockScalar(lines: string[], line: number, keyIndent: number, header: RegExpMatchArray): { value: string; endLine: number } {
+  let endLine = line;
+  for (let next = line + 1; next < lines.length; next++) {
+    const text = lines[next];
+    if (!text.trim()) continue;
+    if (text.length - text.trimStart().length <= keyIndent) break;
+    endLine = next;
+  }
+
+  const body = lines.slice(line + 1, endLine + 1);
+  const indent = Math.min(...body.filter((text) => text.trim()).map((text) => text.length - text.trimStart().length));
+  const rows = body.map((text) => text.slice(indent));
+  // Folded scalars join lines with spaces; blank lines become line breaks
+  const joined = header[1] === "|" ? rows.join("\n") : rows.join("\n").replace(/\n(\n*)/g, (_, breaks: string) => breaks || " ");
+  const [, , chomping] = header;
+  const value = !joined ? "" : chomping === "-" ? joined : `${joined}\n`;
+  return { value, endLine };
+}
+
+function readYaml(content: string): YamlDocument {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  const entries: YamlEntry[] = [];
+  const sections = new Map<string, number>();
+  let section: string | null = null;
+
+  for (let line = 0; line < lines.length; line++) {
+    const text = lines[line];
+    if (isBlank(text)) continue;
+
+    const match = text.match(/^( *)([A-Za-z_][\w-]*):(?:[ \t]+(.*))?$/);
+    if (!match) {
+      throw new Error(/^\s*-(\s|$)/.test(text)
+        ? `Line ${line + 1}: lists are only supported as values of section keys`
+        : `Line ${line + 1}: expected "key: value"`);
+    }
+    const [, indent, key, raw = ""] = match;
+    const entry = {
+      key: indent ? `${section}.${key}` : key,
+      section: indent ? section : null,
+      line,
+      indent,
+    };
+
+    if (!indent) {
+      if (isBlank(raw)) {
+        section = key;
+        sections.set(key, line);
+        continue;
+      }
+      section = null;
+    } else if (!section) {
+      throw new Error(`Line ${line + 1}: indented key outside a section`);
+    } else if (isBlank(raw)) {
+      const list = readBlockList(lines, line, indent.length);
+      if (!list) throw new Error(`Line ${line + 1}: nesting deeper than one section is not supported`);
+      entries.push({
+        ...entry,
+        value: list.items,
+        text: `[${list.items.join(", ")}]`,
+        endLine: list.endLine,
+        comment: raw.trimEnd() ? ` ${raw.trim()}` : "",
+      });
+      line = list.endLine;
+      continue;
+    }
+
+    const blockHeader = raw.trim().match(BLOCK_SCALAR_HEADER);
+    if (blockHeader) {
+      const block = readBlockScalar(lines, line, indent.length, blockHeader);
+      entries.push({
+        ...entry,
+        value: block.value,
+        text: block.value,
+        endLine: block.endLine,
+        comment: blockHeader[3] ? ` ${blockHeader[3]}` : "",
+      });
+      line = block.endLine;
+      continue;
+    }
+
+    const { value, text: valueText, comment } = parseScalar(raw, line);
+    entries.push({ ...entry, value, text: valueText, endLine: line, comment });
+  }
+
+  return { entries, sections, lines, eol };
+}
+
+function entryValue(entry: YamlEntry): Scalar {
+  return STRING_KEYS.has(entry.key) ? entry.text : entry.value;
+}
+
+/**
+ * Read and validate brev-launchable.yaml
+ */
+export function parseLaunchable(content: string): LaunchableParseResult {
+  let document: YamlDocument;
+  try {
+    document = readYaml(content);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Invalid YAML" };
+  }
+
+  const raw: Record<string, unknown> = {};
+  for (const entry of document.entries) {
+    const value = entryValue(entry);
+    if (entry.section) {
+      const section = (raw[entry.section] ??= {}) as Record<string, Scalar>;
+      section[entry.key.slice(entry.section.length + 1)] = value;
+    } else {
+      raw[entry.key] = value;
+    }
+  }
+
+  const parsed = LaunchableConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; "),
+    };
+  }
+  return { success: true, config: parsed.data };
+}
+
+/**
+ * Read only the `constraints:` section, so constraints still apply when the
+ * rest of the file is outdated or hand-edited. Null when there is no section;
+ * an error when there is one that cannot be read.
+ */
+export function parseLaunchableConstraints(content: string): ConstraintsParseResult {
+  let document: YamlDocument;
+  try {
+    document = readYaml(content);
+  } catch (error) {
+    // Unsupported YAML elsewhere only matters when the file has constraints
+    if (!/^constraints:/m.test(content)) return { success: true, constraints: null };
+    return { success: false, error: error instanceof Error ? error.message : "Invalid YAML" };
+  }
+  if (!document.sections.has("constraints")) return { success: true, constraints: null };
+
+  const raw = Object.fromEntries(
+    document.entries
+      .filter((entry) => entry.section === "constraints")
+      .map((entry) => [entry.key.slice("constraints.".length), entry.value])
+  );
+  const parsed = LaunchableConstraintsSchema.strict().safeParse(raw);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.issues.map((issue) => `${["constraints", ...issue.path].join(".")}: ${issue.message}`).join("; "),
+    };
+  }
+  return { success: true, constraints: parsed.data };
+}
+
+/** `compute.gpu` → value, in serialization order */
+function flattenConfig(config: LaunchableConfig): Array<[string, Scalar]> {
+  const flat: Array<[string, Scalar]> = [];
+  for (const [key, value] of Object.entries(config)) {
+    if (typeof value === "object") {
+      for (const [child, childValue] of Object.entries(value)) flat.push([`${key}.${child}`, childValue as Scalar]);
+    } else {
+      flat.push([key, value]);
+    }
+  }
+  return flat;
+}
+
+function formatScalar(key: string, value: Scalar): string {
+  if (Array.isArray(value)) return `[${value.map((item) => formatScalar(key, item)).join(", ")}]`;
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "number") return GIGABYTE_KEYS.has(key) ? `${value}GB` : String(value);
+  const plain = /^[A-Za-z0-9./][\w./+() -]*$/.test(value) && value === value.trim() && !RESERVED_SCALARS.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+/**
+ * Write a launchable. Given the file currently in the repository, only the
+ * lines whose values changed are rewritten; a file that cannot be read is
+ * never overwritten, since that would drop the user's keys and comments.
+ */
+export function serializeLaunchable(config: LaunchableConfig, previous?: string | null): string {
+  const flat = flattenConfig(config);
+
+  if (previous) {
+    let document: YamlDocument;
+    try {
+      document = readYaml(previous);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Invalid YAML";
+      throw new Error(`${LAUNCHABLE_PATH} cannot be updated in place (${reason}). Fix the file or remove it, then try again.`);
+    }
+    return patchLaunchable(document, flat);
+  }
+
+  const lines = [...HEADER, ""];
+  let section: string | null = null;
+  for (const [key, value] of flat) {
+    const [head, child] = key.split(".");
+    if (!child) {
+      lines.push(`${head}: ${formatScalar(key, value)}`);
+      continue;
+    }
+    if (head !== section) {
+      lines.push("", `${head}:`);
+      section = head;
+    }
+    lines.push(`  ${child}: ${formatScalar(key, value)}`);
+  }
+  lines.push("", FOOTER, "");
+  return lines.join("\n");
+}
+
+function patchLaunchable(document: YamlDocument, flat: Array<[string, Scalar]>): string {
+  const lines = [...document.lines];
+  const byKey = new Map(document.entries.map((entry) => [entry.key, entry]));
+  /** Continuation lines of rewritten block lists and block scalars */
+  const removed = new Set<number>();
+  /** Lines to add after a given line index */
+  const inserts = new Map<number, string[]>();
+  const appended: string[] = [];
+  const insertAfter = (line: number, text: string) => inserts.set(line, [...(inserts.get(line) ?? []), text]);
+
+  for (const [key, value] of flat) {
+    const formatted = formatScalar(key, value);
+    const entry = byKey.get(key);
+    if (entry) {
+      const existing = entryValue(entry);
+      if (existing !== value && formatScalar(key, existing) !== formatted) {
+        const name = entry.section ? key.slice(entry.section.length + 1) : key;
+        lines[entry.line] = `${entry.indent}${name}: ${formatted}${entry.comment}`;
+        for (let line = entry.line + 1; line <= entry.endLine; line++) removed.add(line);
+      }
+      continue;
+    }
+
+    const [head, child] = key.split(".");
+    if (!child) {
+      appended.push(`${head}: ${formatted}`);
+    } else if (document.sections.has(head)) {
+      // After the last key of the section, or its header
+      const last = document.entries.filter((e) => e.section === head).at(-1)?.endLine ?? document.sections.get(head)!;
+      insertAfter(last, `  ${child}: ${formatted}`);
+    } else {
+      if (!appended.includes(`${head}:`)) appended.push("", `${head}:`);
+      appended.push(`  ${child}: ${formatted}`);
+    }
+  }
+
+  const output = lines.flatMap((line, index) => [...(removed.has(index) ? [] : [line]), ...(inserts.get(index) ?? [])]);
+  if (appended.length > 0) {
+    while (output.length > 0 && output[output.length - 1] === "") output.pop();
+    output.push(...appended, "");
+  }
+  return output.join(document.eol);
+}
+
+/**
+ * Values that differ between two launchables. With no current launchable
+ * every value is new.
+ */
+export function diffLaunchables(before: LaunchableConfig | null, after: LaunchableConfig): LaunchableChange[] {
+  const previous = new Map(before ? flattenConfig(before) : []);
+  const next = new Map(flattenConfig(after));
+  const keys = [...new Set([...previous.keys(), ...next.keys()])];
+
+  return keys
+    .map((key) => ({
+      key,
+      before: previous.has(key) ? formatScalar(key, previous.get(key)!) : null,
+      after: next.has(key) ? formatScalar(key, next.get(key)!) : null,
+    }))
+    .filter((change) => change.before !== change.after);
+}
+
+/**
+ * `key` → formatted value for every entry of a launchable file, valid or not.
+ * Empty when the file cannot be read.
+ */
+export function readLaunchableValues(content: string): Map<string, string> {
+  try {
+    return new Map(readYaml(content).entries.map((entry) => [entry.key, formatScalar(entry.key, entryValue(entry))]));
+  } catch {
+    return new Map();
+  }
+}
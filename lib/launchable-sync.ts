@@ -0,0 +1,123 @@
+import { createPR, getFileContentIfExists } from "@/lib/github";
+import { runWithFixtures, getFixtureName } from "@/lib/fixtures";
+import { runAnalysisPipeline } from "@/lib/orchestrator";
+import { createAnalysisQueue, type AnalysisJob, type AnalysisQueue } from "@/lib/analysis-queue";
+import {
+  buildLaunchableFiles,
+  describeLaunchableChanges,
+  launchableFileChanged,
+  LAUNCHABLE_PATH,
+  type LaunchableFile,
+} from "@/lib/launchable";
+import { parseLaunchable } from "@/lib/launchable-config";
+import { DOCKERFILE_PATH, DEVCONTAINER_PATH } from "@/lib/container-config";
+import { loadSetupScriptContext } from "@/lib/setup-script";
+import { analyzeSetupCommands, getUnacknowledgedCommands } from "@/lib/command-safety";
+import { estimateJobCost, formatJobCostTable } from "@/lib/cost-estimator";
+
+/**
+ * Keeps a merged Brev configuration current: re-analyzes a branch and opens
+ * (or updates the open) setup PR when the recommended GPU, GPU count or VRAM
+ * differs from the committed `brev-launchable.yaml`. Estimates that move
+ * without changing those are not worth a PR.
+ * Branches without a committed `brev-launchable.yaml` are left alone.
+ *
+ * Background jobs have no user session, so they use `GITHUB_WEBHOOK_TOKEN`
+ * and save their history under WEBHOOK_OWNER_KEY. They run in process memory
+ * after the webhook was answered, which needs a long-lived server.
+ */
+
+export const WEBHOOK_OWNER_KEY = "github-webhook";
+
+export type LaunchableSyncOutcome =
+  | { status: "skipped"; reason: string }
+  | { status: "unchanged" }
+  | { status: "updated"; prUrl: string; changelog: string[] };
+
+/** Compute keys whose change warrants a setup PR */
+const MATERIAL_KEYS = ["gpu", "gpuCount", "vram"] as const;
+
+let queue: AnalysisQueue | null = null;
+
+/**
+ * Whether the generated launchable recommends a different machine than the committed one
+ */
+function launchableMateriallyChanged(current: string, next: string): boolean {
+  const before = parseLaunchable(current);
+  const after = parseLaunchable(next);
+  if (!before.success || !after.success) return true;
+  return MATERIAL_KEYS.some((key) => before.config.compute[key] !== after.config.compute[key]);
+}
+
+export async function syncLaunchable(accessToken: string, job: AnalysisJob): Promise<LaunchableSyncOutcome> {
+  const { repoMeta, commitSha, reason } = job;
+  const { owner, repo } = repoMeta;
+  const ref = commitSha ?? (repoMeta.branch || "main");
+
+  const currentLaunchable = await getFileContentIfExists(accessToken, owner, repo, LAUNCHABLE_PATH, ref);
+  if (currentLaunchable === null) {
+    return { status: "skipped", reason: `No ${LAUNCHABLE_PATH} on ${repoMeta.branch || "main"}` };
+  }
+
+  const analysis = await runAnalysisPipeline({ accessToken, userKey: WEBHOOK_OWNER_KEY, repoMeta, commitSha });
+  const best = analysis.match.best;
+  if (!best) {
+    return { status: "skipped", reason: "No suitable GPU for the new requirements" };
+  }
+
+  // Nobody is around to acknowledge risky commands in the background
+  const blocked = getUnacknowledgedCommands(analyzeSetupCommands(analysis.needs.setup_commands));
+  if (blocked.length > 0) {
+    return { status: "skipped", reason: `Setup commands need review: ${blocked.join("; ")}` };
+  }
+
+  const context = await loadSetupScriptContext(accessToken, WEBHOOK_OWNER_KEY, repoMeta);
+  const current: Record<string, string | null> = {};
+  // Container files are kept current only where they were committed before
+  for (const path of [DOCKERFILE_PATH, DEVCONTAINER_PATH]) {
+    current[path] = await getFileContentIfExists(accessToken, owner, repo, path, ref);
+  }
+  let files: LaunchableFile[];
+  try {
+    files = buildLaunchableFiles(analysis.needs, best, context, {
+      dockerfile: current[DOCKERFILE_PATH] !== null,
+      devcontainer: current[DEVCONTAINER_PATH] !== null,
+    }, currentLaunchable);
+  } catch (error) {
+    // The committed launchable cannot be patched without losing the user's edits
+    return { status: "skipped", reason: error instanceof Error ? error.message : `Could not update ${LAUNCHABLE_PATH}` };
+  }
+  const launchable = files.find((file) => file.path === LAUNCHABLE_PATH);
+  if (!launchable || !launchableMateriallyChanged(currentLaunchable, launchable.content)) {
+    return { status: "unchanged" };
+  }
+
+  const pr = await createPR({
+    accessToken,
+    owner,
+    repo,
+    baseBranch: repoMeta.branch || "main",
+    files,
+    details: `### Why\nRe-analysis after ${reason} changed the recommended configuration.\n\n### Estimated Job Cost\n${formatJobCostTable([estimateJobCost(analysis.needs, best)])}`,
+    fileChanged: launchableFileChanged,
+    describeChanges: describeLaunchableChanges,
+  });
+  // The open setup PR may already carry these files from an earlier run
+  if (pr.status === "unchanged") return { status: "unchanged" };
+  return { status: "updated", prUrl: pr.url, changelog: pr.changelog };
+}
+
+/**
+ * The shared background queue, or null when `GITHUB_WEBHOOK_TOKEN` is unset
+ */
+export function getLaunchableSyncQueue(): AnalysisQueue | null {
+  const accessToken = process.env.GITHUB_WEBHOOK_TOKEN;
+  if (!accessToken) return null;
+
+  // Failed jobs are logged by the queue
+  queue ??= createAnalysisQueue(async (job) => {
+    // Records or replays agent, GitHub and Brev responses when BREV_DOCTOR_FIXTURES is set
+    await runWithFixtures(getFixtureName(job.repoMeta), () => syncLaunchable(accessToken, job));
+  });
+  return queue;
+}
@@ -0,0 +1,114 @@
+import { generateSetupScript } from "@/lib/setup-script";
+import { generateDockerfile, generateDevcontainer, DOCKERFILE_PATH, DEVCONTAINER_PATH } from "@/lib/container-config";
+import {
+  buildLaunchableConfig,
+  parseLaunchableConstraints,
+  readLaunchableValues,
+  serializeLaunchable,
+  LAUNCHABLE_PATH,
+  SETUP_SCRIPT_PATH,
+} from "@/lib/launchable-config";
+import type {
+  BrevInstance,
+  LaunchableOptions,
+  SetupScriptContext,
+  SpecialistOutput,
+} from "@/types/agentSchemas";
+
+/**
+ * Files Brev Doctor commits to a repository: the setup script, the
+ * launchable configuration that points at it, and optionally container files.
+ */
+
+export { LAUNCHABLE_PATH, SETUP_SCRIPT_PATH };
+
+const SHELL_KEYWORDS = new Set(["then", "else", "fi", "do", "done", "esac", "PY"]);
+
+export interface LaunchableFile {
+  path: string;
+  content: string;
+}
+
+export function buildLaunchableFiles(
+  needs: SpecialistOutput,
+  instance: BrevInstance,
+  context?: SetupScriptContext,
+  options: LaunchableOptions = {},
+  currentLaunchable: string | null = null
+): LaunchableFile[] {
+  const files = [
+    { path: SETUP_SCRIPT_PATH, content: generateSetupScript(needs, instance, context) },
+    { path: LAUNCHABLE_PATH, content: generateBrevYaml(instance, needs, currentLaunchable) },
+  ];
+  if (options.dockerfile) {
+    files.push({ path: DOCKERFILE_PATH, content: generateDockerfile(needs, instance, context) });
+  }
+  if (options.devcontainer) {
+    files.push({ path: DEVCONTAINER_PATH, content: generateDevcontainer(needs, instance, context, !!options.dockerfile) });
+  }
+  return files;
+}
+
+/**
+ * Whether two versions of a generated file differ, ignoring generation stamps
+ */
+export function launchableFileChanged(current: string, next: string): boolean {
+  const normalize = (content: string) =>
+    content
+      .split("\n")
+      .filter((line) => !line.startsWith("# Generated"))
+      .map((line) => line.trimEnd())
+      .join("\n")
+      .trim();
+  return normalize(current) !== normalize(next);
+}
+
+/**
+ * Human-readable changelog between two versions of a generated file, e.g.
+ * "compute.gpu: L4 → L40S" or "Setup command added: `pip install vllm`"
+ */
+export function describeLaunchableChanges(path: string, before: string | null, after: string): string[] {
+  if (before === null) return [`Added \`${path}\``];
+
+  if (path === LAUNCHABLE_PATH) {
+    const previous = readLaunchableValues(before);
+    const next = readLaunchableValues(after);
+    const keys = [...new Set([...previous.keys(), ...next.keys()])];
+    return keys
+      .filter((key) => previous.get(key) !== next.get(key))
+      .map((key) => `\`${key}\`: ${previous.get(key) ?? "(none)"} → ${next.get(key) ?? "(removed)"}`);
+  }
+
+  if (path === SETUP_SCRIPT_PATH) {
+    const commands = (script: string) =>
+      script
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith("#") && !line.startsWith("echo ") && !SHELL_KEYWORDS.has(line));
+    const previous = new Set(commands(before));
+    const next = new Set(commands(after));
+    return [
+      ...[...next].filter((cmd) => !previous.has(cmd)).map((cmd) => `Setup command added: \`${cmd}\``),
+      ...[...previous].filter((cmd) => !next.has(cmd)).map((cmd) => `Setup command removed: \`${cmd}\``),
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * brev-launchable.yaml for an instance. Given the file already in the
+ * repository, only changed values are rewritten and its own `constraints:`
+ * section is kept; constraints from .brev/constraints.yaml stay there.
+ */
+export function generateBrevYaml(
+  instance: BrevInstance,
+  needs: SpecialistOutput,
+  current: string | null = null
+): string {
+  const own = current === null ? null : parseLaunchableConstraints(current);
+  if (own && !own.success) {
+    throw new Error(`The constraints in ${LAUNCHABLE_PATH} could not be read (${own.error}).`);
+  }
+  return serializeLaunchable(buildLaunchableConfig(instance, needs, own?.constraints ?? undefined), current);
+}
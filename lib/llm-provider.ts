@@ -0,0 +1,212 @@
+import { generateObject, streamObject, type DeepPartial, type FlexibleSchema, type InferSchema, type LanguageModel } from "ai";
+import { openai, createOpenAI } from "@ai-sdk/openai";
+import { withFixture } from "@/lib/fixtures";
+
+/**
+ * Model provider configuration for the agents.
+ *
+ * Each agent reads an ordered model chain from the environment: the first
+ * model is primary, the rest are fallbacks tried when a call fails or times
+ * out. Models are written as `provider:model`:
+ *
+ * - `openai:gpt-4o` - hosted OpenAI (a bare model name means OpenAI)
+ * - `local:qwen2.5-32b-instruct` - any OpenAI-compatible server at
+ *   `LLM_LOCAL_BASE_URL` (vLLM, Ollama, LM Studio, ...)
+ *
+ * With `PRIVATE_REPO_LOCAL_ONLY=true`, private repositories are only ever
+ * sent to local models.
+ */
+
+export type AgentName = "scout" | "specialist" | "broker";
+
+export type ModelProviderName = "openai" | "local";
+
+export interface ModelChoice {
+  /** As configured, e.g. "local:llama3.1:70b" */
+  id: string;
+  provider: ModelProviderName;
+  modelId: string;
+  /** Whether prompts leave our infrastructure */
+  hosted: boolean;
+}
+
+export interface AgentModelOptions {
+  /** Repo contents may not be sent to hosted providers */
+  privateRepo?: boolean;
+}
+
+const DEFAULT_MODELS = "openai:gpt-4o";
+const DEFAULT_TIMEOUT_MS = 120000;
+
+let localProvider: ReturnType<typeof createOpenAI> | null = null;
+
+function getLocalProvider(): ReturnType<typeof createOpenAI> {
+  const baseURL = process.env.LLM_LOCAL_BASE_URL;
+  if (!baseURL) {
+    throw new Error("LLM_LOCAL_BASE_URL is required for local models");
+  }
+  localProvider ??= createOpenAI({
+    name: "local",
+    baseURL,
+    apiKey: process.env.LLM_LOCAL_API_KEY || "local",
+  });
+  return localProvider;
+}
+
+/**
+ * Parse "provider:model" (only the first colon separates, so Ollama tags survive)
+ */
+export function parseModelChoice(id: string): ModelChoice {
+  const trimmed = id.trim();
+  const separator = trimmed.indexOf(":");
+  const prefix = separator > 0 ? trimmed.slice(0, separator) : "";
+
+  if (prefix === "openai" || prefix === "local") {
+    return { id: trimmed, provider: prefix, modelId: trimmed.slice(separator + 1), hosted: prefix === "openai" };
+  }
+  return { id: `openai:${trimmed}`, provider: "openai", modelId: trimmed, hosted: true };
+}
+
+function parseModelList(value: string | undefined): ModelChoice[] {
+  return (value ?? "")
+    .split(",")
+    .filter((id) => id.trim())
+    .map(parseModelChoice);
+}
+
+/**
+ * Whether private repositories are restricted to local models (opt-in)
+ */
+export function isLocalOnlyPolicyEnabled(): boolean {
+  const value = process.env.PRIVATE_REPO_LOCAL_ONLY?.trim().toLowerCase();
+  return value === "true" || value === "1";
+}
+
+/**
+ * Ordered models (primary first) an agent may use. Under the local-only
+ * policy, private repos get `PRIVATE_REPO_MODELS` or the agent's local
+ * models; throws when none are configured rather than sending code to a
+ * hosted API.
+ */
+export function getAgentModelChain(agent: AgentName, options: AgentModelOptions = {}): ModelChoice[] {
+  const prefix = agent.toUpperCase();
+  const chain = parseModelList(process.env[`${prefix}_MODELS`] || process.env.LLM_MODELS || DEFAULT_MODELS);
+
+  if (!options.privateRepo || !isLocalOnlyPolicyEnabled()) return chain;
+
+  const privateChain = parseModelList(process.env.PRIVATE_REPO_MODELS);
+  const allowed = (privateChain.length > 0 ? privateChain : chain).filter((choice) => !choice.hosted);
+  if (allowed.length === 0) {
+    throw new Error(
+      `PRIVATE_REPO_LOCAL_ONLY is set, so private repositories can only be analyzed with a local model. Set PRIVATE_REPO_MODELS (or ${prefix}_MODELS) to a local:<model> entry and LLM_LOCAL_BASE_URL.`
+    );
+  }
+  return allowed;
+}
+
+/**
+ * Per-call timeout for an agent (`<AGENT>_TIMEOUT_MS`, then `LLM_TIMEOUT_MS`)
+ */
+export function getAgentTimeoutMs(agent: AgentName): number {
+  const value = process.env[`${agent.toUpperCase()}_TIMEOUT_MS`] || process.env.LLM_TIMEOUT_MS;
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TIMEOUT_MS;
+}
+
+/**
+ * Fail fast if any agent has no model allowed for this repo
+ */
+export function assertModelPolicy(options: AgentModelOptions): void {
+  for (const agent of ["scout", "specialist", "broker"] as const) {
+    getAgentModelChain(agent, options);
+  }
+}
+
+function toLanguageModel(choice: ModelChoice): LanguageModel {
+  // OpenAI-compatible servers implement chat completions, not the Responses API
+  return choice.provider === "local"
+    ? getLocalProvider().chat(choice.modelId)
+    : openai(choice.modelId);
+}
+
+interface AgentObjectRequest<SCHEMA extends FlexibleSchema<unknown>> {
+  schema: SCHEMA;
+  prompt: string;
+  /** Fixture key when one agent makes several kinds of call; defaults to the agent */
+  task?: string;
+}
+
+/**
+ * generateObject with the agent's model chain, timeout and fallbacks
+ */
+export async function generateAgentObject<SCHEMA extends FlexibleSchema<unknown>>(
+  agent: AgentName,
+  request: AgentObjectRequest<SCHEMA>,
+  options: AgentModelOptions = {}
+): Promise<InferSchema<SCHEMA>> {
+  return withFixture("llm", request.task ?? agent, async () => {
+    const chain = getAgentModelChain(agent, options);
+    let lastError: unknown;
+
+    for (const choice of chain) {
+      try {
+        const { object } = await generateObject({
+          model: toLanguageModel(choice),
+          schema: request.schema,
+          prompt: request.prompt,
+          abortSignal: AbortSignal.timeout(getAgentTimeoutMs(agent)),
+        });
+        return object as InferSchema<SCHEMA>;
+      } catch (error) {
+        lastError = error;
+        console.error(`${agent} model ${choice.id} failed:`, error);
+      }
+    }
+
+    throw lastError;
+  }, request.prompt);
+}
+
+/**
+ * streamObject with the agent's model chain. Partial objects are passed to
+ * `onPartial`; if a model fails mid-stream the next one starts over. A
+ * replayed fixture is delivered as a single partial.
+ */
+export async function streamAgentObject<SCHEMA extends FlexibleSchema<unknown>>(
+  agent: AgentName,
+  request: AgentObjectRequest<SCHEMA>,
+  onPartial: (partial: DeepPartial<InferSchema<SCHEMA>>) => void,
+  options: AgentModelOptions = {}
+): Promise<InferSchema<SCHEMA>> {
+  let streamed = false;
+
+  const object = await withFixture("llm", request.task ?? agent, async () => {
+    const chain = getAgentModelChain(agent, options);
+    let lastError: unknown;
+
+    for (const choice of chain) {
+      try {
+        const stream = streamObject({
+          model: toLanguageModel(choice),
+          schema: request.schema,
+          prompt: request.prompt,
+          abortSignal: AbortSignal.timeout(getAgentTimeoutMs(agent)),
+        });
+
+        for await (const partial of stream.partialObjectStream) {
+          streamed = true;
+          onPartial(partial as DeepPartial<InferSchema<SCHEMA>>);
+        }
+        return (await stream.object) as InferSchema<SCHEMA>;
+      } catch (error) {
+        lastError = error;
+        console.error(`${agent} model ${choice.id} failed:`, error);
+      }
+    }
+
+    throw lastError;
+  }, request.prompt);
+
+  if (!streamed) onPartial(object as DeepPartial<InferSchema<SCHEMA>>);
+  return object;
+}
@@ -0,0 +1,502 @@
+import { randomUUID } from "crypto";
+import type { DeepPartial } from "ai";
+import { getRepoTreeEntries, getMultipleFileContents, getFileContent, isRepoPrivate, getBranchHeadSha } from "@/lib/github";
+import { assertModelPolicy } from "@/lib/llm-provider";
+import { selectSignalFiles, extractRepoSignals } from "@/lib/repo-signals";
+import { resolveModelSpecs } from "@/lib/hf-models";
+import { scoutRepo } from "@/lib/scout";
+import { analyzeComputeNeeds, estimateSpecialistVram } from "@/lib/specialist";
+import { loadGpuCatalog, getCatalogSyncStatus } from "@/lib/catalog-sync";
+import { getBrevInventory, attemptGpuProvisioning } from "@/lib/brev-api";
+import { selectGpuInstance, decideGpuRetry, brokerOutputToMatch, formatBrokerRecommendation, type GpuRetryContext } from "@/lib/broker";
+import { estimateJobCosts } from "@/lib/cost-estimator";
+import { saveAnalysisRecord } from "@/lib/history-store";
+import {
+  getCachedAnalysis,
+  setCachedAnalysis,
+  planCachedAnalysis,
+  createCacheEntry,
+  type AnalysisCacheEntry,
+} from "@/lib/analysis-cache";
+import { parseLaunchable, parseLaunchableConstraints, LAUNCHABLE_PATH, CONSTRAINTS_PATH } from "@/lib/launchable-config";
+import type {
+  AgentStep,
+  AgentStepData,
+  BrevInstance,
+  BrokerOutput,
+  GpuRetryDecision,
+  JobCostEstimate,
+  LaunchableConstraints,
+  MatchResult,
+  RepoMeta,
+  ScoutOutput,
+  SpecialistOutput,
+} from "@/types/agentSchemas";
+
+/**
+ * The analysis pipeline shared by the SSE route and the server actions.
+ *
+ * Runs scan → cache → signals → Scout → fetch → Specialist → Broker (and
+ * optionally provisioning) and reports progress as typed events. Callers only
+ * translate events for their transport, so prompts and fixes live in one place.
+ */
+
+export type PipelineStepId = "scan" | "cache" | "signals" | "scout" | "fetch" | "analyze" | "match" | "provision";
+
+export type PipelineEvent =
+  | { type: "step_started"; step: PipelineStepId }
+  | { type: "step_complete"; step: PipelineStepId; data?: AgentStepData }
+  | { type: "step_error"; step: PipelineStepId; error: string; data?: AgentStepData }
+  | { type: "scout_partial"; partial: DeepPartial<ScoutOutput> }
+  | { type: "specialist_partial"; partial: DeepPartial<SpecialistOutput> }
+  | { type: "broker_partial"; partial: DeepPartial<BrokerOutput> }
+  | { type: "broker_complete"; output: BrokerOutput; costEstimates: JobCostEstimate[] }
+  | { type: "provisioning_attempt"; attempt: number; gpu: string; vram: number; gpuCount: number }
+  | { type: "provisioning_success"; attempt: number; workspaceName?: string; gpu: string; vram: number; gpuCount: number }
+  | { type: "provisioning_failed"; attempt: number; gpu: string; error?: string; errorType?: string; willRetry: boolean }
+  | { type: "retry_decision"; decision: GpuRetryDecision };
+
+export type PipelineEventHandler = (event: PipelineEvent) => void;
+
+export interface PipelineInput {
+  accessToken: string;
+  /** Owner of the saved history record (getRunOwnerKey) */
+  userKey: string;
+  repoMeta: RepoMeta;
+  /** Analyze this commit instead of the branch head */
+  commitSha?: string;
+  userFeedback?: string;
+  previousNeeds?: SpecialistOutput;
+  /** Analysis of a related commit (a pull request's base) to reuse instead of this branch's cache entry */
+  baseline?: AnalysisCacheEntry;
+}
+
+export interface PipelineResult {
+  /** ID of the saved history record */
+  runId: string;
+  commitSha: string | null;
+  privateRepo: boolean;
+  scoutResult: ScoutOutput;
+  needs: SpecialistOutput;
+  brokerOutput: BrokerOutput;
+  match: MatchResult;
+  recommendation: string;
+  /** User constraints committed in the repository */
+  constraints: LaunchableConstraints | null;
+  /** Scout and Specialist results with the file SHAs they were based on */
+  analysis: AnalysisCacheEntry;
+}
+
+export interface ProvisioningAttempt {
+  gpu: string;
+  vram: number;
+  gpuCount: number;
+  success: boolean;
+  error?: string;
+  errorType?: string;
+}
+
+export interface ProvisioningOutcome {
+  success: boolean;
+  workspaceName?: string;
+  gpu?: string;
+  vram?: number;
+  gpuCount?: number;
+  attempts: ProvisioningAttempt[];
+}
+
+const MAX_PROVISIONING_ATTEMPTS = 3;
+
+const STEP_NAMES: Record<PipelineStepId, string> = {
+  scan: "Scanning repository structure",
+  cache: "Checking analysis cache",
+  signals: "Extracting static repo signals",
+  scout: "Scout AI selecting key files",
+  fetch: "Fetching file contents",
+  analyze: "Specialist analyzing compute needs",
+  match: "Selecting optimal GPU from catalog",
+  provision: "Provisioning GPU",
+};
+
+/**
+ * Apply a step event to a list of agent steps (adds the step when it starts)
+ */
+export function applyStepEvent(steps: AgentStep[], event: PipelineEvent): void {
+  if (event.type === "step_started") {
+    const step = steps.find((s) => s.id === event.step);
+    const update = { status: "running" as const, startTime: Date.now() };
+    if (step) Object.assign(step, update);
+    else steps.push({ id: event.step, name: STEP_NAMES[event.step], ...update });
+  } else if (event.type === "step_complete" || event.type === "step_error") {
+    const step = steps.find((s) => s.id === event.step);
+    if (step) {
+      Object.assign(step, {
+        status: event.type === "step_complete" ? "complete" : "error",
+        endTime: Date.now(),
+        data: event.data,
+      });
+    }
+  }
+}
+
+/**
+ * Emit started/complete around a step, or step_error (then rethrow) if it fails
+ */
+async function runStep<T>(
+  step: PipelineStepId,
+  emit: PipelineEventHandler,
+  fn: () => Promise<{ result: T; data?: AgentStepData }>
+): Promise<T> {
+  emit({ type: "step_started", step });
+  try {
+    const { result, data } = await fn();
+    emit({ type: "step_complete", step, data });
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error occurred";
+    emit({ type: "step_error", step, error: message, data: { error: message } });
+    throw error;
+  }
+}
+
+export interface RepoConfig {
+  /** brev-launchable.yaml as committed, null when the repository has none */
+  launchable: string | null;
+  /** User constraints, merged from every file that has them */
+  constraints: LaunchableConstraints | null;
+  /** Scan step details */
+  data: AgentStepData;
+}
+
+/**
+ * The launchable and user constraints already committed in the repository
+ * (`paths` is its file tree). Keys in .brev/constraints.yaml override the
+ * launchable's `constraints:` section. Throws when constraints exist but
+ * cannot be read, so GPU selection never runs without them.
+ */
+export async function readRepoConfig(
+  accessToken: string,
+  repoMeta: RepoMeta,
+  ref: string,
+  paths: string[]
+): Promise<RepoConfig> {
+  const data: AgentStepData = {};
+  const constraints: LaunchableConstraints = {};
+  const sources: string[] = [];
+  let launchable: string | null = null;
+
+  for (const path of [LAUNCHABLE_PATH, CONSTRAINTS_PATH].filter((path) => paths.includes(path))) {
+    const content = await getFileContent(accessToken, repoMeta.owner, repoMeta.repo, path, ref).catch((error) => {
+      throw new Error(`Could not read ${path}: ${error instanceof Error ? error.message : "unknown error"}`);
+    });
+
+    if (path === LAUNCHABLE_PATH) {
+      launchable = content;
+      const parsed = parseLaunchable(content);
+      if (parsed.success) data.currentLaunchable = parsed.config;
+      else data.currentLaunchableError = parsed.error;
+    }
+    const parsed = parseLaunchableConstraints(content);
+    if (!parsed.success) {
+      throw new Error(`The constraints in ${path} could not be read (${parsed.error}). Fix them so GPU selection can honor them.`);
+    }
+    if (parsed.constraints) {
+      Object.assign(constraints, parsed.constraints);
+      sources.push(path);
+    }
+  }
+
+  if (sources.length > 0) {
+    data.constraints = constraints;
+    data.constraintSources = sources;
+  }
+  return { launchable, constraints: sources.length > 0 ? constraints : null, data };
+}
+
+/**
+ * Analyze a repository and select a GPU. Every run, failed or not, is saved
+ * to the analysis history. Throws on failure after emitting step_error for
+ * the step that failed.
+ */
+export async function runAnalysisPipeline(
+  input: PipelineInput,
+  emit: PipelineEventHandler = () => {}
+): Promise<PipelineResult> {
+  const runId = randomUUID();
+  const createdAt = new Date().toISOString();
+  const agentSteps: AgentStep[] = [];
+  const head = { commitSha: null as string | null };
+  const track: PipelineEventHandler = (event) => {
+    applyStepEvent(agentSteps, event);
+    emit(event);
+  };
+
+  const record = { id: runId, repoMeta: input.repoMeta, createdAt, userFeedback: input.userFeedback, agentSteps };
+  try {
+    const result = await analyze(input, track, head);
+    await saveAnalysisRecord(input.userKey, {
+      ...record,
+      commitSha: head.commitSha,
+      success: !!result.match.best,
+      recommendation: result.recommendation,
+      needs: result.needs,
+      brokerOutput: result.brokerOutput,
+      match: result.match,
+    });
+    return { ...result, runId, commitSha: head.commitSha };
+  } catch (error) {
+    await saveAnalysisRecord(input.userKey, {
+      ...record,
+      commitSha: head.commitSha,
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    });
+    throw error;
+  }
+}
+
+async function analyze(
+  { accessToken, userKey, repoMeta, commitSha, userFeedback, previousNeeds, baseline }: PipelineInput,
+  emit: PipelineEventHandler,
+  head: { commitSha: string | null }
+): Promise<Omit<PipelineResult, "runId" | "commitSha">> {
+  const { owner, repo } = repoMeta;
+  const cached = baseline ?? getCachedAnalysis(userKey, repoMeta, commitSha);
+  const hasFeedback = !!(userFeedback || previousNeeds);
+
+  const { privateRepo, tree, ref, constraints } = await runStep("scan", emit, async () => {
+    // Private repos may only be analyzed by local models
+    const privateRepo = await isRepoPrivate(accessToken, owner, repo);
+    assertModelPolicy({ privateRepo });
+
+    // Pin every read to one commit so the analysis matches what was saved
+    head.commitSha = commitSha ?? await getBranchHeadSha(accessToken, owner, repo, repoMeta.branch || "main").catch((error) => {
+      console.warn("Could not resolve the head commit:", error);
+      return null;
+    });
+    const ref = head.commitSha ?? (repoMeta.branch || "main");
+
+    const tree = cached && head.commitSha && cached.commitSha === head.commitSha
+      ? cached.tree
+      : await getRepoTreeEntries(accessToken, owner, repo, ref);
+    if (tree.length === 0) {
+      throw new Error("Repository appears to be empty or inaccessible.");
+    }
+
+    // The configuration already committed, shown as the current one, and its constraints
+    const config = await readRepoConfig(accessToken, repoMeta, ref, tree.map((file) => file.path));
+
+    return {
+      result: { privateRepo, tree, ref, constraints: config.constraints },
+      data: {
+        totalFiles: tree.length,
+        fileTree: tree.map((file) => file.path),
+        commitSha: head.commitSha ?? undefined,
+        ...config.data,
+      },
+    };
+  });
+  const fileTree = tree.map((file) => file.path);
+
+  const plan = await runStep("cache", emit, async () => {
+    const plan = planCachedAnalysis(cached, head.commitSha, tree, hasFeedback);
+    return { result: plan, data: { cache: plan.status } };
+  });
+  const reused = plan.entry;
+  const hit = plan.status.result === "hit";
+
+  // Hard facts from manifests and launch scripts
+  const repoSignals = await runStep("signals", emit, async () => {
+    if (reused && plan.reuseSignals) {
+      return { result: reused.repoSignals, data: { repoSignals: reused.repoSignals } };
+    }
+    const signalFiles = selectSignalFiles(fileTree);
+    const signalContents = signalFiles.length > 0
+      ? await getMultipleFileContents(accessToken, owner, repo, signalFiles, ref)
+      : {};
+    const repoSignals = extractRepoSignals(signalContents);
+    return { result: repoSignals, data: { repoSignals } };
+  });
+
+  const scoutResult = await runStep("scout", emit, async () => {
+    let scoutResult: ScoutOutput;
+    if (reused && !plan.rerunScout) {
+      // Keep the cached selection, minus files that no longer exist
+      scoutResult = {
+        ...reused.scoutResult,
+        selected_paths: reused.scoutResult.selected_paths.filter((path) => fileTree.includes(path)),
+      };
+      emit({ type: "scout_partial", partial: scoutResult });
+    } else {
+      scoutResult = await scoutRepo(fileTree, repoSignals, { privateRepo }, (partial) =>
+        emit({ type: "scout_partial", partial })
+      );
+    }
+    return {
+      result: scoutResult,
+      data: { scoutReasoning: scoutResult.reasoning, selectedFiles: scoutResult.selected_paths },
+    };
+  });
+
+  const { fileContents, modelSpecs } = await runStep("fetch", emit, async () => {
+    // Only files that changed since the cached analysis, or were not read then, are fetched
+    const stale = reused
+      ? scoutResult.selected_paths.filter((path) => plan.changedFiles.includes(path) || !(path in reused.fileContents))
+      : scoutResult.selected_paths;
+    const fileContents: Record<string, string> = {};
+    if (reused) {
+      for (const path of scoutResult.selected_paths) {
+        if (!stale.includes(path) && path in reused.fileContents) {
+          fileContents[path] = reused.fileContents[path];
+        }
+      }
+    }
+    if (stale.length > 0) {
+      Object.assign(fileContents, await getMultipleFileContents(accessToken, owner, repo, stale, ref));
+    }
+
+    const modelSpecs = reused && stale.length === 0 && plan.reuseSignals
+      ? reused.modelSpecs
+      : await resolveModelSpecs(fileContents, repoSignals.modelIds.map((m) => m.value));
+    return { result: { fileContents, modelSpecs }, data: { fileContents, modelSpecs } };
+  });
+
+  const { needs, analysis } = await runStep("analyze", emit, async () => {
+    let needs: SpecialistOutput;
+    if (reused && hit) {
+      needs = reused.needs;
+      emit({ type: "specialist_partial", partial: needs });
+    } else {
+      needs = await analyzeComputeNeeds(fileContents, userFeedback, previousNeeds, {
+        repoMeta,
+        scoutOutput: scoutResult,
+        totalFilesInRepo: fileTree.length,
+        repoSignals,
+        modelSpecs,
+        privateRepo,
+      }, (partial) => emit({ type: "specialist_partial", partial }));
+    }
+
+    const analysis = { commitSha: head.commitSha, tree, repoSignals, scoutResult, fileContents, modelSpecs, needs };
+    // Feedback runs are specific to this conversation, so they are not cached
+    if (!hasFeedback) setCachedAnalysis(userKey, repoMeta, analysis);
+
+    return {
+      result: { needs, analysis: createCacheEntry(analysis) },
+      data: {
+        specialistThinkingStream: needs.thinking,
+        computeAnalysis: {
+          estimatedVram: needs.estimated_vram_gb,
+          architecture: needs.recommended_gpu_architecture,
+          multiGpu: needs.requires_multi_gpu,
+          setupCommands: needs.setup_commands,
+          complexity: needs.project_complexity,
+          complexityReasoning: needs.complexity_reasoning,
+          workloadType: needs.workload_type,
+          cpuCores: needs.recommended_cpu_cores,
+          systemRam: needs.recommended_system_ram_gb,
+          diskSpace: needs.estimated_disk_space_gb,
+          vramBreakdown: estimateSpecialistVram(needs) ?? undefined,
+        },
+      },
+    };
+  });
+
+  return runStep("match", emit, async () => {
+    // Refresh prices and availability from the Brev CLI (cached on disk)
+    const catalogSync = getCatalogSyncStatus(await loadGpuCatalog());
+
+    const brokerOutput = await selectGpuInstance(needs, {
+      repoMeta,
+      scoutOutput: scoutResult,
+      totalFilesInRepo: fileTree.length,
+      privateRepo,
+      constraints,
+    }, (partial) => emit({ type: "broker_partial", partial }));
+
+    const match = brokerOutputToMatch(needs, brokerOutput, constraints);
+    const recommendation = formatBrokerRecommendation(brokerOutput, match);
+    const costEstimates = estimateJobCosts(needs, match.scenarios?.map((s) => s.instance) ?? []);
+    emit({ type: "broker_complete", output: brokerOutput, costEstimates });
+
+    return {
+      result: { privateRepo, scoutResult, needs, brokerOutput, match, recommendation, constraints, analysis },
+      data: {
+        inventoryChecked: getBrevInventory().length,
+        matchReasoning: recommendation,
+        brokerThinking: brokerOutput.thinking,
+        matchConfidence: brokerOutput.match_confidence,
+        costNotes: brokerOutput.cost_optimization_notes,
+        costEstimates,
+        catalogSync,
+        constraintViolations: match.constraintViolations,
+        constraintsUnsatisfiable: match.constraintsUnsatisfiable,
+      },
+    };
+  });
+}
+
+/**
+ * Provision `start`, asking the Broker for a fallback GPU each time a
+ * provisioning attempt fails because the GPU is out of stock.
+ */
+export async function runProvisioning(
+  needs: SpecialistOutput,
+  start: Pick<BrevInstance, "name" | "vram" | "count">,
+  context: GpuRetryContext,
+  emit: PipelineEventHandler = () => {}
+): Promise<ProvisioningOutcome> {
+  const attempts: ProvisioningAttempt[] = [];
+  let currentGpu = start.name;
+  let currentVram = start.vram;
+  let currentCount = start.count;
+  let outcome: ProvisioningOutcome = { success: false, attempts };
+
+  emit({ type: "step_started", step: "provision" });
+
+  for (let attempt = 1; attempt <= MAX_PROVISIONING_ATTEMPTS; attempt++) {
+    emit({ type: "provisioning_attempt", attempt, gpu: currentGpu, vram: currentVram, gpuCount: currentCount });
+
+    const result = await attemptGpuProvisioning(currentGpu, currentCount);
+    attempts.push({
+      gpu: currentGpu,
+      vram: currentVram,
+      gpuCount: currentCount,
+      success: result.success,
+      error: result.error,
+      errorType: result.errorType,
+    });
+
+    if (result.success) {
+      emit({ type: "provisioning_success", attempt, workspaceName: result.workspaceName, gpu: currentGpu, vram: currentVram, gpuCount: currentCount });
+      outcome = { success: true, workspaceName: result.workspaceName, gpu: currentGpu, vram: currentVram, gpuCount: currentCount, attempts };
+      break;
+    }
+
+    // Only retry on out of stock errors
+    const willRetry = result.errorType === "out_of_stock" && attempt < MAX_PROVISIONING_ATTEMPTS;
+    emit({ type: "provisioning_failed", attempt, gpu: currentGpu, error: result.error, errorType: result.errorType, willRetry });
+    if (!willRetry) break;
+
+    const decision = await decideGpuRetry(
+      needs,
+      attempts.map((a) => ({ gpu: a.gpu, vram: a.vram, gpuCount: a.gpuCount, error: a.error || "Unknown error" })),
+      context
+    );
+    emit({ type: "retry_decision", decision });
+
+    if (!decision.should_retry || !decision.next_gpu) break;
+
+    currentGpu = decision.next_gpu;
+    currentVram = decision.next_vram || currentVram;
+    currentCount = decision.next_gpu_count || currentCount;
+  }
+
+  const data = { provisioningAttempts: attempts, provisionedWorkspace: outcome.workspaceName };
+  if (outcome.success) {
+    emit({ type: "step_complete", step: "provision", data });
+  } else {
+    emit({ type: "step_error", step: "provision", error: `Failed to provision GPU after ${attempts.length} attempts`, data });
+  }
+  return outcome;
+}
@@ -0,0 +1,195 @@
+import { getPullRequest, getRepoTreeEntries, upsertIssueComment, type PullRequestInfo, type RepoTreeEntry } from "@/lib/github";
+import { runAnalysisPipeline, type PipelineEventHandler, type PipelineResult } from "@/lib/orchestrator";
+import { planCachedAnalysis } from "@/lib/analysis-cache";
+import { LAUNCHABLE_PATH, CONSTRAINTS_PATH } from "@/lib/launchable-config";
+import { getGpuByName, supportsArchitecture } from "@/lib/gpu-catalog";
+import { getPerGpuVram } from "@/lib/specialist";
+import type { BrevInstance, MatchResult, PullRequestComputeImpact, SpecialistOutput } from "@/types/agentSchemas";
+
+/**
+ * Pull request mode: analyze the PR's base and head commits and comment on
+ * the PR with how the change affects GPU requirements. The head starts from
+ * the base's analysis: when the PR changes none of the files it read and
+ * adds none, the base result is reported as unchanged; otherwise only the
+ * changed files are analyzed again.
+ */
+
+export interface PullRequestAnalysisInput {
+  accessToken: string;
+  /** Owner of the saved history records (getRunOwnerKey) */
+  userKey: string;
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  /** Post the summary as a PR comment (default true) */
+  postComment?: boolean;
+}
+
+export interface PullRequestAnalysis {
+  pullRequest: PullRequestInfo;
+  base: PipelineResult;
+  head: PipelineResult;
+  impact: PullRequestComputeImpact;
+  comment: string;
+  commentUrl: string | null;
+}
+
+type AnalyzedSide = { needs: SpecialistOutput; match: MatchResult };
+
+/** Hidden marker that identifies the compute impact comment on a PR */
+const COMMENT_MARKER = "<!-- brev-doctor:compute-impact -->";
+
+function formatGpu(instance: BrevInstance | null): string | null {
+  if (!instance) return null;
+  return instance.count > 1 ? `${instance.name} × ${instance.count}` : instance.name;
+}
+
+/**
+ * Whether an instance holds a workload's sized VRAM, on each GPU as well as
+ * in total, and its architecture
+ */
+function instanceFits(instance: BrevInstance, needs: SpecialistOutput): boolean {
+  const spec = getGpuByName(instance.name);
+  if (spec && !supportsArchitecture(spec, needs.recommended_gpu_architecture)) return false;
+  if (needs.requires_multi_gpu && instance.count < 2) return false;
+  return instance.vram * instance.count >= needs.estimated_vram_gb && instance.vram >= getPerGpuVram(needs);
+}
+
+/**
+ * Whether the committed launchable or constraints differ between two trees
+ */
+function configChanged(base: RepoTreeEntry[], head: RepoTreeEntry[]): boolean {
+  const sha = (tree: RepoTreeEntry[], path: string) => tree.find((file) => file.path === path)?.sha;
+  return [LAUNCHABLE_PATH, CONSTRAINTS_PATH].some((path) => sha(base, path) !== sha(head, path));
+}
+
+export function summarizeComputeImpact(
+  base: AnalyzedSide,
+  head: AnalyzedSide,
+  relevantFilesChanged: boolean = true
+): PullRequestComputeImpact {
+  const baseVram = base.needs.estimated_vram_gb;
+  const headVram = head.needs.estimated_vram_gb;
+  const baseGpu = formatGpu(base.match.best);
+  const headGpu = formatGpu(head.match.best);
+  const baseGpuStillFits = !!base.match.best && instanceFits(base.match.best, head.needs);
+
+  const parts = [
+    ...(relevantFilesChanged ? [] : ["No relevant files changed"]),
+    headVram === baseVram
+      ? `VRAM estimate unchanged at ${headVram}GB`
+      : `VRAM estimate ${headVram > baseVram ? "rises" : "falls"} from ${baseVram}GB to ${headVram}GB`,
+  ];
+  if (head.needs.recommended_gpu_architecture !== base.needs.recommended_gpu_architecture) {
+    parts.push(`architecture requirement changes from ${base.needs.recommended_gpu_architecture} to ${head.needs.recommended_gpu_architecture}`);
+  }
+  if (head.needs.requires_multi_gpu !== base.needs.requires_multi_gpu) {
+    parts.push(head.needs.requires_multi_gpu ? "now needs multiple GPUs" : "no longer needs multiple GPUs");
+  }
+  if (baseGpu && !baseGpuStillFits) {
+    parts.push(`${baseGpu} no longer fits, recommend ${headGpu ?? "no available GPU"}`);
+  } else if (baseGpu !== headGpu) {
+    parts.push(`recommendation changes from ${baseGpu ?? "none"} to ${headGpu ?? "none"}`);
+  } else if (baseGpu) {
+    parts.push(`${baseGpu} still fits`);
+  }
+
+  return {
+    changesRequirements: headVram !== baseVram
+      || head.needs.recommended_gpu_architecture !== base.needs.recommended_gpu_architecture
+      || head.needs.requires_multi_gpu !== base.needs.requires_multi_gpu
+      || baseGpu !== headGpu
+      || !baseGpuStillFits,
+    headline: parts.join("; "),
+    baseVram,
+    headVram,
+    baseGpu,
+    headGpu,
+    baseGpuStillFits,
+  };
+}
+
+function formatHourly(match: MatchResult): string {
+  const best = match.best;
+  return best ? `$${(best.price * best.count).toFixed(2)}/hr` : "—";
+}
+
+/**
+ * Markdown comment for the pull request
+ */
+export function formatComputeImpactComment(
+  pullRequest: PullRequestInfo,
+  base: PipelineResult,
+  head: PipelineResult,
+  impact: PullRequestComputeImpact
+): string {
+  const ref = (name: string, sha: string) => `\`${name}\` @ ${sha.slice(0, 7)}`;
+  const row = (label: string, before: string | number | boolean, after: string | number | boolean) => {
+    const format = (value: string | number | boolean) => typeof value === "boolean" ? (value ? "Yes" : "No") : String(value);
+    const changed = format(before) !== format(after);
+    return `| ${label} | ${format(before)} | ${changed ? `**${format(after)}**` : format(after)} |`;
+  };
+
+  return `${COMMENT_MARKER}
+## 🩺 Brev Doctor: compute impact
+
+**${impact.headline}.**
+
+| | Base (${ref(pullRequest.baseRef, pullRequest.baseSha)}) | This PR (${ref(pullRequest.headRef, pullRequest.headSha)}) |
+|---|---|---|
+${row("Estimated VRAM", `${impact.baseVram} GB`, `${impact.headVram} GB`)}
+${row("Architecture", base.needs.recommended_gpu_architecture, head.needs.recommended_gpu_architecture)}
+${row("Multi-GPU", base.needs.requires_multi_gpu, head.needs.requires_multi_gpu)}
+${row("Workload", base.needs.workload_type, head.needs.workload_type)}
+${row("CPU / RAM / Disk", `${base.needs.recommended_cpu_cores} cores / ${base.needs.recommended_system_ram_gb} GB / ${base.needs.estimated_disk_space_gb} GB`, `${head.needs.recommended_cpu_cores} cores / ${head.needs.recommended_system_ram_gb} GB / ${head.needs.estimated_disk_space_gb} GB`)}
+${row("Recommended GPU", impact.baseGpu ?? "none", impact.headGpu ?? "none")}
+${row("Hourly cost", formatHourly(base.match), formatHourly(head.match))}
+${row("Confidence", base.brokerOutput.match_confidence, head.brokerOutput.match_confidence)}
+
+<details>
+<summary>Specialist reasoning for this PR</summary>
+
+${head.needs.complexity_reasoning}
+
+</details>
+
+---
+*Generated by Brev Doctor*`;
+}
+
+/**
+ * Analyze a pull request's base and head, and comment the compute impact,
+ * editing the earlier comment on reruns. Both analyses are saved to the
+ * analysis history.
+ */
+export async function runPullRequestAnalysis(
+  { accessToken, userKey, owner, repo, pullNumber, postComment = true }: PullRequestAnalysisInput,
+  emit: PipelineEventHandler = () => {}
+): Promise<PullRequestAnalysis> {
+  const pullRequest = await getPullRequest(accessToken, owner, repo, pullNumber);
+
+  const base = await runAnalysisPipeline(
+    { accessToken, userKey, repoMeta: { owner, repo, branch: pullRequest.baseRef }, commitSha: pullRequest.baseSha },
+    emit
+  );
+  // A fork's branch name can collide with a branch of this repository, so its
+  // cache entry and history records are keyed by the PR's head ref instead
+  const headBranch = pullRequest.fromFork ? `pull/${pullRequest.number}/head` : pullRequest.headRef;
+  const headTree = await getRepoTreeEntries(accessToken, owner, repo, pullRequest.headSha);
+  const unchanged = planCachedAnalysis(base.analysis, pullRequest.headSha, headTree, false).status.result === "hit"
+    && !configChanged(base.analysis.tree, headTree);
+  const head = unchanged
+    ? base
+    : await runAnalysisPipeline(
+      { accessToken, userKey, repoMeta: { owner, repo, branch: headBranch }, commitSha: pullRequest.headSha, baseline: base.analysis },
+      emit
+    );
+
+  const impact = summarizeComputeImpact(base, head, !unchanged);
+  const comment = formatComputeImpactComment(pullRequest, base, head, impact);
+  const commentUrl = postComment
+    ? await upsertIssueComment(accessToken, owner, repo, pullNumber, comment, COMMENT_MARKER)
+    : null;
+
+  return { pullRequest, base, head, impact, comment, commentUrl };
+}
@@ -0,0 +1,318 @@
+import type { RepoSignals } from "@/types/agentSchemas";
+
+/**
+ * Rule-based extractor for hard compute evidence in a repository.
+ *
+ * Runs before the Scout on dependency manifests, container files and launch
+ * scripts, so the LLM agents start from facts (framework versions, CUDA pins,
+ * GPU counts, model IDs) rather than guessing from file names.
+ */
+
+/** Maximum number of manifest/script files fetched for signal extraction */
+const MAX_SIGNAL_FILES = 20;
+
+const MANIFEST_PATTERNS: RegExp[] = [
+  /(^|\/)requirements[^/]*\.txt$/i,
+  /(^|\/)pyproject\.toml$/i,
+  /(^|\/)environment[^/]*\.ya?ml$/i,
+  /(^|\/)setup\.py$/i,
+  /(^|\/)Dockerfile[^/]*$/i,
+  /\.dockerfile$/i,
+  /\.(sh|slurm|sbatch)$/i,
+  /(^|\/)[^/]*accelerate[^/]*\.ya?ml$/i,
+  /(^|\/)default_config\.ya?ml$/i,
+];
+
+const IGNORED_DIRS = /(^|\/)(node_modules|\.git|venv|\.venv|site-packages|third_party|vendor)\//;
+
+/**
+ * Pick the files worth running signal extraction on.
+ * Shallow paths are preferred since top-level manifests describe the project itself.
+ */
+export function selectSignalFiles(fileTree: string[]): string[] {
+  return fileTree
+    .filter((path) => !IGNORED_DIRS.test(path))
+    .filter((path) => MANIFEST_PATTERNS.some((pattern) => pattern.test(path)))
+    .sort((a, b) => a.split("/").length - b.split("/").length || a.localeCompare(b))
+    .slice(0, MAX_SIGNAL_FILES);
+}
+
+function emptySignals(): RepoSignals {
+  return {
+    analyzedFiles: [],
+    frameworks: [],
+    cudaVersions: [],
+    pythonVersions: [],
+    gpuFlags: [],
+    nprocPerNode: [],
+    accelerateConfigs: [],
+    modelIds: [],
+  };
+}
+
+function basename(path: string): string {
+  return path.split("/").pop() || path;
+}
+
+/** Normalize "cu121" / "12.1.0" / "12.1" style CUDA versions to "12.1" */
+function normalizeCudaVersion(raw: string): string {
+  const compact = raw.match(/^(\d{2})(\d)$/);
+  if (compact) return `${compact[1]}.${compact[2]}`;
+  const [major, minor = "0"] = raw.split(".");
+  return `${major}.${minor}`;
+}
+
+const FRAMEWORK_PACKAGES: Record<string, "torch" | "jax" | "tensorflow"> = {
+  torch: "torch",
+  pytorch: "torch",
+  jax: "jax",
+  jaxlib: "jax",
+  tensorflow: "tensorflow",
+  "tensorflow-gpu": "tensorflow",
+};
+
+/**
+ * Matches `torch==2.1.0+cu118`, `jax[cuda12]>=0.4`, `pytorch=2.1` (conda) and bare names,
+ * either at the start of a line or as a quoted entry (pyproject / setup.py lists)
+ */
+const DEPENDENCY_PATTERN = /(?:^\s*(?:-\s*)?["']?|["'])(torch|pytorch|jaxlib|jax|tensorflow-gpu|tensorflow)(?![\w-])(\[[^\]]*\])?\s*(?:(?:==|>=|~=|<=|=|>|<)\s*([\w.*+-]+))?/gim;
+
+/** Hugging Face model IDs referenced in code, configs or launch flags */
+const MODEL_ID_PATTERNS: RegExp[] = [
+  /from_pretrained\(\s*["']([\w.-]+\/[\w.-]+)["']/g,
+  /model(?:_name_or_path|_name|_id)?\s*[:=]\s*["']?([A-Za-z0-9][\w.-]*\/[\w.-]+)["']?/g,
+  /--model(?:_name_or_path|_name|_id|-name-or-path)?[=\s]+["']?([A-Za-z0-9][\w.-]*\/[\w.-]+)["']?/g,
+  /pipeline\([^)]*model\s*=\s*["']([\w.-]+\/[\w.-]+)["']/g,
+];
+
+/** Things that look like org/name but are paths or URLs */
+function isLikelyModelId(id: string): boolean {
+  if (id.startsWith(".") || id.includes("..")) return false;
+  if (/\.(py|txt|json|ya?ml|sh|bin|pt|safetensors|ckpt)$/i.test(id)) return false;
+  if (/^(https?|data|outputs?|checkpoints?|models?|configs?|src|scripts)\//i.test(id)) return false;
+  return true;
+}
+
+function pushUnique<T extends { source: string }>(list: T[], item: T, key: (entry: T) => string) {
+  if (!list.some((existing) => key(existing) === key(item))) {
+    list.push(item);
+  }
+}
+
+function extractDependencies(content: string, source: string, signals: RepoSignals) {
+  for (const match of content.matchAll(DEPENDENCY_PATTERN)) {
+    const name = FRAMEWORK_PACKAGES[match[1].toLowerCase()];
+    const extras = match[2] || "";
+    let version = match[3];
+
+    // Local version suffix pins CUDA, e.g. torch==2.1.0+cu118
+    const localCuda = version?.match(/\+cu(\d{3})/);
+    if (localCuda) {
+      pushUnique(signals.cudaVersions, { value: normalizeCudaVersion(localCuda[1]), source }, (e) => e.value + e.source);
+      version = version.replace(/\+cu\d{3}/, "");
+    }
+
+    // jax[cuda12] style extras
+    const extrasCuda = extras.match(/cuda(\d{2})/);
+    if (extrasCuda) {
+      pushUnique(signals.cudaVersions, { value: `${extrasCuda[1]}.x`, source }, (e) => e.value + e.source);
+    }
+
+    pushUnique(signals.frameworks, { name, version, source }, (e) => `${e.name}${e.version}${e.source}`);
+  }
+
+  // PyTorch wheel index, e.g. --extra-index-url https://download.pytorch.org/whl/cu121
+  for (const match of content.matchAll(/download\.pytorch\.org\/whl\/cu(\d{3})/g)) {
+    pushUnique(signals.cudaVersions, { value: normalizeCudaVersion(match[1]), source }, (e) => e.value + e.source);
+  }
+
+  // Conda CUDA pins
+  for (const match of content.matchAll(/(?:pytorch-cuda|cudatoolkit|cuda-version|cuda-toolkit)\s*[=:]+\s*["']?(\d+(?:\.\d+)?)/g)) {
+    pushUnique(signals.cudaVersions, { value: normalizeCudaVersion(match[1]), source }, (e) => e.value + e.source);
+  }
+
+  // Python version from conda env or pyproject
+  for (const match of content.matchAll(/(?:^\s*-\s*python\s*=+\s*|requires-python\s*=\s*["'][^\d]*)(\d\.\d+)/gm)) {
+    pushUnique(signals.pythonVersions, { value: match[1], source }, (e) => e.value + e.source);
+  }
+}
+
+function extractDockerfile(content: string, source: string, signals: RepoSignals) {
+  for (const match of content.matchAll(/^\s*FROM\s+(?:--platform=\S+\s+)?(\S+)/gim)) {
+    const image = match[1];
+
+    const cudaImage = image.match(/nvidia\/cuda:(\d+\.\d+)/);
+    if (cudaImage) {
+      pushUnique(signals.cudaVersions, { value: normalizeCudaVersion(cudaImage[1]), source }, (e) => e.value + e.source);
+    }
+
+    // pytorch/pytorch:2.1.0-cuda12.1-cudnn8-runtime
+    const pytorchImage = image.match(/pytorch\/pytorch:(\d+\.\d+(?:\.\d+)?)-cuda(\d+\.\d+)/);
+    if (pytorchImage) {
+      pushUnique(signals.frameworks, { name: "torch", version: pytorchImage[1], source }, (e) => `${e.name}${e.version}${e.source}`);
+      pushUnique(signals.cudaVersions, { value: normalizeCudaVersion(pytorchImage[2]), source }, (e) => e.value + e.source);
+    }
+
+    // NGC containers, e.g. nvcr.io/nvidia/pytorch:24.01-py3
+    const ngcImage = image.match(/nvcr\.io\/nvidia\/(pytorch|tensorflow|jax):([\w.-]+)/);
+    if (ngcImage) {
+      const framework = FRAMEWORK_PACKAGES[ngcImage[1]];
+      pushUnique(signals.frameworks, { name: framework, version: `NGC ${ngcImage[2]}`, source }, (e) => `${e.name}${e.version}${e.source}`);
+    }
+
+    const pythonImage = image.match(/^python:(\d\.\d+)/);
+    if (pythonImage) {
+      pushUnique(signals.pythonVersions, { value: pythonImage[1], source }, (e) => e.value + e.source);
+    }
+  }
+
+  // pip installs inside RUN lines are handled like a requirements file
+  const pipArgs = [...content.matchAll(/pip3? install\s+([^\n&;|]+)/g)]
+    .flatMap((match) => match[1].split(/\s+/))
+    .filter((arg) => arg && !arg.startsWith("-"));
+  extractDependencies(pipArgs.join("\n"), source, signals);
+  for (const match of content.matchAll(/download\.pytorch\.org\/whl\/cu(\d{3})/g)) {
+    pushUnique(signals.cudaVersions, { value: normalizeCudaVersion(match[1]), source }, (e) => e.value + e.source);
+  }
+}
+
+function extractLaunchFlags(content: string, source: string, signals: RepoSignals) {
+  const gpuFlagPatterns = [
+    /--gpus[=\s]+["']?([\w,"=]+)/g,
+    /--gres[=\s]+(gpu:[\w:]+)/g,
+    /--gpus-per-(?:node|task)[=\s]+(\S+)/g,
+    /CUDA_VISIBLE_DEVICES=["']?([\d,]+)/g,
+  ];
+  for (const pattern of gpuFlagPatterns) {
+    for (const match of content.matchAll(pattern)) {
+      pushUnique(signals.gpuFlags, { value: match[0].trim(), source }, (e) => e.value + e.source);
+    }
+  }
+
+  const processCountPatterns = [
+    /--nproc[_-]per[_-]node[=\s]+(\d+)/g,
+    /accelerate\s+launch[^\n]*--num[_-]processes[=\s]+(\d+)/g,
+    /deepspeed[^\n]*--num[_-]gpus[=\s]+(\d+)/g,
+  ];
+  for (const pattern of processCountPatterns) {
+    for (const match of content.matchAll(pattern)) {
+      pushUnique(signals.nprocPerNode, { value: Number(match[1]), source }, (e) => `${e.value}${e.source}`);
+    }
+  }
+}
+
+function extractAccelerateConfig(content: string, source: string, signals: RepoSignals) {
+  if (!/^\s*distributed_type\s*:/m.test(content)) return;
+
+  const read = (key: string) => content.match(new RegExp(`^\\s*${key}\\s*:\\s*["']?([\\w.-]+)`, "m"))?.[1];
+  const numProcesses = read("num_processes");
+
+  signals.accelerateConfigs.push({
+    numProcesses: numProcesses ? Number(numProcesses) : undefined,
+    mixedPrecision: read("mixed_precision"),
+    distributedType: read("distributed_type"),
+    source,
+  });
+}
+
+/**
+ * Find Hugging Face `org/name` model IDs referenced in a file
+ */
+export function findModelIds(content: string): string[] {
+  const ids = new Set<string>();
+  for (const pattern of MODEL_ID_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      if (isLikelyModelId(match[1])) {
+        ids.add(match[1]);
+      }
+    }
+  }
+  return [...ids];
+}
+
+function extractModelIds(content: string, source: string, signals: RepoSignals) {
+  for (const id of findModelIds(content)) {
+    pushUnique(signals.modelIds, { value: id, source }, (e) => e.value);
+  }
+}
+
+/**
+ * Extract structured compute facts from fetched file contents.
+ */
+export function extractRepoSignals(fileContents: Record<string, string>): RepoSignals {
+  const signals = emptySignals();
+
+  for (const [path, content] of Object.entries(fileContents)) {
+    const name = basename(path).toLowerCase();
+    signals.analyzedFiles.push(path);
+
+    if (name.startsWith("dockerfile") || name.endsWith(".dockerfile")) {
+      extractDockerfile(content, path, signals);
+    } else if (/\.(txt|toml|py|ya?ml|cfg)$/.test(name)) {
+      extractDependencies(content, path, signals);
+    }
+
+    if (/\.(ya?ml)$/.test(name)) {
+      extractAccelerateConfig(content, path, signals);
+    }
+
+    extractLaunchFlags(content, path, signals);
+    extractModelIds(content, path, signals);
+  }
+
+  return signals;
+}
+
+/**
+ * Whether any fact was extracted
+ */
+export function hasRepoSignals(signals: RepoSignals): boolean {
+  return (
+    signals.frameworks.length > 0 ||
+    signals.cudaVersions.length > 0 ||
+    signals.pythonVersions.length > 0 ||
+    signals.gpuFlags.length > 0 ||
+    signals.nprocPerNode.length > 0 ||
+    signals.accelerateConfigs.length > 0 ||
+    signals.modelIds.length > 0
+  );
+}
+
+/**
+ * Format extracted signals for inclusion in agent prompts
+ */
+export function formatRepoSignals(signals: RepoSignals): string {
+  if (!hasRepoSignals(signals)) {
+    return `No hard signals found in ${signals.analyzedFiles.length} manifest/script files.`;
+  }
+
+  const lines: string[] = [];
+  if (signals.frameworks.length > 0) {
+    lines.push(`- **Frameworks**: ${signals.frameworks.map((f) => `${f.name}${f.version ? ` ${f.version}` : ""} (${f.source})`).join(", ")}`);
+  }
+  if (signals.cudaVersions.length > 0) {
+    lines.push(`- **CUDA pins**: ${signals.cudaVersions.map((c) => `${c.value} (${c.source})`).join(", ")}`);
+  }
+  if (signals.pythonVersions.length > 0) {
+    lines.push(`- **Python**: ${signals.pythonVersions.map((p) => `${p.value} (${p.source})`).join(", ")}`);
+  }
+  if (signals.gpuFlags.length > 0) {
+    lines.push(`- **GPU flags**: ${signals.gpuFlags.map((g) => `\`${g.value}\` (${g.source})`).join(", ")}`);
+  }
+  if (signals.nprocPerNode.length > 0) {
+    lines.push(`- **Processes per node**: ${signals.nprocPerNode.map((n) => `${n.value} (${n.source})`).join(", ")}`);
+  }
+  for (const config of signals.accelerateConfigs) {
+    const parts = [
+      config.distributedType && `distributed_type=${config.distributedType}`,
+      config.numProcesses && `num_processes=${config.numProcesses}`,
+      config.mixedPrecision && `mixed_precision=${config.mixedPrecision}`,
+    ].filter(Boolean);
+    lines.push(`- **Accelerate config** (${config.source}): ${parts.join(", ")}`);
+  }
+  if (signals.modelIds.length > 0) {
+    lines.push(`- **Hugging Face models**: ${signals.modelIds.map((m) => `${m.value} (${m.source})`).join(", ")}`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import { appendRunEvent, createRun, finishRun, streamRun } from "@/lib/run-store";
+import { decodeStreamFrame } from "@/lib/stream-protocol";
+
+async function readEvents(stream: ReadableStream<Uint8Array>) {
+  const text = await new Response(stream).text();
+  return text
+    .split("\n\n")
+    .filter(Boolean)
+    .map((frame) => decodeStreamFrame(frame))
+    .map((result) => (result.success ? result.message : null));
+}
+
+describe("run buffer", () => {
+  test("replays only the latest partial of each stream", async () => {
+    const run = createRun("owner", { owner: "acme", repo: "model" })!;
+    appendRunEvent(run, { type: "specialist_stream", thinking: "a" });
+    appendRunEvent(run, { type: "broker_stream", thinking: "Starting", status: "starting" });
+    appendRunEvent(run, { type: "specialist_stream", thinking: "ab" });
+    appendRunEvent(run, { type: "specialist_stream", thinking: "abc" });
+    appendRunEvent(run, { type: "error", error: "boom" });
+    finishRun(run);
+
+    const messages = await readEvents(streamRun(run, null));
+    expect(messages.map((message) => message?.id)).toEqual([1, 3, 4]);
+    expect(messages[1]?.event).toMatchObject({ type: "specialist_stream", thinking: "abc" });
+    expect(run.bytes).toBe(run.frames.reduce((sum, frame) => sum + (frame?.length ?? 0), 0));
+  });
+
+  test("drops partials past the byte cap but keeps other events", async () => {
+    const run = createRun("owner", { owner: "acme", repo: "model" })!;
+    const thinking = "x".repeat(1024 * 1024);
+    appendRunEvent(run, { type: "scout_stream", reasoning: thinking, selectedFiles: [] });
+    appendRunEvent(run, { type: "specialist_stream", thinking });
+    appendRunEvent(run, { type: "specialist_stream", thinking: `${thinking}y` });
+    appendRunEvent(run, { type: "error", error: "boom" });
+    finishRun(run);
+
+    const messages = await readEvents(streamRun(run, null));
+    expect(messages.map((message) => message?.event.type)).toEqual(["scout_stream", "error"]);
+  });
+});
@@ -0,0 +1,173 @@
+import { createHash, randomUUID } from "crypto";
+import type { Session } from "next-auth";
+import { encodeStreamEvent } from "@/lib/stream-protocol";
+import type { AnalysisStreamEvent, RepoMeta } from "@/types/agentSchemas";
+
+/**
+ * Server-side buffer of analysis runs so a client can reconnect to a stream.
+ *
+ * Every event of a run is kept as an encoded SSE frame whose event ID is its
+ * index, so a reconnect with `Last-Event-ID: n` replays frames n+1.. and then
+ * follows the run live. Agent partials repeat everything streamed before
+ * them, so only the latest frame of each partial stream is kept, and
+ * partials are dropped once a run buffers MAX_RUN_BYTES. The pipeline keeps running when no client is
+ * attached. Runs live in process memory and are dropped RUN_TTL_MS after they
+ * finish, so reattaching only works against the instance that started the run.
+ * New runs are refused while MAX_RUNS are in flight.
+ */
+
+export interface AnalysisRun {
+  id: string;
+  /** Hash of the session identity that started the run */
+  ownerKey: string;
+  repoMeta: RepoMeta;
+  createdAt: number;
+  finishedAt: number | null;
+  /** Encoded SSE frames; index = event ID, null = superseded partial */
+  frames: Array<string | null>;
+  /** Index of the latest frame of each partial stream */
+  partialFrames: Map<string, number>;
+  /** Size of the frames still buffered */
+  bytes: number;
+  listeners: Set<() => void>;
+}
+
+const RUN_TTL_MS = 30 * 60 * 1000;
+const MAX_RUNS = 200;
+const MAX_RUN_BYTES = 2 * 1024 * 1024;
+
+const runs = new Map<string, AnalysisRun>();
+
+/**
+ * Stable, non-reversible key for the signed-in user, or null when the session
+ * carries no identity
+ */
+export function getRunOwnerKey(session: Session): string | null {
+  const identity = session.user?.email || session.user?.name || session.accessToken;
+  if (!identity) return null;
+  return createHash("sha256").update(identity).digest("hex").slice(0, 16);
+}
+
+function pruneRuns(now: number): void {
+  for (const [id, run] of runs) {
+    if (run.finishedAt !== null && now - run.finishedAt > RUN_TTL_MS) {
+      runs.delete(id);
+    }
+  }
+  // Drop the oldest finished runs early; runs in flight are never evicted
+  for (const [id, run] of runs) {
+    if (runs.size < MAX_RUNS) break;
+    if (run.finishedAt !== null) runs.delete(id);
+  }
+}
+
+/**
+ * Register a new run, or return null when MAX_RUNS are still in flight
+ */
+export function createRun(ownerKey: string, repoMeta: RepoMeta): AnalysisRun | null {
+  const now = Date.now();
+  pruneRuns(now);
+  if (runs.size >= MAX_RUNS) return null;
+
+  const run: AnalysisRun = {
+    id: randomUUID(),
+    ownerKey,
+    repoMeta,
+    createdAt: now,
+    finishedAt: null,
+    frames: [],
+    partialFrames: new Map(),
+    bytes: 0,
+    listeners: new Set(),
+  };
+  runs.set(run.id, run);
+  return run;
+}
+
+/**
+ * The run, if it exists and belongs to `ownerKey`
+ */
+export function getRun(runId: string, ownerKey: string): AnalysisRun | null {
+  const run = runs.get(runId);
+  return run && run.ownerKey === ownerKey ? run : null;
+}
+
+/**
+ * Stream whose events each repeat the ones before, or null for events that
+ * must all be replayed
+ */
+function partialStreamKey(event: AnalysisStreamEvent): string | null {
+  if (event.type === "scout_stream" || event.type === "specialist_stream") return event.type;
+  if (event.type === "broker_stream" && event.status === "streaming") return event.type;
+  return null;
+}
+
+/**
+ * Validate, encode and buffer an event, then wake attached streams.
+ * Throws if the event does not match the stream protocol.
+ */
+export function appendRunEvent(run: AnalysisRun, event: AnalysisStreamEvent): void {
+  if (run.finishedAt !== null) return;
+  const frame = encodeStreamEvent(run.frames.length, event);
+  const key = partialStreamKey(event);
+
+  if (key) {
+    // A later partial or the final event carries the same content
+    if (run.bytes + frame.length > MAX_RUN_BYTES) return;
+    const previous = run.partialFrames.get(key);
+    if (previous !== undefined) {
+      run.bytes -= run.frames[previous]?.length ?? 0;
+      run.frames[previous] = null;
+    }
+    run.partialFrames.set(key, run.frames.length);
+  }
+
+  run.frames.push(frame);
+  run.bytes += frame.length;
+  run.listeners.forEach((notify) => notify());
+}
+
+export function finishRun(run: AnalysisRun): void {
+  if (run.finishedAt !== null) return;
+  run.finishedAt = Date.now();
+  run.listeners.forEach((notify) => notify());
+}
+
+/**
+ * SSE body for a run: frames after `lastEventId` (all when null), then live
+ * frames until the run finishes. Detaching never stops the run.
+ */
+export function streamRun(run: AnalysisRun, lastEventId: number | null): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let next = lastEventId === null ? 0 : lastEventId + 1;
+  let notify: (() => void) | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      notify = () => {
+        while (next < run.frames.length) {
+          const frame = run.frames[next++];
+          if (frame !== null) controller.enqueue(encoder.encode(frame));
+        }
+        if (run.finishedAt !== null) {
+          run.listeners.delete(notify!);
+          controller.close();
+        }
+      };
+      run.listeners.add(notify);
+      notify();
+    },
+    cancel() {
+      if (notify) run.listeners.delete(notify);
+    },
+  });
+}
+
+/**
+ * Parse a `Last-Event-ID` header value
+ */
+export function parseLastEventId(value: string | null): number | null {
+  if (!value) return null;
+  const id = parseInt(value, 10);
+  return Number.isInteger(id) && id >= 0 ? id : null;
+}
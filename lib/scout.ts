@@ -1,35 +1,56 @@
-import { generateObject } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { ScoutOutputSchema, type ScoutOutput } from "@/types/agentSchemas";
+import type { DeepPartial } from "ai";
+import { generateAgentObject, streamAgentObject, type AgentModelOptions } from "@/lib/llm-provider";
+import { ScoutOutputSchema, type ScoutOutput, type RepoSignals } from "@/types/agentSchemas";
+import { formatRepoSignals } from "@/lib/repo-signals";
 
-export async function scoutRepo(filePaths: string[]): Promise<ScoutOutput> {
-  const { object } = await generateObject({
-    model: openai("gpt-4o"),
+/**
+ * Select the files that reveal the repo's compute scale. Streams partial
+ * output to `onPartial` when given.
+ */
+export async function scoutRepo(
+  filePaths: string[],
+  repoSignals?: RepoSignals,
+  modelOptions?: AgentModelOptions,
+  onPartial?: (partial: DeepPartial<ScoutOutput>) => void
+): Promise<ScoutOutput> {
+  let signalsSection = "";
+  if (repoSignals) {
+    signalsSection = `
+## STATIC SIGNALS (hard evidence already extracted)
+A rule-based extractor has already parsed these manifest and launch files: ${repoSignals.analyzedFiles.join(", ") || "none"}
+${formatRepoSignals(repoSignals)}
+
+Use these facts to decide where the remaining uncertainty is (e.g. the training script behind a \`torchrun\` launch, or the config that sets the batch size). Only re-select an already-parsed file if it likely holds more than what is listed above.
+`;
+  }
+
+  const request = {
     schema: ScoutOutputSchema,
-    prompt: `You are an AI Scout for a GPU provisioning tool called Brev Doctor. 
-    
-Your task: Given a list of file paths from a repository, select up to 8 files that are most likely to contain key configuration, architecture, or dependency information for training an ML model.
-
-Priority files to look for:
-- requirements.txt, pyproject.toml, setup.py, environment.yml (dependencies)
-- Dockerfile, docker-compose.yml (container configs)
-- config.yaml, config.json, *.cfg files (training configs)
-- train.py, main.py, run.py (entry points)
-- model.py, architecture.py, network.py (model definitions)
-- README.md (may contain hardware requirements)
+    prompt: `You are an expert Systems Architect for AI/ML Infrastructure.
 
-Ignore:
-- Test files (test_*, *_test.py)
-- Documentation (docs/*, *.md except README)
-- Images, data files, checkpoints
-- IDE configs (.vscode, .idea)
-- Git files (.git/*)
+Your task: Analyze the repository file structure to identify the files that reveal the **true compute scale** of the project.
 
-Here is the list of file paths:
+We need to answer: "What hardware does this ACTUALLY run on?"
+
+Priority Selection Strategy:
+1. **Infrastructure & Execution**: Look for shell scripts, Makefiles, Dockerfiles, or \`.slurm\` scripts. These often contain flags like \`--gpus all\`, \`--memory=64g\`, or specific GPU types (e.g., "A100").
+2. **Documentation**: README.md is critical. Look for "Hardware Requirements", "Installation", or "Benchmarks".
+3. **Configuration**: config.yaml, pyproject.toml, requirements.txt.
+4. **Core Logic**: Main training loops (train.py), model definitions (model.py).
+
+Ignore:
+- Standard boilerplate (LICENSE, .gitignore)
+- Frontend/UI code
+- Test suites (unless they are the main entry point)
+- Data/Assets
+${signalsSection}
+Here is the file list:
 ${filePaths.join("\n")}
 
-Analyze these ${filePaths.length} file paths and select the most relevant ones for GPU compute estimation.`,
-  });
+Select the top 8 files that will give the most accurate signal on compute requirements (VRAM, VCPU, RAM). Justify your selection based on expected information gain.`,
+  };
 
-  return object;
+  return onPartial
+    ? streamAgentObject("scout", request, onPartial, modelOptions)
+    : generateAgentObject("scout", request, modelOptions);
 }
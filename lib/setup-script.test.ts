@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import {
+  cudaCheckSection,
+  dependencySection,
+  detectPythonEnvironment,
+  modelDownloadSection,
+  pythonEnvSection,
+  smokeTestSection,
+} from "@/lib/setup-script";
+import type { BrevInstance, PythonEnvironment } from "@/types/agentSchemas";
+
+const venv: PythonEnvironment = { manager: "venv", pythonVersion: null, manifests: ["requirements.txt"] };
+const uv: PythonEnvironment = { manager: "uv", pythonVersion: "3.11", manifests: ["uv.lock"] };
+const a100: BrevInstance = { name: "A100", vram: 80, count: 2, arch: "Ampere", price: 3.5 };
+
+describe("detectPythonEnvironment", () => {
+  test("prefers uv.lock over the other manifests", () => {
+    const env = detectPythonEnvironment({ fileTree: ["uv.lock", "requirements.txt", "pyproject.toml"], repoSignals: null });
+    expect(env).toEqual({ manager: "uv", pythonVersion: null, manifests: ["uv.lock"] });
+  });
+
+  test("uses conda for a root environment file and ignores nested manifests", () => {
+    const env = detectPythonEnvironment({ fileTree: ["environment.yml", "docs/requirements.txt", "setup.py"], repoSignals: null });
+    expect(env).toEqual({ manager: "conda", pythonVersion: null, manifests: ["environment.yml", "setup.py"] });
+  });
+});
+
+describe("cudaCheckSection", () => {
+  test("fails without nvidia-smi", () => {
+    const body = cudaCheckSection(null);
+    expect(body).toContain("if ! command -v nvidia-smi");
+    expect(body).toContain("exit 1");
+    expect(body).not.toContain("REQUIRED_CUDA");
+  });
+
+  test("compares the driver against the pinned CUDA version", () => {
+    expect(cudaCheckSection("12.1")).toContain(`REQUIRED_CUDA="12.1"`);
+  });
+});
+
+describe("pythonEnvSection", () => {
+  test("creates the venv only once", () => {
+    const body = pythonEnvSection(venv);
+    expect(body).toContain("if [ ! -d .venv ]; then");
+    expect(body).toContain("source .venv/bin/activate");
+  });
+
+  test("passes the pinned Python version to uv", () => {
+    expect(pythonEnvSection(uv)).toContain("uv venv --python 3.11 .venv");
+  });
+});
+
+describe("dependencySection", () => {
+  test("installs manifests and skips setup commands they already cover", () => {
+    const body = dependencySection(venv, ["pip install -r requirements.txt", "pip install flash-attn"]);
+    expect(body).toContain("pip install -r requirements.txt");
+    expect(body.match(/requirements\.txt/g)).toHaveLength(1);
+    expect(body).toContain("pip install flash-attn");
+  });
+
+  test("rewrites pip for uv environments", () => {
+    const body = dependencySection(uv, ["pip install flash-attn"]);
+    expect(body).toContain("uv sync --frozen");
+    expect(body).toContain("uv pip install flash-attn");
+  });
+
+  test("annotates flagged commands", () => {
+    const body = dependencySection(venv, ["curl -fsSL https://example.com/install.sh | sh"]);
+    expect(body).toContain("# ⚠️  Flagged by Brev Doctor");
+  });
+});
+
+describe("modelDownloadSection", () => {
+  test("downloads plain org/name IDs", () => {
+    const body = modelDownloadSection(venv, ["meta-llama/Llama-3.1-8B"]);
+    expect(body).toContain(`for model in "meta-llama/Llama-3.1-8B"; do`);
+    expect(body).toContain("BREV_SKIP_MODEL_DOWNLOAD");
+  });
+
+  test("leaves out IDs that could carry shell syntax", () => {
+    const body = modelDownloadSection(venv, ["org/model", "org/$(touch pwned)", `org/x"; rm -rf ~; "`]);
+    expect(body).toContain(`for model in "org/model"; do`);
+    expect(body).not.toContain("pwned");
+    expect(body).not.toContain("rm -rf");
+    expect(modelDownloadSection(venv, ["$(id)"])).toBeNull();
+  });
+});
+
+describe("smokeTestSection", () => {
+  test("checks GPUs with nvidia-smi when PyTorch is not used", () => {
+    const body = smokeTestSection(a100, false);
+    expect(body).not.toContain("import torch");
+    expect(body).toContain(`if [ "$GPU_COUNT" -ne 2 ]; then`);
+    expect(body).toContain(`-lt ${72 * 1024}`);
+  });
+
+  test("checks GPUs through PyTorch when the repository uses it", () => {
+    const body = smokeTestSection(a100, true);
+    expect(body).toContain("import torch");
+    expect(body).toContain("expected_gpus, expected_vram_gb, min_vram_gb = 2, 80, 72");
+  });
+});
@@ -0,0 +1,303 @@
+import { getRepoTree, getMultipleFileContents } from "@/lib/github";
+import { getCachedAnalysis } from "@/lib/analysis-cache";
+import { selectSignalFiles, extractRepoSignals } from "@/lib/repo-signals";
+import { analyzeSetupCommands } from "@/lib/command-safety";
+import type {
+  BrevInstance,
+  PythonEnvironment,
+  RepoMeta,
+  SetupScriptContext,
+  SpecialistOutput,
+} from "@/types/agentSchemas";
+
+/**
+ * Generator for `.brev/setup.sh`.
+ *
+ * The script is built from independent sections (driver check, Python
+ * environment, dependencies, model download, smoke test). Every section is
+ * safe to re-run on an instance that was already set up.
+ */
+
+/** Share of the nominal VRAM a GPU must report (drivers reserve some memory) */
+const VRAM_TOLERANCE = 0.9;
+const MAX_PREDOWNLOAD_MODELS = 3;
+
+/** `org/name` Hugging Face IDs; anything else could carry shell syntax into the script */
+const HF_MODEL_ID = /^[\w.-]+\/[\w.-]+$/;
+
+/** Setup commands already covered by the dependency section */
+const MANIFEST_INSTALL_PATTERN = /(pip3?|uv pip) install\s+(-r\s+\S*requirements|-e\s+\.)|uv sync|conda env (create|update)|poetry install/;
+
+function section(title: string, body: string[]): string {
+  return [`# ---- ${title} ----`, ...body].join("\n");
+}
+
+/**
+ * Load the file tree and repo signals for a branch, from the user's analysis
+ * cache when it holds the branch, otherwise from GitHub
+ */
+export async function loadSetupScriptContext(
+  accessToken: string,
+  userKey: string,
+  repoMeta: RepoMeta
+): Promise<SetupScriptContext> {
+  const cached = getCachedAnalysis(userKey, repoMeta);
+  if (cached) {
+    return { fileTree: cached.tree.map((entry) => entry.path), repoSignals: cached.repoSignals };
+  }
+
+  const { owner, repo } = repoMeta;
+  const branch = repoMeta.branch || "main";
+  const fileTree = await getRepoTree(accessToken, owner, repo, branch);
+  const signalFiles = selectSignalFiles(fileTree);
+  const repoSignals = signalFiles.length > 0
+    ? extractRepoSignals(await getMultipleFileContents(accessToken, owner, repo, signalFiles, branch))
+    : null;
+  return { fileTree, repoSignals };
+}
+
+/**
+ * Pick the Python toolchain the repository uses from its root manifests
+ */
+export function detectPythonEnvironment({ fileTree, repoSignals }: SetupScriptContext): PythonEnvironment {
+  const root = new Set(fileTree.filter((path) => !path.includes("/")));
+  const condaFile = ["environment.yml", "environment.yaml"].find((name) => root.has(name));
+  const pythonVersion = repoSignals?.pythonVersions[0]?.value ?? null;
+
+  const manifests: string[] = [];
+  if (root.has("uv.lock")) {
+    manifests.push("uv.lock");
+  } else {
+    if (condaFile) manifests.push(condaFile);
+    if (root.has("requirements.txt")) manifests.push("requirements.txt");
+    const packageFile = ["pyproject.toml", "setup.py"].find((name) => root.has(name));
+    if (packageFile) manifests.push(packageFile);
+  }
+
+  return {
+    manager: root.has("uv.lock") ? "uv" : condaFile ? "conda" : "venv",
+    pythonVersion,
+    manifests,
+  };
+}
+
+/**
+ * Fail early without an NVIDIA driver, and warn when the driver is older
+ * than the CUDA version the repository pins
+ */
+export function cudaCheckSection(requiredCuda: string | null): string {
+  const body = [
+    "if ! command -v nvidia-smi >/dev/null 2>&1; then",
+    "  echo '❌ nvidia-smi not found: no NVIDIA driver is installed' >&2",
+    "  exit 1",
+    "fi",
+    "nvidia-smi --query-gpu=name,driver_version,memory.total --format=csv,noheader",
+    `DRIVER_CUDA=$(nvidia-smi | grep -oE 'CUDA Version: [0-9]+\\.[0-9]+' | awk '{print $3}') || true`,
+    `echo "Driver supports CUDA \${DRIVER_CUDA:-unknown}"`,
+  ];
+
+  if (requiredCuda) {
+    body.push(
+      `REQUIRED_CUDA="${requiredCuda}"`,
+      `if [ -n "$DRIVER_CUDA" ] && [ "$(printf '%s\\n' "$REQUIRED_CUDA" "$DRIVER_CUDA" | sort -V | head -n1)" != "$REQUIRED_CUDA" ]; then`,
+      `  echo "⚠️  The repository pins CUDA $REQUIRED_CUDA but the driver supports up to $DRIVER_CUDA" >&2`,
+      "fi"
+    );
+  }
+
+  return section("GPU driver", body);
+}
+
+/**
+ * Create (once) and activate the repository's environment
+ */
+export function pythonEnvSection(env: PythonEnvironment): string {
+  if (env.manager === "uv") {
+    return section("Python environment (uv)", [
+      "if ! command -v uv >/dev/null 2>&1; then",
+      "  curl -LsSf https://astral.sh/uv/install.sh | sh",
+      `  export PATH="$HOME/.local/bin:$PATH"`,
+      "fi",
+      "if [ ! -d .venv ]; then",
+      `  uv venv${env.pythonVersion ? ` --python ${env.pythonVersion}` : ""} .venv`,
+      "fi",
+      "source .venv/bin/activate",
+    ]);
+  }
+
+  if (env.manager === "conda") {
+    const envFile = env.manifests.find((manifest) => manifest.startsWith("environment."))!;
+    return section("Python environment (conda)", [
+      "if ! command -v conda >/dev/null 2>&1; then",
+      `  if [ ! -d "$HOME/miniforge3" ]; then`,
+      `    curl -fsSL -o /tmp/miniforge.sh "https://github.com/conda-forge/miniforge/releases/latest/download/Miniforge3-$(uname)-$(uname -m).sh"`,
+      `    bash /tmp/miniforge.sh -b -p "$HOME/miniforge3"`,
+      "  fi",
+      `  export PATH="$HOME/miniforge3/bin:$PATH"`,
+      "fi",
+      `eval "$(conda shell.bash hook)"`,
+      "if [ ! -d .conda-env ]; then",
+      `  conda env create -p ./.conda-env -f ${envFile}`,
+      "else",
+      `  conda env update -p ./.conda-env -f ${envFile}`,
+      "fi",
+      "conda activate ./.conda-env",
+    ]);
+  }
+
+  const python = env.pythonVersion ? `python${env.pythonVersion}` : "python3";
+  return section("Python environment (venv)", [
+    ...(env.pythonVersion
+      ? [
+          `PYTHON_BIN=${python}`,
+          `if ! command -v "$PYTHON_BIN" >/dev/null 2>&1; then`,
+          `  echo "⚠️  Python ${env.pythonVersion} not found, using $(python3 --version)" >&2`,
+          "  PYTHON_BIN=python3",
+          "fi",
+        ]
+      : ["PYTHON_BIN=python3"]),
+    "if [ ! -d .venv ]; then",
+    `  "$PYTHON_BIN" -m venv .venv`,
+    "fi",
+    "source .venv/bin/activate",
+    "python -m pip install --upgrade pip",
+  ]);
+}
+
+/**
+ * Install from the detected manifests, then run the Specialist's remaining
+ * setup commands
+ */
+export function dependencySection(env: PythonEnvironment, setupCommands: string[]): string {
+  const pip = env.manager === "uv" ? "uv pip install" : "pip install";
+  const body: string[] = [];
+
+  for (const manifest of env.manifests) {
+    if (manifest === "uv.lock") body.push("uv sync --frozen");
+    else if (manifest === "requirements.txt") body.push(`${pip} -r requirements.txt`);
+    else if (manifest === "pyproject.toml" || manifest === "setup.py") body.push(`${pip} -e .`);
+  }
+
+  const extra = env.manifests.length > 0
+    ? setupCommands.filter((command) => !MANIFEST_INSTALL_PATTERN.test(command))
+    : setupCommands;
+  const findings = analyzeSetupCommands(extra);
+  for (const command of extra) {
+    // Blocked commands reach the script only after the user acknowledged them
+    for (const finding of findings.filter((f) => f.command === command)) {
+      body.push(`# ⚠️  Flagged by Brev Doctor (${finding.rule}): ${finding.message}`);
+    }
+    // uv environments have no pip of their own
+    body.push(env.manager === "uv" ? command.replace(/^pip3? install/, "uv pip install") : command);
+  }
+
+  return section("Dependencies", body.length > 0 ? body : ["echo 'No dependency manifest found'"]);
+}
+
+/**
+ * Pre-download model weights into the Hugging Face cache. Skipped with
+ * BREV_SKIP_MODEL_DOWNLOAD=1; gated models need HF_TOKEN. IDs that are not
+ * plain `org/name` are left out.
+ */
+export function modelDownloadSection(env: PythonEnvironment, ids: string[]): string | null {
+  const modelIds = ids.filter((id) => HF_MODEL_ID.test(id));
+  if (modelIds.length === 0) return null;
+  const pip = env.manager === "uv" ? "uv pip install" : "pip install";
+
+  return section("Model download", [
+    `if [ -z "\${BREV_SKIP_MODEL_DOWNLOAD:-}" ]; then`,
+    `  ${pip} --quiet "huggingface_hub[cli]"`,
+    `  for model in ${modelIds.map((id) => `"${id}"`).join(" ")}; do`,
+    `    huggingface-cli download "$model" >/dev/null || echo "⚠️  Could not download $model (gated models need HF_TOKEN)" >&2`,
+    "  done",
+    "fi",
+  ]);
+}
+
+/**
+ * Assert the visible GPU count and VRAM match the chosen instance, through
+ * PyTorch when the repository uses it and nvidia-smi otherwise
+ */
+export function smokeTestSection(instance: BrevInstance, useTorch: boolean): string {
+  const minVramGb = Math.floor(instance.vram * VRAM_TOLERANCE);
+
+  if (!useTorch) {
+    return section("Smoke test", [
+      "GPU_COUNT=$(nvidia-smi --query-gpu=name --format=csv,noheader | wc -l)",
+      `if [ "$GPU_COUNT" -ne ${instance.count} ]; then`,
+      `  echo "❌ Expected ${instance.count} GPU(s), found $GPU_COUNT" >&2`,
+      "  exit 1",
+      "fi",
+      "nvidia-smi --query-gpu=memory.total --format=csv,noheader,nounits | while read -r mib; do",
+      `  if [ "$mib" -lt ${minVramGb * 1024} ]; then`,
+      `    echo "❌ GPU has \${mib}MiB, expected ${instance.vram}GB" >&2`,
+      "    exit 1",
+      "  fi",
+      "done",
+    ]);
+  }
+
+  return section("Smoke test", [
+    "python - <<'PY'",
+    "import torch",
+    "",
+    `expected_gpus, expected_vram_gb, min_vram_gb = ${instance.count}, ${instance.vram}, ${minVramGb}`,
+    `assert torch.cuda.is_available(), "CUDA is not available to PyTorch"`,
+    "count = torch.cuda.device_count()",
+    `assert count == expected_gpus, f"Expected {expected_gpus} GPU(s), found {count}"`,
+    "for i in range(count):",
+    "    props = torch.cuda.get_device_properties(i)",
+    "    vram_gb = props.total_memory / 1024**3",
+    `    assert vram_gb >= min_vram_gb, f"GPU {i} ({props.name}) has {vram_gb:.0f}GB, expected {expected_vram_gb}GB"`,
+    `    print(f"✓ GPU {i}: {props.name} ({vram_gb:.0f}GB)")`,
+    "PY",
+  ]);
+}
+
+/** Highest CUDA version pinned by the repository, e.g. "12.1" (or "12.0" for "12.x") */
+export function requiredCudaVersion(context: SetupScriptContext): string | null {
+  const versions = (context.repoSignals?.cudaVersions ?? []).map((pin) => pin.value.replace(/\.x$/, ".0"));
+  const [major, minor] = versions
+    .map((version) => version.split(".").map(Number))
+    .sort((a, b) => b[0] - a[0] || b[1] - a[1])[0] ?? [];
+  return major === undefined ? null : `${major}.${minor ?? 0}`;
+}
+
+export function generateSetupScript(
+  needs: SpecialistOutput,
+  instance: BrevInstance,
+  context: SetupScriptContext = { fileTree: [], repoSignals: null }
+): string {
+  const env = detectPythonEnvironment(context);
+  const frameworks = context.repoSignals?.frameworks ?? [];
+  // Without detected PyTorch, `import torch` would fail the script
+  const useTorch = frameworks.some((framework) => framework.name === "torch");
+  const modelIds = [
+    ...new Set([needs.memory_inputs.model_id, ...(context.repoSignals?.modelIds ?? []).map((id) => id.value)]),
+  ].filter((id): id is string => !!id && HF_MODEL_ID.test(id)).slice(0, MAX_PREDOWNLOAD_MODELS);
+
+  const sections = [
+    cudaCheckSection(requiredCudaVersion(context)),
+    pythonEnvSection(env),
+    dependencySection(env, needs.setup_commands),
+    modelDownloadSection(env, modelIds),
+    smokeTestSection(instance, useTorch),
+  ].filter((body): body is string => body !== null);
+
+  return [
+    "#!/bin/bash",
+    "set -eo pipefail",
+    "",
+    "# Brev Doctor Auto-Generated Setup Script",
+    `# Generated: ${new Date().toISOString()}`,
+    "",
+    "# Run from the repository root",
+    `cd "$(dirname "$0")/.."`,
+    "echo '🚀 Setting up Brev environment...'",
+    "",
+    sections.join("\n\n"),
+    "",
+    "echo '✅ Setup complete!'",
+    "",
+  ].join("\n");
+}
@@ -1,19 +1,28 @@
-import { generateObject } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { SpecialistOutputSchema, type SpecialistOutput, type ScoutOutput } from "@/types/agentSchemas";
+import type { DeepPartial } from "ai";
+import { generateAgentObject, streamAgentObject } from "@/lib/llm-provider";
+import { SpecialistOutputSchema, type SpecialistOutput, type ScoutOutput, type VramBreakdown, type RepoSignals, type ModelSpec } from "@/types/agentSchemas";
 import { getGpuCatalogDescription } from "@/lib/brev-api";
+import { formatRepoSignals } from "@/lib/repo-signals";
+import { findModelSpec, formatModelSpecs } from "@/lib/hf-models";
+import { getWorkloadSizingRule } from "@/lib/workloads";
+import { estimateVram } from "@/lib/vram-estimator";
 
 export interface SpecialistContext {
   repoMeta?: { owner: string; repo: string; branch?: string };
   scoutOutput?: ScoutOutput;
   totalFilesInRepo?: number;
+  repoSignals?: RepoSignals;
+  modelSpecs?: ModelSpec[];
+  /** Restricts the Specialist to local models (see lib/llm-provider.ts) */
+  privateRepo?: boolean;
 }
 
 export async function analyzeComputeNeeds(
   fileContents: Record<string, string>,
   userFeedback?: string,
   previousNeeds?: SpecialistOutput,
-  context?: SpecialistContext
+  context?: SpecialistContext,
+  onPartial?: (partial: DeepPartial<SpecialistOutput>) => void
 ): Promise<SpecialistOutput> {
   const formattedContents = Object.entries(fileContents)
     .map(([name, content]) => `--- ${name} ---\n${content}`)
@@ -47,50 +56,73 @@ This context helps you understand *why* these specific files were chosen and wha
 `;
   }
 
-  let prompt = `You are an NVIDIA Solutions Architect specializing in ML/AI workloads. Your job is to analyze code and provide comprehensive GPU compute recommendations.
-${repoContextSection}${scoutContextSection}
+  let signalsSection = "";
+  if (context?.repoSignals) {
+    signalsSection = `
+## STATIC SIGNALS (hard evidence)
+Extracted by rules from dependency manifests, Dockerfiles and launch scripts. Treat these as facts and start your analysis from them:
+${formatRepoSignals(context.repoSignals)}
+`;
+  }
+
+  let modelSpecsSection = "";
+  if (context?.modelSpecs && context.modelSpecs.length > 0) {
+    modelSpecsSection = `
+## RESOLVED MODEL SPECS (from the model registry)
+These Hugging Face models are referenced in the code. Their architecture is known, do not re-estimate it.
+Set memory_inputs.model_id to the model the workload actually runs:
+${formatModelSpecs(context.modelSpecs)}
+`;
+  }
+
+  let prompt = `You are a Senior NVIDIA AI Systems Architect. Your goal is to determine the **safe and optimal** GPU hardware for a given codebase.
+You must look beyond simple parameter counting and analyze the *system architecture*, *dependencies*, and *implied scale*.
+${repoContextSection}${scoutContextSection}${signalsSection}${modelSpecsSection}
 ## AVAILABLE GPU OPTIONS (for context)
 ${gpuCatalog}
 
 ## YOUR TASK
-Analyze the provided code files and determine the exact compute requirements. You MUST show your detailed thinking process.
-
-## THINKING PROCESS (REQUIRED)
-In your "thinking" field, walk through your analysis step-by-step:
-
-1. **File-by-File Analysis**: For each file, note what you find:
-   - Dependencies (transformers, torch, tensorflow, etc.)
-   - Model references (model names, architectures, parameter counts)
-   - Training configurations (batch size, sequence length, epochs)
-   - Data loading patterns (dataset size hints, preprocessing)
-
-2. **Model Size Estimation**: 
-   - Identify the model (e.g., "Llama-2-7B", "BERT-base", "ResNet-50")
-   - Estimate parameter count
-   - Calculate memory: params × precision (fp32=4B, fp16=2B, bf16=2B)
-   - Add optimizer states (Adam: 2x model size for fp32, or 8 bytes/param)
-   - Add gradient storage (same as model size)
-   - Add activation memory (batch_size × seq_len × hidden_dim × layers × 2)
-
-3. **VRAM Calculation**:
-   - Model weights: X GB
-   - Optimizer states: Y GB  
-   - Gradients: Z GB
-   - Activations (estimate): W GB
-   - Buffer/overhead: 10-20%
-   - TOTAL: Sum all with buffer
-
-4. **Architecture Decision**:
-   - Any: Basic CUDA, no special features needed
-   - Ampere (A10/A100): TF32, structured sparsity, 3rd gen tensor cores
-   - Ada (L4/L40): FP8, 4th gen tensor cores, video encode/decode
-   - Hopper (H100): Transformer Engine, FP8, HBM3, fastest for LLMs
-
-5. **Complexity Assessment**:
-   - Low: <1B params, simple fine-tuning, inference only
-   - Medium: 1-7B params, standard training, moderate datasets
-   - High: 7-70B params, full training, large datasets
-   - Enterprise: >70B params, multi-node, massive scale
+Analyze the provided code files and documentation to determine compute requirements.
+CRITICAL: If the project is a framework, distributed system, or training pipeline, you must provision for the *workload*, not just the model weights.
+
+## ANALYSIS FRAMEWORK (Execute in "thinking" field)
+
+1. **Context & Scope Extraction (The "Readme Test")**:
+   - **Explicit Claims**: Does the README mention "A100", "H100", "Multi-GPU", "Distributed", or specific VRAM amounts? **Trust these over code estimation.**
+   - **Execution Evidence**: Look for flags in scripts/docs: \`--gpus all\`, \`batch_size=4096\`, \`fp16\`.
+   - **Project Archetype**:
+     - *Toy/Demo*: <1GB VRAM.
+     - *Research/Fine-tuning*: 16-24GB VRAM (A10G, L4).
+     - *Production Training*: 40-80GB+ VRAM (A100, H100).
+     - *Distributed System*: Multi-GPU required.
+
+2. **Workload Analysis**:
+   - **LLM/NLP**: High VRAM for weights + KV cache.
+   - **CV/Diffusion**: High VRAM for activations (batch size sensitive).
+   - **RL/Robotics**: **Massive CPU-RAM usage**, Experience Replay buffers (can be 10GB+ VRAM/RAM), parallel environments.
+   - **Scientific/Graph**: Large matrices, memory-bound.
+   - **Workload Type (REQUIRED)**: Set "workload_type" to what the repo primarily runs:
+     pretraining, full_finetune, lora_finetune (LoRA/QLoRA/peft), batch_inference, online_serving
+     (vLLM, TGI, FastAPI/Gradio endpoints), rlhf (PPO/DPO/GRPO, trl) or data_processing (embeddings, feature extraction).
+     Serving repos must NOT be sized like training repos.
+
+3. **Memory Inputs (The "Evidence" Rule)**:
+   - Fill in "memory_inputs" from the code: Hugging Face model ID, parameter count (billions), precision, training vs inference, optimizer,
+     per-GPU batch size, sequence length, hidden size, layers, gradient checkpointing, LoRA rank / QLoRA, ZeRO stage, GPU count.
+   - A deterministic estimator computes weights, gradients, optimizer states, activations, CUDA overhead and buffer from these inputs.
+     Do not do this arithmetic yourself - focus on extracting accurate inputs and use null when a value is not in the files.
+   - Still provide your own rough "estimated_vram_gb", including about 20% headroom; it is only used when no parameter count can be identified.
+   - Fill "workload_size" (dataset tokens or samples, epochs, generated tokens per sample) from dataset names, configs and
+     docs so wall-clock time and total job cost can be estimated. Use null when unknown.
+
+4. **Architecture Selection**:
+   - **Ampere (A10/A100)**: Safe default for most modern DL (TF32 support).
+   - **Hopper (H100)**: Only if FP8 or "Transformer Engine" mentioned.
+   - **Ada (L4/L40)**: Good for inference or video.
+
+5. **Sanity Check**:
+   - If your calculation is < 4GB but the project says "Deep Reinforcement Learning", **you are wrong**. Bump to minimum viable workstation GPU (A10G/L4).
+   - If "Distributed" is mentioned, requires_multi_gpu MUST be true.
 
 ## FILES TO ANALYZE
 ${formattedContents}
@@ -104,6 +136,7 @@ The user disagrees with your previous analysis:
 "${userFeedback}"
 
 Your previous analysis:
+- Workload Type: ${previousNeeds.workload_type}
 - Complexity: ${previousNeeds.project_complexity}
 - VRAM: ${previousNeeds.estimated_vram_gb}GB
 - Architecture: ${previousNeeds.recommended_gpu_architecture}
@@ -117,11 +150,119 @@ Carefully reconsider your analysis based on their feedback. Explain in your thin
 Analyze these files thoroughly and provide your detailed compute requirements.`;
   }
 
-  const { object } = await generateObject({
-    model: openai("gpt-4o"),
-    schema: SpecialistOutputSchema,
-    prompt,
+  const request = { schema: SpecialistOutputSchema, prompt };
+  const modelOptions = { privateRepo: context?.privateRepo };
+  const object = onPartial
+    ? await streamAgentObject("specialist", request, onPartial, modelOptions)
+    : await generateAgentObject("specialist", request, modelOptions);
+
+  return applyVramEstimate(object, context?.modelSpecs);
+}
+
+/**
+ * Run the deterministic VRAM estimator on the Specialist's extracted inputs.
+ * Returns null when no parameter count could be identified.
+ */
+export function estimateSpecialistVram(needs: SpecialistOutput): VramBreakdown | null {
+  const inputs = needs.memory_inputs;
+  if (!inputs?.parameter_count_billions || inputs.parameter_count_billions <= 0) {
+    return null;
+  }
+
+  return estimateVram({
+    parameterCount: inputs.parameter_count_billions * 1e9,
+    precision: inputs.precision,
+    training: inputs.training,
+    optimizer: inputs.optimizer,
+    batchSize: inputs.batch_size,
+    sequenceLength: inputs.sequence_length,
+    hiddenSize: inputs.hidden_size,
+    numLayers: inputs.num_layers,
+    numAttentionHeads: inputs.num_attention_heads ?? null,
+    numKeyValueHeads: inputs.num_key_value_heads ?? null,
+    gradientCheckpointing: inputs.gradient_checkpointing,
+    loraRank: inputs.lora_rank,
+    qlora: inputs.qlora,
+    zeroStage: inputs.zero_stage,
+    numGpus: inputs.num_gpus,
+    bufferRatio: getWorkloadSizingRule(needs.workload_type).vramBuffer,
   });
+}
+
+/**
+ * VRAM each GPU must hold on its own. `estimated_vram_gb` covers the whole
+ * job across `num_gpus`; 0 when no estimator breakdown is available, so
+ * only that total applies.
+ */
+export function getPerGpuVram(needs: SpecialistOutput): number {
+  const breakdown = estimateSpecialistVram(needs);
+  return breakdown ? Math.ceil(breakdown.perGpuGb) : 0;
+}
+
+/**
+ * Overwrite the Specialist's model dimensions with registry specs.
+ * Uses the spec matching `memory_inputs.model_id`, or the only resolved spec
+ * when the Specialist did not name a model.
+ */
+export function applyModelSpecs(needs: SpecialistOutput, modelSpecs?: ModelSpec[]): SpecialistOutput {
+  if (!modelSpecs || modelSpecs.length === 0) {
+    return needs;
+  }
+
+  const inputs = needs.memory_inputs;
+  const spec = findModelSpec(modelSpecs, inputs.model_id)
+    ?? (!inputs.model_id && modelSpecs.length === 1 ? modelSpecs[0] : null);
+  if (!spec) {
+    return needs;
+  }
+
+  return {
+    ...needs,
+    memory_inputs: {
+      ...inputs,
+      model_id: spec.modelId,
+      parameter_count_billions: spec.parameterCount / 1e9,
+      hidden_size: spec.hiddenSize,
+      num_layers: spec.numLayers,
+      num_attention_heads: spec.numAttentionHeads,
+      num_key_value_heads: spec.numKeyValueHeads,
+    },
+  };
+}
+
+/**
+ * Make the estimator inputs consistent with the workload type: inference and
+ * data processing carry no optimizer state, adapter training uses a LoRA rank.
+ */
+export function applyWorkloadType(needs: SpecialistOutput): SpecialistOutput {
+  const rule = getWorkloadSizingRule(needs.workload_type);
+  const inputs = needs.memory_inputs;
+
+  return {
+    ...needs,
+    memory_inputs: {
+      ...inputs,
+      training: rule.training,
+      optimizer: rule.training ? inputs.optimizer : "none",
+      lora_rank: needs.workload_type === "lora_finetune" && !inputs.lora_rank && !inputs.qlora ? 16 : inputs.lora_rank,
+    },
+  };
+}
+
+/**
+ * Replace the LLM's free-text VRAM figure with the estimator's total.
+ * Falls back to the LLM estimate when the estimator has nothing to work with.
+ */
+export function applyVramEstimate(needs: SpecialistOutput, modelSpecs?: ModelSpec[]): SpecialistOutput {
+  needs = applyModelSpecs(applyWorkloadType(needs), modelSpecs);
+  const breakdown = estimateSpecialistVram(needs);
+  if (!breakdown) {
+    return needs;
+  }
 
-  return object;
+  return {
+    ...needs,
+    estimated_vram_gb: Math.ceil(breakdown.totalGb),
+    requires_multi_gpu: needs.requires_multi_gpu || breakdown.numGpus > 1,
+  };
 }
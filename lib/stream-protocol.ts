@@ -0,0 +1,70 @@
+import {
+  AnalysisStreamMessageSchema,
+  STREAM_PROTOCOL_VERSION,
+  type AnalysisStreamEvent,
+  type AnalysisStreamMessage,
+} from "@/types/agentSchemas";
+
+/**
+ * Wire format of the analysis stream, shared by /api/analyze and
+ * useAnalysisStream. Each SSE frame is
+ *
+ *   id: <event id>
+ *   data: {"v": <protocol version>, "id": <event id>, "event": {...}}
+ *
+ * Both ends validate against AnalysisStreamMessageSchema.
+ */
+
+export type StreamFrameResult =
+  | { success: true; message: AnalysisStreamMessage }
+  | { success: false; error: string };
+
+/**
+ * Validate an event and encode it as an SSE frame. Throws if the event does
+ * not match the protocol.
+ */
+export function encodeStreamEvent(id: number, event: AnalysisStreamEvent): string {
+  const message = AnalysisStreamMessageSchema.parse({ v: STREAM_PROTOCOL_VERSION, id, event });
+  return `id: ${message.id}\ndata: ${JSON.stringify(message)}\n\n`;
+}
+
+/**
+ * Parse and validate one SSE frame (the text between blank lines)
+ */
+export function decodeStreamFrame(frame: string): StreamFrameResult {
+  const data = frame
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).replace(/^ /, ""))
+    .join("\n");
+  if (!data) {
+    return { success: false, error: "Frame has no data" };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    return { success: false, error: "Frame data is not JSON" };
+  }
+
+  const version = (payload as { v?: unknown } | null)?.v;
+  if (version !== STREAM_PROTOCOL_VERSION) {
+    return {
+      success: false,
+      error: `Unsupported stream protocol version ${String(version)} (expected ${STREAM_PROTOCOL_VERSION})`,
+    };
+  }
+
+  const parsed = AnalysisStreamMessageSchema.safeParse(payload);
+  if (!parsed.success) {
+    return { success: false, error: `Invalid stream event: ${parsed.error.message}` };
+  }
+  return { success: true, message: parsed.data };
+}
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+} as const;
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import { estimateLoraParams, estimateVram, formatVramBreakdown, type VramEstimatorInput } from "@/lib/vram-estimator";
+
+const GB = 1024 ** 3;
+
+const inference7b: VramEstimatorInput = {
+  parameterCount: 7e9,
+  precision: "bf16",
+  training: false,
+  optimizer: "none",
+};
+
+describe("estimateVram", () => {
+  test("weights take bytes per parameter of the precision", () => {
+    expect(estimateVram(inference7b).weightsGb).toBeCloseTo((7e9 * 2) / GB, 2);
+    expect(estimateVram({ ...inference7b, precision: "fp32" }).weightsGb).toBeCloseTo((7e9 * 4) / GB, 2);
+    expect(estimateVram({ ...inference7b, precision: "int4" }).weightsGb).toBeCloseTo((7e9 * 0.5) / GB, 2);
+  });
+
+  test("adds framework overhead and a 20% buffer", () => {
+    const breakdown = estimateVram(inference7b);
+    const subtotal = (7e9 * 2) / GB + breakdown.frameworkOverheadGb;
+    expect(breakdown.bufferGb).toBeCloseTo(subtotal * 0.2, 1);
+    expect(breakdown.perGpuGb).toBeCloseTo(subtotal * 1.2, 1);
+    expect(breakdown.totalGb).toBe(breakdown.perGpuGb);
+  });
+
+  test("uses the given buffer ratio instead of the default", () => {
+    const breakdown = estimateVram({ ...inference7b, bufferRatio: 0.35 });
+    const subtotal = (7e9 * 2) / GB + breakdown.frameworkOverheadGb;
+    expect(breakdown.bufferRatio).toBe(0.35);
+    expect(breakdown.perGpuGb).toBeCloseTo(subtotal * 1.35, 1);
+  });
+
+  test("mixed-precision AdamW keeps gradients, fp32 master weights and two moments", () => {
+    const breakdown = estimateVram({ ...inference7b, training: true, optimizer: "adamw" });
+    expect(breakdown.trainableParams).toBe(7e9);
+    expect(breakdown.gradientsGb).toBeCloseTo((7e9 * 2) / GB, 2);
+    expect(breakdown.optimizerStatesGb).toBeCloseTo((7e9 * 12) / GB, 2);
+  });
+
+  test("LoRA trains only the adapters", () => {
+    const breakdown = estimateVram({
+      ...inference7b,
+      training: true,
+      optimizer: "adamw",
+      loraRank: 8,
+      hiddenSize: 4096,
+      numLayers: 32,
+    });
+    expect(breakdown.trainableParams).toBe(estimateLoraParams(8, 4096, 32));
+    expect(estimateLoraParams(8, 4096, 32)).toBe(2 * 8 * 4096 * 32 * 4);
+  });
+
+  test("QLoRA stores the base weights in 4-bit", () => {
+    const breakdown = estimateVram({ ...inference7b, training: true, optimizer: "adamw", qlora: true });
+    expect(breakdown.weightsGb).toBeCloseTo((7e9 * 0.5) / GB, 2);
+    expect(breakdown.notes.some((note) => note.includes("QLoRA"))).toBe(true);
+  });
+
+  test("ZeRO stage 3 shards weights, gradients and optimizer states", () => {
+    const single = estimateVram({ ...inference7b, training: true, optimizer: "adamw" });
+    const sharded = estimateVram({ ...inference7b, training: true, optimizer: "adamw", zeroStage: 3, numGpus: 4 });
+    expect(sharded.weightsGb).toBeCloseTo(single.weightsGb / 4, 1);
+    expect(sharded.gradientsGb).toBeCloseTo(single.gradientsGb / 4, 1);
+    expect(sharded.optimizerStatesGb).toBeCloseTo(single.optimizerStatesGb / 4, 1);
+    expect(sharded.totalGb).toBeCloseTo(sharded.perGpuGb * 4, 1);
+  });
+
+  test("inference KV cache holds keys and values for every layer", () => {
+    const shape = { batchSize: 4, sequenceLength: 4096, hiddenSize: 4096, numLayers: 32 };
+    const breakdown = estimateVram({ ...inference7b, ...shape });
+    expect(breakdown.kvCacheGb).toBeCloseTo((2 * 4 * 4096 * 4096 * 32 * 2) / GB, 2);
+  });
+
+  test("grouped-query attention shrinks the KV cache by the KV head ratio", () => {
+    const shape = { batchSize: 8, sequenceLength: 8192, hiddenSize: 8192, numLayers: 80 };
+    const full = estimateVram({ ...inference7b, parameterCount: 70e9, ...shape });
+    const gqa = estimateVram({ ...inference7b, parameterCount: 70e9, ...shape, numAttentionHeads: 64, numKeyValueHeads: 8 });
+    expect(gqa.kvCacheGb).toBeCloseTo(full.kvCacheGb / 8, 2);
+  });
+
+  test("activations are skipped without the batch shape", () => {
+    const breakdown = estimateVram(inference7b);
+    expect(breakdown.activationsGb).toBe(0);
+    expect(breakdown.kvCacheGb).toBe(0);
+    expect(breakdown.notes.length).toBeGreaterThan(0);
+  });
+});
+
+describe("formatVramBreakdown", () => {
+  test("lists every component and the per-GPU total", () => {
+    const text = formatVramBreakdown(estimateVram({ ...inference7b, training: true, optimizer: "adamw", zeroStage: 2, numGpus: 2 }));
+    expect(text).toContain("- Model weights:");
+    expect(text).toContain("- Buffer (20%):");
+    expect(text).toMatch(/\*\*Per GPU: [\d.]+GB\*\* × 2 GPUs = [\d.]+GB total/);
+  });
+});
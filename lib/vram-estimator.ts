@@ -0,0 +1,215 @@
+/**
+ * Deterministic GPU memory estimator.
+ *
+ * The Specialist extracts structured inputs (parameter count, precision,
+ * optimizer, batch shape, ...) from the repository and this module turns them
+ * into a per-component VRAM breakdown. Keeping the arithmetic out of the LLM
+ * makes `estimated_vram_gb` reproducible for the same inputs.
+ */
+
+import type { VramBreakdown } from "@/types/agentSchemas";
+
+export type Precision = "fp32" | "tf32" | "fp16" | "bf16" | "fp8" | "int8" | "int4";
+
+export type OptimizerKind = "adamw" | "adam" | "adamw_8bit" | "sgd_momentum" | "sgd" | "adafactor" | "none";
+
+export interface VramEstimatorInput {
+  /** Total model parameters (raw count, not billions) */
+  parameterCount: number;
+  precision: Precision;
+  /** Whether gradients and optimizer states need to be held in memory */
+  training: boolean;
+  optimizer: OptimizerKind;
+  batchSize?: number | null;
+  sequenceLength?: number | null;
+  hiddenSize?: number | null;
+  numLayers?: number | null;
+  /** Query heads and key/value heads; the KV cache shrinks by their ratio under grouped-query attention */
+  numAttentionHeads?: number | null;
+  numKeyValueHeads?: number | null;
+  gradientCheckpointing?: boolean;
+  /** LoRA adapter rank; when set only the adapters are trained */
+  loraRank?: number | null;
+  /** QLoRA: base weights are stored in 4-bit */
+  qlora?: boolean;
+  /** DeepSpeed ZeRO stage (0-3) */
+  zeroStage?: number | null;
+  numGpus?: number | null;
+  /** Safety margin on top of the subtotal (default 20%) */
+  bufferRatio?: number | null;
+}
+
+const GB = 1024 ** 3;
+
+/** CUDA context + framework allocations present before any tensor is created */
+const FRAMEWORK_OVERHEAD_GB = 1.5;
+
+/** Default fragmentation / allocator slack applied on top of the subtotal */
+const BUFFER_RATIO = 0.2;
+
+/** Modules LoRA usually targets per layer (q, k, v, o projections) */
+const LORA_TARGET_MODULES = 4;
+
+export const BYTES_PER_PARAM: Record<Precision, number> = {
+  fp32: 4,
+  tf32: 4,
+  fp16: 2,
+  bf16: 2,
+  fp8: 1,
+  int8: 1,
+  int4: 0.5,
+};
+
+/**
+ * Optimizer state bytes per trainable parameter, excluding the fp32 master
+ * copy that mixed-precision training keeps.
+ */
+const OPTIMIZER_BYTES_PER_PARAM: Record<OptimizerKind, number> = {
+  adamw: 8,
+  adam: 8,
+  adamw_8bit: 2,
+  sgd_momentum: 4,
+  sgd: 0,
+  adafactor: 4,
+  none: 0,
+};
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Estimate the trainable parameters of a LoRA adapter set.
+ * Each adapted d×d projection adds two rank-r matrices (d×r and r×d).
+ */
+export function estimateLoraParams(rank: number, hiddenSize: number, numLayers: number): number {
+  return 2 * rank * hiddenSize * numLayers * LORA_TARGET_MODULES;
+}
+
+/**
+ * Estimate the VRAM needed for a training or inference job.
+ */
+export function estimateVram(input: VramEstimatorInput): VramBreakdown {
+  const notes: string[] = [];
+  const numGpus = Math.max(1, Math.floor(input.numGpus || 1));
+  const zeroStage = Math.min(3, Math.max(0, Math.floor(input.zeroStage || 0)));
+  const params = Math.max(0, input.parameterCount);
+
+  // Model weights
+  const weightPrecision: Precision = input.qlora ? "int4" : input.precision;
+  if (input.qlora && input.precision !== "int4") {
+    notes.push("QLoRA: base weights stored in 4-bit");
+  }
+  let weightsBytes = params * BYTES_PER_PARAM[weightPrecision];
+
+  // Trainable parameters
+  let trainableParams = 0;
+  if (input.training) {
+    const isAdapterTraining = !!input.loraRank || !!input.qlora;
+    if (isAdapterTraining) {
+      const rank = input.loraRank || 16;
+      if (!input.loraRank) notes.push("QLoRA rank not specified, assuming r=16");
+      if (input.hiddenSize && input.numLayers) {
+        trainableParams = estimateLoraParams(rank, input.hiddenSize, input.numLayers);
+      } else {
+        trainableParams = params * 0.01;
+        notes.push("Hidden size/layers unknown, assuming adapters are 1% of parameters");
+      }
+    } else {
+      trainableParams = params;
+    }
+  }
+
+  // Gradients are kept in the training precision; fp32 master weights and
+  // optimizer states are added when training in reduced precision.
+  const gradientPrecision: Precision = BYTES_PER_PARAM[input.precision] < 2 ? "bf16" : input.precision;
+  let gradientsBytes = trainableParams * BYTES_PER_PARAM[gradientPrecision];
+  const masterCopyBytes = input.training && BYTES_PER_PARAM[input.precision] < 4 ? 4 : 0;
+  let optimizerBytes = trainableParams * (OPTIMIZER_BYTES_PER_PARAM[input.optimizer] + (input.optimizer === "none" ? 0 : masterCopyBytes));
+
+  // ZeRO partitions state across data-parallel ranks
+  if (numGpus > 1 && zeroStage > 0) {
+    optimizerBytes /= numGpus;
+    if (zeroStage >= 2) gradientsBytes /= numGpus;
+    if (zeroStage >= 3) weightsBytes /= numGpus;
+    notes.push(`ZeRO stage ${zeroStage} sharding across ${numGpus} GPUs`);
+  }
+
+  // Activations and KV cache need the batch shape and model dimensions
+  let activationsBytes = 0;
+  let kvCacheBytes = 0;
+  const { batchSize, sequenceLength, hiddenSize, numLayers } = input;
+  if (batchSize && sequenceLength && hiddenSize && numLayers) {
+    // Activation bytes are tied to compute precision (at least 16-bit)
+    const activationBytes = Math.max(2, BYTES_PER_PARAM[input.precision]);
+    const tokens = batchSize * sequenceLength;
+    if (input.training) {
+      // ~34 bytes per token per hidden unit per layer in 16-bit (Korthikanti et al.)
+      const perLayer = tokens * hiddenSize * 34 * (activationBytes / 2);
+      if (input.gradientCheckpointing) {
+        // Only layer inputs are stored; one layer is recomputed at a time
+        activationsBytes = tokens * hiddenSize * activationBytes * numLayers + perLayer;
+        notes.push("Gradient checkpointing: storing layer inputs only");
+      } else {
+        activationsBytes = perLayer * numLayers;
+      }
+    } else {
+      // Keys + values for every layer, plus a transient working set
+      const { numAttentionHeads, numKeyValueHeads } = input;
+      const kvRatio = numAttentionHeads && numKeyValueHeads && numKeyValueHeads < numAttentionHeads
+        ? numKeyValueHeads / numAttentionHeads
+        : 1;
+      if (kvRatio < 1) notes.push(`Grouped-query attention: ${numKeyValueHeads} KV heads for ${numAttentionHeads} attention heads`);
+      kvCacheBytes = 2 * tokens * hiddenSize * kvRatio * numLayers * activationBytes;
+      activationsBytes = tokens * hiddenSize * activationBytes * 4;
+    }
+  } else {
+    notes.push("Batch size, sequence length, hidden size or layer count unknown; activations not estimated");
+  }
+
+  const weightsGb = weightsBytes / GB;
+  const gradientsGb = gradientsBytes / GB;
+  const optimizerStatesGb = optimizerBytes / GB;
+  const activationsGb = activationsBytes / GB;
+  const kvCacheGb = kvCacheBytes / GB;
+  const subtotal = weightsGb + gradientsGb + optimizerStatesGb + activationsGb + kvCacheGb + FRAMEWORK_OVERHEAD_GB;
+  const bufferRatio = input.bufferRatio ?? BUFFER_RATIO;
+  const bufferGb = subtotal * bufferRatio;
+  const perGpuGb = subtotal + bufferGb;
+
+  return {
+    weightsGb: round(weightsGb),
+    gradientsGb: round(gradientsGb),
+    optimizerStatesGb: round(optimizerStatesGb),
+    activationsGb: round(activationsGb),
+    kvCacheGb: round(kvCacheGb),
+    frameworkOverheadGb: FRAMEWORK_OVERHEAD_GB,
+    bufferGb: round(bufferGb),
+    bufferRatio,
+    perGpuGb: round(perGpuGb),
+    totalGb: round(perGpuGb * numGpus),
+    numGpus,
+    trainableParams: Math.round(trainableParams),
+    notes,
+  };
+}
+
+/**
+ * Render a breakdown as a short markdown list (used in agent reasoning text)
+ */
+export function formatVramBreakdown(breakdown: VramBreakdown): string {
+  const lines = [
+    `- Model weights: ${breakdown.weightsGb}GB`,
+    `- Gradients: ${breakdown.gradientsGb}GB`,
+    `- Optimizer states: ${breakdown.optimizerStatesGb}GB`,
+    `- Activations: ${breakdown.activationsGb}GB`,
+    `- KV cache: ${breakdown.kvCacheGb}GB`,
+    `- Framework overhead: ${breakdown.frameworkOverheadGb}GB`,
+    `- Buffer (${Math.round(breakdown.bufferRatio * 100)}%): ${breakdown.bufferGb}GB`,
+    `- **Per GPU: ${breakdown.perGpuGb}GB**${breakdown.numGpus > 1 ? ` × ${breakdown.numGpus} GPUs = ${breakdown.totalGb}GB total` : ""}`,
+  ];
+  if (breakdown.notes.length > 0) {
+    lines.push("", ...breakdown.notes.map((note) => `_${note}_`));
+  }
+  return lines.join("\n");
+}
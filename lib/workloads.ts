@@ -0,0 +1,96 @@
+import type { WorkloadType, SpecialistOutput } from "@/types/agentSchemas";
+
+/**
+ * Workload classification and per-type sizing rules.
+ *
+ * A repo that serves a 70B model and one that pretrains it need very different
+ * hardware, so the Broker sizes by workload type rather than by VRAM alone.
+ * Kept free of server-only imports so UI components can use the labels.
+ */
+
+export interface WorkloadSizingRule {
+  label: string;
+  /** Whether gradients and optimizer states are held in memory */
+  training: boolean;
+  /** Safety margin the VRAM estimator adds on top of its subtotal */
+  vramBuffer: number;
+  /** Spread across GPUs only when a single card cannot hold the job */
+  preferSingleGpu: boolean;
+  /** Sizing guidance given to the Broker */
+  guidance: string;
+}
+
+export const WORKLOAD_SIZING_RULES: Record<WorkloadType, WorkloadSizingRule> = {
+  pretraining: {
+    label: "Pretraining",
+    training: true,
+    vramBuffer: 0.3,
+    preferSingleGpu: false,
+    guidance: "Throughput-bound and long-running. Prefer A100/H100 80GB with multiple GPUs; interconnect bandwidth matters more than price per GPU-hour.",
+  },
+  full_finetune: {
+    label: "Full fine-tune",
+    training: true,
+    vramBuffer: 0.25,
+    preferSingleGpu: false,
+    guidance: "Optimizer states dominate memory. Prefer one 80GB card over sharding across several small ones; go multi-GPU only when the breakdown exceeds a single card.",
+  },
+  lora_finetune: {
+    label: "LoRA / QLoRA fine-tune",
+    training: true,
+    vramBuffer: 0.2,
+    preferSingleGpu: true,
+    guidance: "Only adapters are trained. A single 24-48GB card (L4, A10G, L40S, A6000) is usually enough; do not recommend multi-GPU unless the base weights alone exceed one card.",
+  },
+  batch_inference: {
+    label: "Batch inference",
+    training: false,
+    vramBuffer: 0.15,
+    preferSingleGpu: true,
+    guidance: "Optimize throughput per dollar. Size to weights + KV cache for the batch; L4, A10G and L40S are usually the best value.",
+  },
+  online_serving: {
+    label: "Online serving",
+    training: false,
+    vramBuffer: 0.15,
+    preferSingleGpu: true,
+    guidance: "Latency-bound and always on, so cost compounds. Size exactly to weights + KV cache for the expected concurrency, never for training. Use tensor parallelism only when the weights do not fit on one card.",
+  },
+  rlhf: {
+    label: "RL / RLHF",
+    training: true,
+    vramBuffer: 0.35,
+    preferSingleGpu: false,
+    guidance: "Policy, reference, reward (and value) models are resident at the same time, plus rollout generation. Multi-GPU is usually required; prefer 80GB cards.",
+  },
+  data_processing: {
+    label: "Data processing",
+    training: false,
+    vramBuffer: 0.15,
+    preferSingleGpu: true,
+    guidance: "The GPU is secondary (embedding, tokenization, feature extraction). Pick the cheapest card that fits and put the budget into CPU cores and system RAM.",
+  },
+};
+
+/**
+ * Sizing rule for a workload type
+ */
+export function getWorkloadSizingRule(workloadType: WorkloadType): WorkloadSizingRule {
+  return WORKLOAD_SIZING_RULES[workloadType];
+}
+
+/**
+ * Format the sizing rule for inclusion in Broker prompts. `estimated` tells
+ * whether the VRAM figure comes from the deterministic estimator (which adds
+ * the workload's buffer) or is the Specialist's own rough figure.
+ */
+export function formatWorkloadSizing(needs: SpecialistOutput, estimated: boolean): string {
+  const rule = getWorkloadSizingRule(needs.workload_type);
+  const source = estimated
+    ? `estimate incl. ${Math.round(rule.vramBuffer * 100)}% buffer`
+    : "Specialist's rough figure, no parameter count found";
+  return `- **Workload Type**: ${rule.label}
+- **VRAM to Provision** (${source}): ${needs.estimated_vram_gb}GB
+- **Multi-GPU**: ${rule.preferSingleGpu ? "Only if the job cannot fit on one card" : "Acceptable when it improves throughput"}
+- **Sizing Rule**: ${rule.guidance}`;
+}
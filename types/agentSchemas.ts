@@ -5,9 +5,48 @@ export const ScoutOutputSchema = z.object({
   reasoning: z.string(),
 });
 
+export const MemoryInputsSchema = z.object({
+  model_id: z.string().nullable().describe("Hugging Face ID of the main model (e.g. 'meta-llama/Llama-2-7b-hf'). null if the model is not loaded from the Hub."),
+  parameter_count_billions: z.number().nullable().describe("Total model parameters in billions (e.g. 7 for Llama-2-7B, 0.11 for BERT-base). null if no model can be identified."),
+  precision: z.enum(["fp32", "tf32", "fp16", "bf16", "fp8", "int8", "int4"]).describe("Precision the weights are loaded and computed in"),
+  training: z.boolean().describe("true if the code trains or fine-tunes the model, false for inference only"),
+  optimizer: z.enum(["adamw", "adam", "adamw_8bit", "sgd_momentum", "sgd", "adafactor", "none"]).describe("Optimizer used for training. 'none' for inference."),
+  batch_size: z.number().nullable().describe("Per-GPU micro batch size. null if unknown."),
+  sequence_length: z.number().nullable().describe("Tokens per sample (or flattened patches for vision models). null if unknown."),
+  hidden_size: z.number().nullable().describe("Model hidden dimension. null if unknown."),
+  num_layers: z.number().nullable().describe("Number of transformer blocks / layers. null if unknown."),
+  num_attention_heads: z.number().nullable().describe("Attention (query) heads per layer. null if unknown."),
+  num_key_value_heads: z.number().nullable().describe("Key/value heads per layer; fewer than attention heads for grouped-query attention (e.g. 8 for Llama-3-70B). null if unknown."),
+  gradient_checkpointing: z.boolean(),
+  lora_rank: z.number().nullable().describe("LoRA rank if parameter-efficient fine-tuning is used, otherwise null"),
+  qlora: z.boolean().describe("true if the base model is loaded in 4-bit for QLoRA"),
+  zero_stage: z.number().nullable().describe("DeepSpeed ZeRO / FSDP sharding stage (0-3). null if not used."),
+  num_gpus: z.number().nullable().describe("Number of GPUs the job is launched on. null if not specified."),
+});
+
+export const WorkloadSizeSchema = z.object({
+  dataset_tokens: z.number().nullable().describe("Total tokens in one pass over the dataset. null if unknown."),
+  dataset_samples: z.number().nullable().describe("Number of samples/examples/images in one pass over the dataset. null if unknown."),
+  epochs: z.number().nullable().describe("Training epochs (or passes over the data). null if unknown."),
+  output_tokens_per_sample: z.number().nullable().describe("Tokens generated per sample for inference workloads. null if not generating."),
+});
+
+export const WorkloadTypeSchema = z.enum([
+  "pretraining",
+  "full_finetune",
+  "lora_finetune",
+  "batch_inference",
+  "online_serving",
+  "rlhf",
+  "data_processing",
+]);
+
 export const SpecialistOutputSchema = z.object({
   thinking: z.string().describe("Step-by-step analysis of the codebase. Walk through each file, identify model architecture, estimate parameters, calculate memory requirements. Show your work."),
-  estimated_vram_gb: z.number(),
+  workload_type: WorkloadTypeSchema.describe("What the repository primarily runs: pretraining from scratch, full fine-tuning, LoRA/QLoRA fine-tuning, offline batch inference, online model serving (API/chat endpoint), RL/RLHF, or GPU data processing (embeddings, feature extraction)"),
+  workload_size: WorkloadSizeSchema.describe("How much data the job processes, used to estimate wall-clock time and total cost"),
+  memory_inputs: MemoryInputsSchema.describe("Structured inputs for the deterministic VRAM estimator. Extract these from the code, configs and docs."),
+  estimated_vram_gb: z.number().describe("Your own rough VRAM estimate. Replaced by the deterministic estimator when a parameter count is known."),
   recommended_gpu_architecture: z.enum(["Any", "Ampere", "Hopper", "Ada"]),
   requires_multi_gpu: z.boolean(),
   setup_commands: z.array(z.string()),
@@ -49,20 +88,102 @@ export const GpuRetryDecisionSchema = z.object({
   fallback_reason: z.string().optional().describe("Why this fallback was chosen"),
 });
 
+export const GpuThroughputSchema = z.object({
+  fp32: z.number(),
+  tf32: z.number(),
+  fp16: z.number(),
+  bf16: z.number(),
+  fp8: z.number(),
+  int8: z.number(),
+}).partial();
+
 export const BrevInstanceSchema = z.object({
   name: z.string(),
   vram: z.number(),
   count: z.number(),
   arch: z.string(),
   price: z.number(),
+  /** Dense peak TFLOPS per GPU by precision (tensor cores where available) */
+  tflops: GpuThroughputSchema.optional(),
+  /** Memory bandwidth per GPU in GB/s */
+  memoryBandwidth: z.number().optional(),
+});
+
+export const GpuTierSchema = z.enum(["Ultra", "Elite", "Pro", "Advanced", "Standard", "Entry", "Budget", "Legacy"]);
+
+export const GpuCatalogEntrySchema = BrevInstanceSchema.extend({
+  tier: GpuTierSchema,
+  memoryType: z.string(),
+  memoryBandwidth: z.number(),
+  tflops: GpuThroughputSchema,
+  interconnect: z.enum(["NVLink", "NVLink Bridge", "PCIe"]),
+  /** GPU-to-GPU bandwidth in GB/s (NVLink only) */
+  nvlinkBandwidth: z.number().optional(),
+  maxGpusPerNode: z.number(),
+  /** CUDA compute capability, e.g. "8.0" for A100 */
+  computeCapability: z.string(),
+  /** Hourly price per GPU by cloud provider; `price` is the lowest of these */
+  providerPrices: z.array(z.object({ provider: z.string(), price: z.number() })),
+  /** Typical use cases */
+  notes: z.string(),
+  /** Whether the account can launch it right now; unset until a live catalog sync */
+  available: z.boolean().optional(),
+});
+
+/** Sizes are written as e.g. "48GB" in brev-launchable.yaml */
+const GigabytesSchema = z.union([
+  z.number(),
+  z.string().regex(/^\d+(\.\d+)?\s*GB$/i, "Expected a size such as 48GB").transform((value) => parseFloat(value)),
+]);
+
+/** User-authored `constraints:` section of brev-launchable.yaml, honored by the Broker */
+export const LaunchableConstraintsSchema = z.object({
+  /** Total hourly price across all GPUs, in USD */
+  maxHourlyBudget: z.number().positive().optional(),
+  /** Catalog GPU names, e.g. [A100, H100] */
+  allowedGpus: z.array(z.string()).optional(),
+  bannedArchitectures: z.array(z.string()).optional(),
+  requireMultiGpu: z.boolean().optional(),
+});
+
+/** Contents of brev-launchable.yaml (lib/launchable-config.ts) */
+export const LaunchableConfigSchema = z.object({
+  name: z.string(),
+  version: z.string(),
+  compute: z.object({
+    gpu: z.string(),
+    gpuCount: z.number().int().positive(),
+    vram: GigabytesSchema,
+    architecture: z.string(),
+  }),
+  workload: z.object({
+    type: WorkloadTypeSchema,
+  }),
+  requirements: z.object({
+    estimatedVram: GigabytesSchema,
+    cpuCores: z.number(),
+    systemRam: GigabytesSchema,
+    diskSpace: GigabytesSchema,
+  }),
+  setup: z.object({
+    script: z.string(),
+  }),
+  constraints: LaunchableConstraintsSchema.optional(),
 });
 
 export type ScoutOutput = z.infer<typeof ScoutOutputSchema>;
+export type WorkloadType = z.infer<typeof WorkloadTypeSchema>;
+export type WorkloadSize = z.infer<typeof WorkloadSizeSchema>;
+export type MemoryInputs = z.infer<typeof MemoryInputsSchema>;
 export type SpecialistOutput = z.infer<typeof SpecialistOutputSchema>;
 export type BrevInstance = z.infer<typeof BrevInstanceSchema>;
+export type GpuTier = z.infer<typeof GpuTierSchema>;
+export type GpuCatalogEntry = z.infer<typeof GpuCatalogEntrySchema>;
 export type BrokerOutput = z.infer<typeof BrokerOutputSchema>;
 export type GpuProvisioningResult = z.infer<typeof GpuProvisioningResultSchema>;
 export type GpuRetryDecision = z.infer<typeof GpuRetryDecisionSchema>;
+export type LaunchableConfig = z.infer<typeof LaunchableConfigSchema>;
+export type LaunchableConstraints = z.infer<typeof LaunchableConstraintsSchema>;
 
 export interface RepoMeta {
   owner: string;
@@ -70,9 +191,253 @@ export interface RepoMeta {
   branch?: string;
 }
 
+export interface VramBreakdown {
+  weightsGb: number;
+  gradientsGb: number;
+  optimizerStatesGb: number;
+  activationsGb: number;
+  kvCacheGb: number;
+  frameworkOverheadGb: number;
+  bufferGb: number;
+  /** Share of the subtotal kept as buffer (the workload's margin) */
+  bufferRatio: number;
+  /** Memory required on each GPU */
+  perGpuGb: number;
+  /** Memory required across all GPUs of the job */
+  totalGb: number;
+  numGpus: number;
+  trainableParams: number;
+  /** Assumptions made while estimating (missing inputs, defaults applied) */
+  notes: string[];
+}
+
+export interface RepoSignal<T = string> {
+  value: T;
+  source: string;
+}
+
+export interface RepoSignals {
+  /** Manifest and script files the extractor looked at */
+  analyzedFiles: string[];
+  frameworks: Array<{ name: "torch" | "jax" | "tensorflow"; version?: string; source: string }>;
+  cudaVersions: RepoSignal[];
+  pythonVersions: RepoSignal[];
+  /** Raw GPU flags, e.g. `--gpus all`, `--gres=gpu:4` */
+  gpuFlags: RepoSignal[];
+  /** Process counts from torchrun / accelerate / deepspeed launchers */
+  nprocPerNode: RepoSignal<number>[];
+  accelerateConfigs: Array<{
+    numProcesses?: number;
+    mixedPrecision?: string;
+    distributedType?: string;
+    source: string;
+  }>;
+  modelIds: RepoSignal[];
+}
+
+export interface ModelSpec {
+  modelId: string;
+  parameterCount: number;
+  hiddenSize: number;
+  numLayers: number;
+  numAttentionHeads: number;
+  numKeyValueHeads: number;
+  /** torch_dtype the checkpoint is published in */
+  defaultDtype: string;
+  contextLength: number;
+  /** "registry" for the bundled JSON, "remote" for a configured remote source */
+  source: "registry" | "remote";
+  registryVersion?: string;
+}
+
+export interface JobCostEstimate {
+  gpu: string;
+  gpuCount: number;
+  hourlyCost: number;
+  /** Expected wall-clock hours; null when the workload size is unknown */
+  hours: number | null;
+  /** Expected total dollars; null when hours are unknown */
+  totalCost: number | null;
+  /** Whether peak compute or memory bandwidth bounds the job */
+  bottleneck: "compute" | "memory" | null;
+  /** Always-on workloads are priced per month instead of per job */
+  continuous: boolean;
+  assumptions: string[];
+}
+
+export interface GpuCatalogSnapshot {
+  catalog: GpuCatalogEntry[];
+  /** Where prices and availability came from */
+  source: "live" | "cache" | "static";
+  /** ISO timestamp of the last successful sync; null for the static list */
+  fetchedAt: string | null;
+  /** True when the data is older than the refresh interval or never synced */
+  stale: boolean;
+  /** Why the last live refresh failed, if it did */
+  error?: string;
+}
+
+export type GpuScenarioKind = "cheapest" | "recommended" | "fastest";
+
+export interface GpuScenario {
+  kind: GpuScenarioKind;
+  label: string;
+  /** Instance with `count` set to the number of GPUs */
+  instance: BrevInstance;
+  /** Price for all GPUs of the scenario */
+  hourlyCost: number;
+  /** VRAM left over after the sized requirement, across all GPUs */
+  headroomGb: number;
+  headroomPercent: number;
+  rationale: string;
+}
+
 export interface MatchResult {
   best: BrevInstance | null;
   second_best: BrevInstance | null;
+  /** Ranked options: cheapest that fits, recommended, fastest time-to-result */
+  scenarios?: GpuScenario[];
+  /** Broker picks that broke the repository's constraints */
+  constraintViolations?: ConstraintViolation[];
+  /** Whether no configuration satisfied the constraints, so the Broker's pick was kept */
+  constraintsUnsatisfiable?: boolean;
+}
+
+/** A saved analysis run (see lib/history-store.ts) */
+export interface AnalysisRecord {
+  id: string;
+  repoMeta: RepoMeta;
+  /** Commit the analysis read; null if it could not be resolved */
+  commitSha: string | null;
+  /** ISO timestamp */
+  createdAt: string;
+  success: boolean;
+  error?: string;
+  userFeedback?: string;
+  recommendation?: string;
+  needs?: SpecialistOutput;
+  brokerOutput?: BrokerOutput;
+  match?: MatchResult;
+  agentSteps: AgentStep[];
+}
+
+/** History list row for an AnalysisRecord */
+export interface AnalysisRecordSummary {
+  id: string;
+  owner: string;
+  repo: string;
+  branch: string;
+  commitSha: string | null;
+  createdAt: string;
+  success: boolean;
+  error?: string;
+  recommendedGpu: string | null;
+  gpuCount: number | null;
+  confidence: string | null;
+  /** Price of all GPUs per hour */
+  hourlyCost: number | null;
+  /** Estimated job total; null when the workload size is unknown */
+  totalCost: number | null;
+}
+
+/** One compared value between two analyses (lib/analysis-diff.ts) */
+export interface AnalysisFieldDelta {
+  field: string;
+  label: string;
+  before: string | number | boolean | null;
+  after: string | number | boolean | null;
+  changed: boolean;
+  /** after - before, for numeric fields */
+  delta?: number;
+}
+
+/** An input file that differs between two analyses */
+export interface AnalysisFileChange {
+  path: string;
+  status: "added" | "removed" | "modified";
+  before?: string;
+  after?: string;
+}
+
+export interface AnalysisComparison {
+  /** Older analysis */
+  base: AnalysisRecordSummary;
+  /** Newer analysis */
+  head: AnalysisRecordSummary;
+  fields: AnalysisFieldDelta[];
+  files: AnalysisFileChange[];
+  /** Input files read by both analyses with identical content */
+  unchangedFiles: string[];
+}
+
+/** How a pull request changes compute requirements (lib/pr-analysis.ts) */
+export interface PullRequestComputeImpact {
+  changesRequirements: boolean;
+  /** One line, e.g. "VRAM estimate rises from 22GB to 41GB; L4 no longer fits, recommend L40s" */
+  headline: string;
+  baseVram: number;
+  headVram: number;
+  baseGpu: string | null;
+  headGpu: string | null;
+  /** Whether the base recommendation still holds the PR's sized VRAM and architecture */
+  baseGpuStillFits: boolean;
+}
+
+/** A risky pattern in a generated setup command (lib/command-safety.ts) */
+export interface CommandFinding {
+  command: string;
+  rule: "pipe-to-shell" | "destructive-rm" | "world-writable" | "credential-exposure" | "typosquat";
+  /** block: must be acknowledged before the PR is opened; warn: shown only */
+  severity: "block" | "warn";
+  message: string;
+}
+
+/** What the generated setup script knows about a repository (lib/setup-script.ts) */
+export interface SetupScriptContext {
+  fileTree: string[];
+  repoSignals: RepoSignals | null;
+}
+
+/** One changed value between two launchable configurations, keyed like `compute.gpu` */
+export interface LaunchableChange {
+  key: string;
+  before: string | null;
+  after: string | null;
+}
+
+/** A GPU configuration that breaks one of the repository's constraints */
+export interface ConstraintViolation {
+  constraint: keyof LaunchableConstraints;
+  /** e.g. "H100 × 2" */
+  gpu: string;
+  message: string;
+}
+
+/** Optional files committed next to the launchable (lib/container-config.ts) */
+export interface LaunchableOptions {
+  dockerfile?: boolean;
+  devcontainer?: boolean;
+}
+
+/** Python toolchain the setup script provisions */
+export interface PythonEnvironment {
+  manager: "uv" | "conda" | "venv";
+  pythonVersion: string | null;
+  /** Root manifests to install dependencies from, in install order */
+  manifests: string[];
+}
+
+/**
+ * Outcome of the commit-aware analysis cache (lib/analysis-cache.ts)
+ */
+export interface AnalysisCacheStatus {
+  /** hit: Scout and Specialist reused; partial: Scout reused, Specialist re-run; miss: nothing reused */
+  result: "hit" | "partial" | "miss";
+  reason: string;
+  /** Commit the cached analysis was made at */
+  cachedCommitSha?: string;
+  /** Relevant files whose content changed since the cached analysis */
+  changedFiles?: string[];
 }
 
 // Agent visualization types
@@ -89,13 +454,28 @@ export interface AgentStepData {
   // Repository scanning
   totalFiles?: number;
   fileTree?: string[];
+  commitSha?: string;
+
+  /** brev-launchable.yaml already in the repository */
+  currentLaunchable?: LaunchableConfig;
+  currentLaunchableError?: string;
+  /** User constraints read from the repository, and the files they came from */
+  constraints?: LaunchableConstraints;
+  constraintSources?: string[];
+
+  // Analysis cache
+  cache?: AnalysisCacheStatus;
   
+  // Static signal extraction
+  repoSignals?: RepoSignals;
+
   // Scout AI
   scoutReasoning?: string;
   selectedFiles?: string[];
   
   // File contents
   fileContents?: Record<string, string>;
+  modelSpecs?: ModelSpec[];
   
   // Specialist analysis
   specialistThinking?: string;
@@ -106,9 +486,11 @@ export interface AgentStepData {
     setupCommands: string[];
     complexity?: string;
     complexityReasoning?: string;
+    workloadType?: WorkloadType;
     cpuCores?: number;
     systemRam?: number;
     diskSpace?: number;
+    vramBreakdown?: VramBreakdown;
   };
   
   // Specialist thinking
@@ -120,6 +502,12 @@ export interface AgentStepData {
   brokerThinking?: string;
   matchConfidence?: string;
   costNotes?: string;
+  costEstimates?: JobCostEstimate[];
+  catalogSync?: Omit<GpuCatalogSnapshot, "catalog">;
+  /** Broker picks rejected for breaking the repository's constraints */
+  constraintViolations?: ConstraintViolation[];
+  /** Whether no catalog configuration satisfied the constraints */
+  constraintsUnsatisfiable?: boolean;
   
   // GPU provisioning
   provisioningAttempts?: Array<{
@@ -135,3 +523,147 @@ export interface AgentStepData {
   // General
   error?: string;
 }
+
+// Analysis stream protocol (server-sent events from /api/analyze)
+
+/** Bumped on any breaking change to the stream events below */
+export const STREAM_PROTOCOL_VERSION = 1;
+
+const isObject = (value: unknown) => typeof value === "object" && value !== null;
+
+const ProvisioningAttemptSchema = z.object({
+  gpu: z.string(),
+  vram: z.number(),
+  gpuCount: z.number(),
+  success: z.boolean(),
+  error: z.string().optional(),
+  errorType: z.string().optional(),
+});
+
+export const StepUpdateEventSchema = z.object({
+  type: z.literal("step_update"),
+  step: z.object({
+    id: z.string(),
+    status: z.enum(["pending", "running", "complete", "error"]),
+    startTime: z.number().optional(),
+    endTime: z.number().optional(),
+    data: z.custom<AgentStepData>(isObject).optional(),
+  }),
+});
+
+// Stream events carry partial agent output, so enum fields are plain strings
+export const ScoutStreamEventSchema = z.object({
+  type: z.literal("scout_stream"),
+  reasoning: z.string(),
+  selectedFiles: z.array(z.string()),
+});
+
+export const SpecialistStreamEventSchema = z.object({
+  type: z.literal("specialist_stream"),
+  thinking: z.string(),
+  estimatedVram: z.number().optional(),
+  architecture: z.string().optional(),
+  multiGpu: z.boolean().optional(),
+  setupCommands: z.array(z.string()).optional(),
+  complexity: z.string().optional(),
+  complexityReasoning: z.string().optional(),
+  workloadType: z.string().optional(),
+  cpuCores: z.number().optional(),
+  systemRam: z.number().optional(),
+  diskSpace: z.number().optional(),
+});
+
+export const BrokerStreamEventSchema = z.object({
+  type: z.literal("broker_stream"),
+  status: z.enum(["starting", "streaming", "complete"]).optional(),
+  thinking: z.string().optional(),
+  recommendedGpu: z.string().optional(),
+  recommendedVram: z.number().optional(),
+  gpuCount: z.number().optional(),
+  alternativeGpu: z.string().optional(),
+  matchConfidence: z.string().optional(),
+  costNotes: z.string().optional(),
+  costEstimates: z.array(z.custom<JobCostEstimate>(isObject)).optional(),
+  updateCount: z.number().optional(),
+});
+
+export const ProvisioningAttemptEventSchema = z.object({
+  type: z.literal("provisioning_attempt"),
+  attempt: z.number(),
+  gpu: z.string(),
+  vram: z.number(),
+  gpuCount: z.number(),
+});
+
+export const ProvisioningSuccessEventSchema = z.object({
+  type: z.literal("provisioning_success"),
+  attempt: z.number(),
+  workspaceName: z.string().optional(),
+  gpu: z.string(),
+  vram: z.number(),
+  gpuCount: z.number(),
+});
+
+export const ProvisioningFailedEventSchema = z.object({
+  type: z.literal("provisioning_failed"),
+  attempt: z.number(),
+  gpu: z.string(),
+  error: z.string().optional(),
+  errorType: z.string().optional(),
+  willRetry: z.boolean(),
+});
+
+export const RetryDecisionEventSchema = z.object({
+  type: z.literal("retry_decision"),
+  thinking: z.string(),
+  shouldRetry: z.boolean(),
+  nextGpu: z.string().optional(),
+  fallbackReason: z.string().optional(),
+});
+
+export const CompleteEventSchema = z.object({
+  type: z.literal("complete"),
+  result: z.object({
+    success: z.boolean(),
+    match: z.custom<MatchResult>(isObject),
+    needs: SpecialistOutputSchema,
+    recommendation: z.string(),
+    brokerOutput: BrokerOutputSchema,
+    provisioning: z.object({
+      attempted: z.boolean(),
+      success: z.boolean(),
+      workspaceName: z.string().optional(),
+      attempts: z.array(ProvisioningAttemptSchema),
+    }).optional(),
+  }),
+});
+
+export const ErrorEventSchema = z.object({
+  type: z.literal("error"),
+  error: z.string(),
+});
+
+export const AnalysisStreamEventSchema = z.discriminatedUnion("type", [
+  StepUpdateEventSchema,
+  ScoutStreamEventSchema,
+  SpecialistStreamEventSchema,
+  BrokerStreamEventSchema,
+  ProvisioningAttemptEventSchema,
+  ProvisioningSuccessEventSchema,
+  ProvisioningFailedEventSchema,
+  RetryDecisionEventSchema,
+  CompleteEventSchema,
+  ErrorEventSchema,
+]);
+
+/** Every `data:` payload: protocol version, event ID (also sent as the SSE `id:`) and the event */
+export const AnalysisStreamMessageSchema = z.object({
+  v: z.literal(STREAM_PROTOCOL_VERSION),
+  id: z.number().int().nonnegative(),
+  event: AnalysisStreamEventSchema,
+});
+
+export type ProvisioningAttemptRecord = z.infer<typeof ProvisioningAttemptSchema>;
+export type AnalysisStreamEvent = z.infer<typeof AnalysisStreamEventSchema>;
+export type AnalysisStreamMessage = z.infer<typeof AnalysisStreamMessageSchema>;
+export type StreamEventOf<T extends AnalysisStreamEvent["type"]> = Extract<AnalysisStreamEvent, { type: T }>;